@@ -4,26 +4,68 @@
  * between the user controls and the image generation service. It has been refactored
  * to act as a container, delegating UI rendering to `ControlsPanel` and `ResultsPanel`.
  */
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 
 // Component Imports
 import ControlsPanel from './components/ControlsPanel';
 import ResultsPanel from './components/ResultsPanel';
 import ImagePreviewModal from './components/ImagePreviewModal';
+import CompareModal from './components/CompareModal';
+import CropEditor from './components/CropEditor';
+import LookbookExportModal from './components/LookbookExportModal';
+import type { LookbookSettings } from './components/LookbookExportModal';
 import SampleSelectionModal from './components/SampleSelectionModal';
 import CameraIcon from './components/icons/CameraIcon';
 import WhatsAppIcon from './components/icons/WhatsAppIcon';
 import HeartIcon from './components/icons/HeartIcon';
 
 // Service and Utility Imports
-import { generateArtisticPhoto, refineArtisticPhoto } from './services/geminiService';
-import { urlToImageData } from './utils/imageUtils';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import LineageTree from './components/LineageTree';
+import MetadataReader from './components/MetadataReader';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import PresetManager from './components/PresetManager';
+import PaletteManager from './components/PaletteManager';
+import { generateArtisticPhoto, refineArtisticPhoto, toGenerationRecord } from './services/geminiService';
+import { loadHistory, saveHistoryImage, saveHistoryImages, updateHistoryImage, clearHistory, getStorageUsage } from './services/historyStore';
+import { exportSession, importSession } from './services/sessionArchive';
+import { buildLookbookPdf } from './services/lookbookPdf';
+import { loadPresets, savePresets, createPreset, exportPresets, importPresets, buildPresetLink, readPresetHash } from './services/presetStore';
+import {
+  loadCustomPalettes, saveCustomPalettes, loadBuiltInPaletteRoles, saveBuiltInPaletteRoles, createPalette, exportPalettes, importPalettes,
+} from './services/paletteStore';
+import type { PaletteFileFormat } from './services/paletteStore';
+import {
+  loadProjects,
+  saveProject,
+  createProject,
+  deleteProject,
+  loadActiveProjectId,
+  saveActiveProjectId,
+} from './services/projectStore';
+import type { StorageUsage } from './services/historyStore';
+import { loadPromptTemplates, getTemplateKey, DEFAULT_PROMPT_TEMPLATE } from './services/promptTemplates';
+import { urlToImageData, dataUrlToImageData, imageDataToDataUrl } from './utils/imageUtils';
+import { runWithConcurrency } from './utils/concurrency';
+import { createUndoHistory, pushState, undo, redo } from './utils/undoHistory';
+import { downloadUrl } from './utils/download';
+import { getCropSource, rememberCropSource } from './utils/crop';
 
 // Type and Data Imports
-import type { ImageData } from './types';
+import type { ImageData, GenerationVariant, GeneratedImage, OutputSize, GenerationMode, Project, ImageReview, ControlState, ControlPreset } from './types';
 import type { Sample } from './data/samples';
-import type { GenerationParams } from './services/geminiService';
+import type { GenerationParams, GenerationResult, RecordedGenerationParams } from './services/geminiService';
+import type { PromptTemplate } from './data/promptTemplates';
+import type { ImageMetadata, EmbeddedGenerationParams } from './utils/imageMetadata';
 import { garmentSamples, modelSamples } from './data/samples';
+import { colorPalettes, CUSTOM_PALETTE_ID, isSameColorRoles } from './data/palettes';
+import type { ColorPalette, PaletteRoleId, ColorSwap } from './data/palettes';
+import { poses, DEFAULT_POSE_ID } from './data/poses';
+import { outputFormats, CUSTOM_FORMAT_ID, DEFAULT_FORMAT_ID, clampCustomEdge, toAspectRatio } from './data/formats';
+import { InvalidInputError, GenerationCancelledError } from './services/errors';
+import { getVariationHint } from './data/variations';
+import { lookbookViews } from './data/views';
+import type { LookbookView } from './data/views';
 
 // --- Webhook Integration ---
 const WEBHOOK_URL = 'https://hook.eu2.make.com/57trxn7xu5tiai4oimn6zr5v5n3no3yh';
@@ -54,36 +96,341 @@ const sendImageToWebhook = async (imageUrl: string): Promise<void> => {
   }
 };
 
+/**
+ * Normalises any thrown value into an Error so it can be kept in state and rendered.
+ * @param err The thrown value.
+ */
+const toError = (err: unknown): Error => {
+  return err instanceof Error ? err : new Error('An unknown error occurred.');
+};
+
+/**
+ * Turns a name into a lowercase, hyphenated file name.
+ * @param name The name, e.g. a project name.
+ * @param fallback The file name used when nothing of the name is left.
+ */
+const toFileSlug = (name: string, fallback: string): string => {
+  return name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+};
+
+/** The controls when the app opens. */
+const INITIAL_CONTROLS: ControlState = {
+  garmentImage: null,
+  backDesignImage: null,
+  modelImage: null,
+  customBackground: null,
+  poseReferenceImage: null,
+  specificInstructions: '',
+  modelAge: 'none',
+  background: 'minimalist urban',
+  selectedPaletteId: 'none',
+  customPaletteColors: [],
+  customPaletteRoles: {},
+  customPaletteSwaps: [],
+  selectedPoseId: DEFAULT_POSE_ID,
+  selectedFormatId: DEFAULT_FORMAT_ID,
+  customSize: { width: 1080, height: 1080 },
+  fitMode: 'crop',
+  generationMode: 'variations',
+  variationCount: 1,
+  selectedViewIds: lookbookViews.map(view => view.id),
+  concurrency: 2,
+};
+
+/** Shown when the history is over its limits but every entry left is one the user marked. */
+const HISTORY_FULL_MESSAGE = 'El historial está lleno y solo quedan imágenes favoritas, valoradas o en colecciones, que no se borran solas. Desmarca algunas, borra el historial o elimina un proyecto para dejar sitio.';
+
+/** Controls edited by typing, whose successive changes undo as one step. */
+const TYPED_CONTROLS: (keyof ControlState)[] = ['specificInstructions', 'customSize'];
+
+/**
+ * Tells whether a control keeps its value. Sizes, view lists and the custom palette's colours,
+ * roles and swaps are rebuilt on every edit, so they are compared by content; images are compared by identity.
+ */
+const isSameControlValue = <K extends keyof ControlState>(key: K, a: ControlState[K], b: ControlState[K]): boolean => {
+  if (key === 'customSize' || key === 'selectedViewIds' || key === 'customPaletteColors' || key === 'customPaletteRoles'
+    || key === 'customPaletteSwaps') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+};
+
 const App: React.FC = () => {
   // --- STATE MANAGEMENT ---
   
-  // Input state: Raw materials for generation
-  const [garmentImage, setGarmentImage] = useState<ImageData | null>(null);
-  const [modelImage, setModelImage] = useState<ImageData | null>(null);
-  const [customBackground, setCustomBackground] = useState<ImageData | null>(null);
-
-  // Input state: Generation parameters and options
-  const [specificInstructions, setSpecificInstructions] =useState('');
-  const [modelAge, setModelAge] = useState('none');
-  const [background, setBackground] = useState('minimalist urban');
-  const [selectedPaletteId, setSelectedPaletteId] = useState<string>('none');
+  // Project state: the projects and the one being worked on
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+
+  // Input state: Raw materials for generation and the generation options, with their undo history
+  const [controlHistory, setControlHistory] = useState(() => createUndoHistory(INITIAL_CONTROLS));
+  const controls = controlHistory.present;
+  const {
+    garmentImage, backDesignImage, modelImage, customBackground, poseReferenceImage,
+    specificInstructions, modelAge, background, selectedPaletteId, customPaletteColors, customPaletteRoles, customPaletteSwaps, selectedPoseId,
+    selectedFormatId, customSize, fitMode, generationMode, variationCount, selectedViewIds, concurrency,
+  } = controls;
+
+  // Input state: Named presets of the controls
+  const [presets, setPresets] = useState<ControlPreset[]>(loadPresets);
+
+  // Input state: The user's own palettes, offered after the built-in ones
+  const [customPalettes, setCustomPalettes] = useState<ColorPalette[]>(loadCustomPalettes);
+  // The colour roles given to built-in palettes, by palette id.
+  const [builtInPaletteRoles, setBuiltInPaletteRoles] = useState(() => loadBuiltInPaletteRoles(colorPalettes));
+  const palettes = useMemo(() => [
+    ...colorPalettes.map(palette => (builtInPaletteRoles[palette.id] ? { ...palette, roles: builtInPaletteRoles[palette.id] } : palette)),
+    ...customPalettes,
+  ], [builtInPaletteRoles, customPalettes]);
+
+  // Input state: Prompt templates (built-in plus user-saved versions)
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+  const [activeTemplateKey, setActiveTemplateKey] = useState(getTemplateKey(DEFAULT_PROMPT_TEMPLATE));
   
   // Output state: Results from the API
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [generatedImagesHistory, setGeneratedImagesHistory] = useState<string[]>([]);
+  const [generatedImagesHistory, setGeneratedImagesHistory] = useState<GeneratedImage[]>([]);
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
+  const [batchMode, setBatchMode] = useState<GenerationMode>('variations');
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   
   // UI/Flow state
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
   const [refinementPrompt, setRefinementPrompt] = useState('');
   const [previewImageIndex, setPreviewImageIndex] = useState<number | null>(null);
+  const [compareImageIds, setCompareImageIds] = useState<string[] | null>(null);
+  const [lookbookImageIds, setLookbookImageIds] = useState<string[] | null>(null);
   const [isGarmentSampleModalOpen, setIsGarmentSampleModalOpen] = useState(false);
+  // A sample image waiting to be cropped before it replaces the garment or model.
+  const [sampleToCrop, setSampleToCrop] = useState<{ image: ImageData; type: 'garment' | 'model' } | null>(null);
   const [isModelSampleModalOpen, setIsModelSampleModalOpen] = useState(false);
   const [isGarmentLoading, setIsGarmentLoading] = useState(false);
   const [isModelLoading, setIsModelLoading] = useState(false);
 
+  // Refs used to re-run failed work without re-reading the controls.
+  const lastActionRef = useRef<(() => void) | null>(null);
+  const runBatchItemRef = useRef<((index: number, signal: AbortSignal) => Promise<GenerationResult>) | null>(null);
+  // The controller of the operation in flight, so it can be cancelled.
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The active project, readable from async callbacks that outlive a project switch.
+  const activeProjectIdRef = useRef<string | null>(null);
+
+  // --- CONTROL STATE ---
+
+  /**
+   * Applies changes to the controls as one undoable step.
+   * @param changes - The controls to change and their new values.
+   */
+  const updateControls = (changes: Partial<ControlState>) => {
+    setControlHistory(prev => {
+      const keys = Object.keys(changes) as (keyof ControlState)[];
+      if (keys.every(key => isSameControlValue(key, prev.present[key], changes[key]!))) return prev;
+      // Typing in a field undoes as one step rather than one per keystroke.
+      const group = keys.length === 1 && TYPED_CONTROLS.includes(keys[0]) ? keys[0] : undefined;
+      return pushState(prev, { ...prev.present, ...changes }, group);
+    });
+  };
+
+  const handleUndo = () => setControlHistory(undo);
+  const handleRedo = () => setControlHistory(redo);
+
+  // Ctrl+Z undoes the last control change and Ctrl+Shift+Z (or Ctrl+Y) redoes it.
+  // Text fields keep their native undo while focused.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        setControlHistory(event.shiftKey ? redo : undo);
+      } else if (key === 'y') {
+        event.preventDefault();
+        setControlHistory(redo);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  /**
+   * Loads a preset into the controls, as one undoable step.
+   * A preset made with one of the user's palettes carries its colours. When that palette is
+   * missing (another browser, or deleted since) or has changed, they come back as the custom palette.
+   * @param preset - The preset to apply.
+   */
+  const applyPreset = ({ settings }: ControlPreset) => {
+    if (settings.selectedPaletteId === CUSTOM_PALETTE_ID) {
+      updateControls(settings);
+      return;
+    }
+    const palette = palettes.find(p => p.id === settings.selectedPaletteId);
+    const isMissingPalette = settings.customPaletteColors.length > 0
+      && !(palette?.colors.join() === settings.customPaletteColors.join() && isSameColorRoles(palette.roles, settings.customPaletteRoles));
+    if (isMissingPalette) {
+      updateControls({ ...settings, selectedPaletteId: CUSTOM_PALETTE_ID });
+      return;
+    }
+    // Any other palette is here as saved: select it, and keep the custom palette made from the garment.
+    updateControls({ ...settings, customPaletteColors, customPaletteRoles, customPaletteSwaps });
+  };
+  // The hash listener below outlives renders, so it reads the latest `applyPreset` through a ref.
+  const applyPresetRef = useRef(applyPreset);
+  applyPresetRef.current = applyPreset;
+
+  // Opening a link with a preset in its hash pre-fills the controls; the hash is then cleared
+  // so reloading the page does not apply it again over later changes.
+  useEffect(() => {
+    const applyPresetHash = () => {
+      try {
+        const preset = readPresetHash(window.location.hash);
+        if (!preset) return;
+        applyPresetRef.current(preset);
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      } catch (err) {
+        console.error('Failed to read the preset link:', err);
+        alert(`No se pudo leer el enlace de ajustes.\nError: ${(err as Error).message}`);
+      }
+    };
+    applyPresetHash();
+    window.addEventListener('hashchange', applyPresetHash);
+    return () => window.removeEventListener('hashchange', applyPresetHash);
+  }, []);
+
+  // --- PERSISTENCE ---
+
+  /** Refreshes the storage usage shown next to the history. */
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  };
+
+  /**
+   * Makes a project the active one: its references are loaded into the controls and its
+   * stored history into the results panel. Any request in flight is cancelled first.
+   * @param project - The project to open.
+   */
+  const openProject = async (project: Project) => {
+    handleCancel();
+    activeProjectIdRef.current = project.id;
+    setActiveProjectId(project.id);
+    saveActiveProjectId(project.id);
+    // Cropped references come back with their originals, so they can be cropped again.
+    if (project.garmentImage && project.garmentCropSource) rememberCropSource(project.garmentImage, project.garmentCropSource);
+    if (project.modelImage && project.modelCropSource) rememberCropSource(project.modelImage, project.modelCropSource);
+    // Undoing must not bring back the previous project's references, so the history starts over.
+    setControlHistory(prev => createUndoHistory({
+      ...prev.present,
+      garmentImage: project.garmentImage ?? null,
+      modelImage: project.modelImage ?? null,
+    }));
+    setGeneratedImagesHistory([]);
+    setGeneratedImage(null);
+    setVariants([]);
+    setError(null);
+    setRefinementPrompt('');
+    setPreviewImageIndex(null);
+    setCompareImageIds(null);
+    setLookbookImageIds(null);
+
+    const stored = await loadHistory(project.id);
+    // Ignore the result if another project was opened in the meantime.
+    if (activeProjectIdRef.current !== project.id) return;
+    setGeneratedImagesHistory(prev => [...prev, ...stored.filter(image => !prev.some(p => p.id === image.id))]);
+  };
+
+  // Restore the projects stored by previous sessions and reopen the last active one.
+  useEffect(() => {
+    loadProjects().then(stored => {
+      setProjects(stored);
+      const lastActiveId = loadActiveProjectId();
+      openProject(stored.find(p => p.id === lastActiveId) ?? stored[0]);
+    });
+    refreshStorageUsage();
+  }, []);
+
+  // Keep the active project's garment and model references, and the originals they were cropped from, in sync with the controls.
+  useEffect(() => {
+    const project = projects.find(p => p.id === activeProjectId);
+    if (!project) return;
+    if ((project.garmentImage ?? null) === garmentImage && (project.modelImage ?? null) === modelImage) return;
+    const updated: Project = {
+      ...project,
+      garmentImage: garmentImage ?? undefined,
+      modelImage: modelImage ?? undefined,
+      garmentCropSource: garmentImage ? getCropSource(garmentImage) : undefined,
+      modelCropSource: modelImage ? getCropSource(modelImage) : undefined,
+    };
+    setProjects(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    saveProject(updated).catch(err => console.error('Failed to store the project:', err));
+  }, [garmentImage, modelImage, activeProjectId, projects]);
+
   // --- DERIVED STATE ---
-  
+
+  /** True while any variant of the current batch is still queued or running. */
+  const isGenerating = useMemo(() => variants.some(v => v.status === 'pending' || v.status === 'loading'), [variants]);
+
+  /** True while any request (batch generation or refinement) is in flight. */
+  const isLoading = isGenerating || isRefining;
+
+  /** The prompt template version currently selected in the editor. */
+  const activeTemplate = useMemo(
+    () => promptTemplates.find(t => getTemplateKey(t) === activeTemplateKey) ?? DEFAULT_PROMPT_TEMPLATE,
+    [promptTemplates, activeTemplateKey]
+  );
+
+  /** The exact output size of the selected format preset (or of the custom size). */
+  const outputSize = useMemo((): OutputSize => {
+    if (selectedFormatId === CUSTOM_FORMAT_ID) {
+      return { width: clampCustomEdge(customSize.width), height: clampCustomEdge(customSize.height) };
+    }
+    const format = outputFormats.find(f => f.id === selectedFormatId) ?? outputFormats[0];
+    return { width: format.width, height: format.height };
+  }, [selectedFormatId, customSize]);
+
+  /** The colours of the selected palette; undefined to keep the garment's original colours. */
+  const selectedPaletteColors = useMemo((): string[] | undefined => {
+    if (selectedPaletteId === CUSTOM_PALETTE_ID) return customPaletteColors.length > 0 ? customPaletteColors : undefined;
+    if (selectedPaletteId === 'none') return undefined;
+    return palettes.find(p => p.id === selectedPaletteId)?.colors;
+  }, [selectedPaletteId, customPaletteColors, palettes]);
+
+  /**
+   * The roles of the selected palette colours, kept on the palette itself; undefined when none
+   * has a role. The custom palette keeps its roles in the controls, beside its colours.
+   */
+  const selectedColorRoles = useMemo((): Record<string, PaletteRoleId> | undefined => {
+    const roles = selectedPaletteId === CUSTOM_PALETTE_ID
+      ? customPaletteRoles
+      : palettes.find(p => p.id === selectedPaletteId)?.roles ?? {};
+    const assigned = (selectedPaletteColors ?? []).filter(color => roles[color]);
+    return assigned.length > 0 ? Object.fromEntries(assigned.map(color => [color, roles[color]])) : undefined;
+  }, [selectedPaletteId, selectedPaletteColors, customPaletteRoles, palettes]);
+
+  /** The garment colours swapped to make the selected palette; only the custom palette has any. */
+  const selectedColorSwaps = useMemo((): ColorSwap[] | undefined => {
+    return selectedPaletteId === CUSTOM_PALETTE_ID && customPaletteSwaps.length > 0 ? customPaletteSwaps : undefined;
+  }, [selectedPaletteId, customPaletteSwaps]);
+
+  /** The non-image generation settings currently selected in the controls. */
+  const selectedSettings = useMemo((): Omit<GenerationParams, 'garmentImage' | 'modelImage'> => ({
+    instructions: specificInstructions,
+    background,
+    modelAge,
+    aspectRatio: toAspectRatio(outputSize.width, outputSize.height),
+    outputSize,
+    fitMode,
+    paletteColors: selectedPaletteColors,
+    colorRoles: selectedColorRoles,
+    colorSwaps: selectedColorSwaps,
+    backgroundImage: background === 'custom' && customBackground ? customBackground : undefined,
+    backDesignImage: backDesignImage ?? undefined,
+    poseDescription: poses.find(p => p.id === selectedPoseId)?.description,
+    poseReferenceImage: poseReferenceImage ?? undefined,
+    promptTemplate: activeTemplate,
+  }), [specificInstructions, background, modelAge, selectedPaletteColors, selectedColorRoles, selectedColorSwaps, customBackground, backDesignImage, selectedPoseId, poseReferenceImage, outputSize, fitMode, activeTemplate]);
+
   /** Memoized value to determine if the generate button should be enabled. */
   const canGenerate = useMemo(() => garmentImage && modelImage && !isLoading, [garmentImage, modelImage, isLoading]);
   
@@ -93,45 +440,246 @@ const App: React.FC = () => {
   // --- API CALL ORCHESTRATION ---
 
   /**
-   * A wrapper function to handle the lifecycle of an API call (generation or refinement).
-   * Manages loading state, error handling, and updates results.
-   * @param apiCall - The async function to execute (e.g., `generateArtisticPhoto`).
-   * @param options - Configuration for the call, like whether it's a new generation.
+   * Records a freshly produced image: adds it to the history, stores it and forwards it to the webhook.
+   * Entries the store evicts to make room are dropped from the history too.
+   * @param result - The new image and the template version that produced it.
+   * @param details - An optional caption, the record of what produced the image, and for refinements the source image id.
+   */
+  const recordResult = (
+    result: GenerationResult,
+    details: Pick<GeneratedImage, 'label' | 'parentId' | 'record'> = {}
+  ) => {
+    const image: GeneratedImage = {
+      id: crypto.randomUUID(),
+      url: result.imageUrl,
+      templateId: result.templateId,
+      templateVersion: result.templateVersion,
+      createdAt: Date.now(),
+      prompt: result.prompt,
+      model: result.model,
+      projectId: activeProjectIdRef.current ?? undefined,
+      ...details,
+    };
+    setGeneratedImagesHistory(prev => [image, ...prev]);
+    saveHistoryImage(image)
+      .then(({ evictedIds, isFull }) => {
+        if (evictedIds.length > 0) {
+          setGeneratedImagesHistory(prev => prev.filter(entry => !evictedIds.includes(entry.id)));
+        }
+        if (isFull) alert(HISTORY_FULL_MESSAGE);
+        refreshStorageUsage();
+      })
+      .catch(err => {
+        console.error('Failed to store the image in the history:', err);
+        alert(`No se pudo guardar la imagen en el historial.\nError: ${(err as Error).message}`);
+      });
+    sendImageToWebhook(result.imageUrl);
+  };
+
+  /**
+   * Starts a new cancellable operation, aborting any previous one still in flight.
+   * @returns The signal to pass down to the service calls of the new operation.
+   */
+  const beginCancellableOperation = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  /** Cancels the generation or refinement currently in flight, if any. */
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
+  /**
+   * A wrapper function to handle the lifecycle of a refinement API call.
+   * Manages loading state, cancellation, error handling, and updates results.
+   * A cancelled call never updates the results, the history or the webhook.
+   * @param apiCall - The async function to execute (e.g., `refineArtisticPhoto`), given the abort signal.
+   * @param options - Configuration for the call, like a completion callback and the details to record.
    */
   const executeApiCall = async (
-    apiCall: () => Promise<string>,
-    options: { isNewGeneration: boolean; onComplete?: () => void }
+    apiCall: (signal: AbortSignal) => Promise<GenerationResult>,
+    options: { onComplete?: () => void; details?: Pick<GeneratedImage, 'parentId' | 'record'> }
   ) => {
-    setIsLoading(true);
+    const signal = beginCancellableOperation();
+    setIsRefining(true);
     setError(null);
-    if (options.isNewGeneration) {
-      setGeneratedImage(null);
-    }
 
     try {
-      const result = await apiCall();
-      setGeneratedImage(result);
-      setGeneratedImagesHistory(prev => [result, ...prev]);
-      sendImageToWebhook(result);
+      const result = await apiCall(signal);
+      if (signal.aborted) return;
+      setGeneratedImage(result.imageUrl);
+      recordResult(result, options.details);
       options.onComplete?.();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      if (!signal.aborted) {
+        setError(toError(err));
+      }
     } finally {
-      setIsLoading(false);
+      setIsRefining(false);
+    }
+  };
+
+  /**
+   * Resets the results panel for a new batch and starts a cancellable operation for it.
+   * @param batch - The variants of the new batch, all pending.
+   * @param mode - The generation mode the batch belongs to.
+   * @returns The signal of the new operation.
+   */
+  const beginBatch = (batch: GenerationVariant[], mode: GenerationMode): AbortSignal => {
+    const signal = beginCancellableOperation();
+    setError(null);
+    setGeneratedImage(null);
+    setVariants(batch);
+    setBatchMode(mode);
+    return signal;
+  };
+
+  /**
+   * Runs a batch of generation calls with bounded concurrency.
+   * Each variant's state is updated as soon as its own call settles, so results stream
+   * into the results panel. The first successful variant becomes the current image.
+   * @param buildParams - Builds the parameters for the variant at the given index.
+   * @param count - The number of variants to generate.
+   */
+  const executeBatchGeneration = async (buildParams: (index: number) => GenerationParams, count: number) => {
+    const batchId = Date.now();
+    const batch: GenerationVariant[] = Array.from({ length: count }, (_, index) => ({
+      id: `${batchId}-${index}`,
+      status: 'pending',
+    }));
+
+    runBatchItemRef.current = (index, signal) => runVariant(batch[index], buildParams(index), signal);
+    const signal = beginBatch(batch, 'variations');
+
+    const tasks = batch.map((_, index) => () => runBatchItemRef.current!(index, signal));
+    const outcomes = await runWithConcurrency(tasks, concurrency);
+
+    // Only surface a global error when the entire batch failed (cancellation is not a failure).
+    const failures = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+    if (!signal.aborted && failures.length === outcomes.length && failures.length > 0) {
+      setError(toError(failures[0].reason));
+    }
+  };
+
+  /**
+   * Runs a lookbook: one shot per camera view of the same garment, model and background.
+   * The first view is generated on its own; its image then anchors every later view so the
+   * set keeps the same identity and lighting. If the first view fails, the set is abandoned;
+   * retrying any of its views then shoots the first view again before it.
+   * @param params - The generation parameters shared by every view.
+   * @param views - The camera views to shoot, in order.
+   */
+  const executeLookbookGeneration = async (params: GenerationParams, views: LookbookView[]) => {
+    const batchId = Date.now();
+    const batch: GenerationVariant[] = views.map(view => ({
+      id: `${batchId}-${view.id}`,
+      status: 'pending',
+      label: view.label,
+    }));
+
+    let anchorImage: ImageData | undefined;
+    const runView = async (index: number, signal: AbortSignal): Promise<GenerationResult> => {
+      // A later view retried after the first one failed has no anchor yet: shoot the first view again first.
+      if (index > 0 && !anchorImage) {
+        await runView(0, signal);
+      }
+      const result = await runVariant(batch[index], {
+        ...params,
+        viewDirective: views[index].directive,
+        anchorImage: index === 0 ? undefined : anchorImage,
+      }, signal);
+      if (index === 0) {
+        anchorImage = dataUrlToImageData(result.imageUrl);
+      }
+      return result;
+    };
+    runBatchItemRef.current = runView;
+    const signal = beginBatch(batch, 'lookbook');
+
+    try {
+      await runView(0, signal);
+    } catch (err) {
+      batch.slice(1).forEach(variant => updateVariant(variant.id, { status: 'cancelled' }));
+      if (!signal.aborted) {
+        setError(toError(err));
+      }
+      return;
+    }
+
+    const tasks = batch.slice(1).map((_, offset) => () => runView(offset + 1, signal));
+    await runWithConcurrency(tasks, concurrency);
+  };
+
+  /**
+   * Runs the generation call for a single variant and streams its outcome into state.
+   * Variants whose signal is aborted are marked as cancelled and their results discarded.
+   * @param variant - The variant being generated.
+   * @param params - The generation parameters for this variant.
+   * @param signal - The signal of the operation this variant belongs to.
+   * @returns A promise that resolves to the generated image, or rejects with the typed error.
+   */
+  const runVariant = async (variant: GenerationVariant, params: GenerationParams, signal: AbortSignal): Promise<GenerationResult> => {
+    if (signal.aborted) {
+      updateVariant(variant.id, { status: 'cancelled' });
+      throw new GenerationCancelledError();
+    }
+    updateVariant(variant.id, { status: 'loading', error: undefined });
+    try {
+      const result = await generateArtisticPhoto(params, signal);
+      if (signal.aborted) {
+        throw new GenerationCancelledError();
+      }
+      updateVariant(variant.id, { status: 'success', imageUrl: result.imageUrl });
+      setGeneratedImage(current => current ?? result.imageUrl);
+      recordResult(result, { label: variant.label, record: toGenerationRecord(params) });
+      return result;
+    } catch (err) {
+      if (signal.aborted) {
+        updateVariant(variant.id, { status: 'cancelled' });
+      } else {
+        updateVariant(variant.id, { status: 'error', error: toError(err) });
+      }
+      throw err;
     }
   };
 
+  const updateVariant = (id: string, changes: Partial<GenerationVariant>) => {
+    setVariants(prev => prev.map(v => (v.id === id ? { ...v, ...changes } : v)));
+  };
+
+  /**
+   * Re-runs a single failed or cancelled variant of the current batch with its original parameters.
+   * @param variantId - The id of the variant to retry.
+   */
+  const handleRetryVariant = (variantId: string) => {
+    const index = variants.findIndex(v => v.id === variantId);
+    if (index === -1 || !runBatchItemRef.current || isLoading) return;
+    setError(null);
+    runBatchItemRef.current(index, beginCancellableOperation()).catch(() => {
+      // The failure is already recorded on the variant itself.
+    });
+  };
+
+  /** Re-runs the last generation or refinement that failed. */
+  const handleRetry = () => {
+    lastActionRef.current?.();
+  };
+
   // --- EVENT HANDLERS ---
 
   /**
    * Handles selecting a sample image (garment or model).
-   * It loads the image data from the provided URL and updates the corresponding state.
+   * It loads the image data from the provided URL and opens it in the crop editor;
+   * the cropped image then updates the corresponding state.
    * @param sample - The selected sample object.
    * @param type - The type of sample ('garment' or 'model').
    */
   const handleSampleSelect = async (sample: Sample, type: 'garment' | 'model') => {
     const setLoading = type === 'garment' ? setIsGarmentLoading : setIsModelLoading;
-    const setImage = type === 'garment' ? setGarmentImage : setModelImage;
     const closeModal = type === 'garment' ? setIsGarmentSampleModalOpen : setIsModelSampleModalOpen;
 
     closeModal(false);
@@ -140,10 +688,12 @@ const App: React.FC = () => {
 
     try {
       const imageData = await urlToImageData(sample.url);
-      setImage(imageData);
+      setSampleToCrop({ image: imageData, type });
     } catch (err) {
       const errorMessage = err instanceof Error ? `Failed to load sample: ${err.message}` : 'Failed to load sample image.';
-      setError(errorMessage);
+      // The error is not about the last generation, which must not be offered for retry.
+      lastActionRef.current = null;
+      setError(new Error(errorMessage));
     } finally {
       setLoading(false);
     }
@@ -157,48 +707,507 @@ const App: React.FC = () => {
     if (!canGenerate) return;
 
     if (background === 'custom' && !customBackground) {
-      setError("Por favor, sube una imagen de fondo o elige otra opción.");
+      lastActionRef.current = null;
+      setError(new InvalidInputError("Por favor, sube una imagen de fondo o elige otra opción."));
       return;
     }
     
-    const { colorPalettes } = await import('./data/palettes');
-    
     const params: GenerationParams = {
+      ...selectedSettings,
       garmentImage: garmentImage!,
       modelImage: modelImage!,
-      instructions: specificInstructions,
-      background,
-      modelAge,
-      aspectRatio: '9:16', // Fixed aspect ratio for consistency
-      paletteColors: selectedPaletteId !== 'none' 
-        ? colorPalettes.find(p => p.id === selectedPaletteId)?.colors
-        : undefined,
-      backgroundImage: background === 'custom' ? customBackground! : undefined,
     };
 
-    executeApiCall(() => generateArtisticPhoto(params), { isNewGeneration: true });
+    if (generationMode === 'lookbook') {
+      const views = lookbookViews.filter(view => selectedViewIds.includes(view.id));
+      lastActionRef.current = () => executeLookbookGeneration(params, views);
+      lastActionRef.current();
+      return;
+    }
+
+    const buildVariantParams = (index: number): GenerationParams => ({
+      ...params,
+      variationHint: getVariationHint(index, variationCount),
+    });
+    lastActionRef.current = () => executeBatchGeneration(buildVariantParams, variationCount);
+    lastActionRef.current();
   };
   
   /**
    * Main handler for the "Refine" button.
    * Sends the current image and a refinement prompt to the Gemini service via the orchestrator.
+   * The call is remembered so it can be retried with the same image and prompt.
    */
   const handleRefine = async () => {
     if (!canRefine || !generatedImage) return;
 
-    const base64 = generatedImage.split(',')[1];
-    const mimeType = generatedImage.match(/:(.*?);/)![1];
-    const baseImageData: ImageData = { base64, mimeType };
+    const baseImageData = dataUrlToImageData(generatedImage);
+    const parentId = generatedImagesHistory.find(image => image.url === generatedImage)?.id;
 
-    executeApiCall(
-      () => refineArtisticPhoto(baseImageData, refinementPrompt),
+    const prompt = refinementPrompt;
+    lastActionRef.current = () => executeApiCall(
+      (signal) => refineArtisticPhoto(baseImageData, prompt, { signal, promptTemplate: activeTemplate }),
       {
-        isNewGeneration: false,
         onComplete: () => setRefinementPrompt(''),
+        details: { parentId, record: { kind: 'refinement', refinementPrompt: prompt, sourceImage: baseImageData } },
       }
     );
+    lastActionRef.current();
   }
   
+  /**
+   * Handles a new template version saved from the editor and makes it the active one.
+   * @param template - The newly saved template version.
+   */
+  const handleTemplateSaved = (template: PromptTemplate) => {
+    setPromptTemplates(loadPromptTemplates());
+    setActiveTemplateKey(getTemplateKey(template));
+  };
+
+  /**
+   * Maps recorded settings to the controls that reproduce them, leaving out the input images.
+   * @param params - The recorded parameters, without their images.
+   */
+  const getRecordedControls = (params: EmbeddedGenerationParams): Partial<ControlState> => {
+    const paletteKey = (params.paletteColors ?? []).join();
+    const palette = params.colorSwaps?.length
+      ? undefined
+      : palettes.find(p => p.colors.join() === paletteKey && isSameColorRoles(p.roles, params.colorRoles));
+    const changes: Partial<ControlState> = {
+      specificInstructions: params.instructions,
+      modelAge: params.modelAge,
+      background: params.background,
+      selectedPaletteId: palette?.id ?? CUSTOM_PALETTE_ID,
+      selectedPoseId: poses.find(p => p.description === params.poseDescription)?.id ?? DEFAULT_POSE_ID,
+      fitMode: params.fitMode ?? 'crop',
+    };
+    // Colours and roles that match no saved palette, or swapped garment colours, come back as the custom palette.
+    if (!palette) {
+      changes.customPaletteColors = params.paletteColors ?? [];
+      changes.customPaletteRoles = params.colorRoles ?? {};
+      changes.customPaletteSwaps = params.colorSwaps ?? [];
+    }
+    if (params.outputSize) {
+      const { width, height } = params.outputSize;
+      const format = outputFormats.find(f => f.width === width && f.height === height);
+      changes.selectedFormatId = format?.id ?? CUSTOM_FORMAT_ID;
+      if (!format) changes.customSize = { width, height };
+    }
+    return changes;
+  };
+
+  /**
+   * Loads recorded generation parameters back into the controls, so the image can be
+   * regenerated exactly or with one setting changed. The whole change undoes as one step.
+   * @param params - The recorded parameters.
+   */
+  const applyRecordedParams = (params: RecordedGenerationParams) => {
+    updateControls({
+      ...getRecordedControls(params),
+      garmentImage: params.garmentImage,
+      modelImage: params.modelImage,
+      backDesignImage: params.backDesignImage ?? null,
+      customBackground: params.backgroundImage ?? null,
+      poseReferenceImage: params.poseReferenceImage ?? null,
+    });
+  };
+
+  /** Selects the template version that produced an image again, when it still exists. */
+  const selectRecordedTemplate = (templateId: string, templateVersion: number) => {
+    const template = promptTemplates.find(t => t.id === templateId && t.version === templateVersion);
+    if (template) {
+      setActiveTemplateKey(getTemplateKey(template));
+    }
+  };
+
+  /**
+   * Restores the settings read from a downloaded image's metadata. Input images are not
+   * embedded in files, so the current ones are kept.
+   * @param metadata - The metadata read from the file.
+   */
+  const handleRestoreMetadata = (metadata: ImageMetadata) => {
+    if (metadata.settings?.kind === 'generation') {
+      updateControls(getRecordedControls(metadata.settings.params));
+    } else if (metadata.settings?.kind === 'refinement') {
+      setRefinementPrompt(metadata.settings.refinementPrompt);
+    }
+    selectRecordedTemplate(metadata.templateId, metadata.templateVersion);
+  };
+
+  /**
+   * Handles the "remix" action of the preview modal. A generation's parameters are loaded
+   * into the controls; a refinement's source image and instruction into the refinement form.
+   * The template version that produced the image is selected again when it still exists.
+   * @param index - The index of the image in the history.
+   */
+  const handleRemix = (index: number) => {
+    const image = generatedImagesHistory[index];
+    if (!image?.record) return;
+
+    if (image.record.kind === 'generation') {
+      applyRecordedParams(image.record.params);
+    } else {
+      const source = generatedImagesHistory.find(entry => entry.id === image.parentId);
+      setGeneratedImage(source?.url ?? imageDataToDataUrl(image.record.sourceImage));
+      setRefinementPrompt(image.record.refinementPrompt);
+    }
+
+    selectRecordedTemplate(image.templateId, image.templateVersion);
+    setPreviewImageIndex(null);
+  };
+
+  /** Deletes the active project's history, in memory and in storage, after confirmation. */
+  const handleClearHistory = async () => {
+    if (!activeProjectId || isLoading) return;
+    if (!window.confirm('¿Borrar todo el historial de este proyecto? Esta acción no se puede deshacer.')) return;
+    try {
+      await clearHistory(activeProjectId);
+    } catch (err) {
+      console.error('Failed to clear the stored history:', err);
+    }
+    setGeneratedImagesHistory([]);
+    setGeneratedImage(null);
+    setVariants([]);
+    setPreviewImageIndex(null);
+    setCompareImageIds(null);
+    setLookbookImageIds(null);
+    refreshStorageUsage();
+  };
+
+  // --- PROJECT AND COLLECTION HANDLERS ---
+
+  const handleSwitchProject = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (project && projectId !== activeProjectId) {
+      openProject(project);
+    }
+  };
+
+  const handleCreateProject = async () => {
+    const name = window.prompt('Nombre del nuevo proyecto (cliente o club):')?.trim();
+    if (!name) return;
+    const project = createProject(name);
+    setProjects(prev => [...prev, project]);
+    saveProject(project).catch(err => console.error('Failed to store the project:', err));
+    openProject(project);
+  };
+
+  const handleRenameProject = () => {
+    const project = projects.find(p => p.id === activeProjectId);
+    if (!project) return;
+    const name = window.prompt('Nuevo nombre del proyecto:', project.name)?.trim();
+    if (!name || name === project.name) return;
+    const updated = { ...project, name };
+    setProjects(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    saveProject(updated).catch(err => console.error('Failed to store the project:', err));
+  };
+
+  const handleDeleteProject = async () => {
+    const project = projects.find(p => p.id === activeProjectId);
+    if (!project || projects.length <= 1) return;
+    if (!window.confirm(`¿Eliminar el proyecto "${project.name}" y todo su historial? Esta acción no se puede deshacer.`)) return;
+    const remaining = projects.filter(p => p.id !== project.id);
+    setProjects(remaining);
+    openProject(remaining[0]);
+    try {
+      await deleteProject(project.id);
+    } catch (err) {
+      console.error('Failed to delete the project:', err);
+    }
+    refreshStorageUsage();
+  };
+
+  /** Downloads the active project, its inputs and its history as a ZIP archive. */
+  const handleExportSession = async () => {
+    const project = projects.find(p => p.id === activeProjectId);
+    if (!project) return;
+    try {
+      const archive = await exportSession({
+        projectName: project.name,
+        inputs: {
+          garmentImage: garmentImage ?? undefined,
+          modelImage: modelImage ?? undefined,
+          backgroundImage: customBackground ?? undefined,
+          backDesignImage: backDesignImage ?? undefined,
+        },
+        images: generatedImagesHistory,
+      });
+      const url = URL.createObjectURL(archive);
+      downloadUrl(url, `${toFileSlug(project.name, 'sesion')}-${new Date().toISOString().slice(0, 10)}.zip`);
+      // Give the browser time to start the download before releasing the archive.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('Failed to export the session:', err);
+      alert(`No se pudo exportar la sesión.\nError: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Builds the PDF lookbook of the selected history images and downloads it.
+   * @param settings - The cover texts and layout chosen in the export modal.
+   */
+  const handleExportLookbook = async (settings: LookbookSettings) => {
+    // Keep the order of the history, newest first, whatever the selection order.
+    const images = generatedImagesHistory.filter(image => lookbookImageIds?.includes(image.id));
+    const pdf = await buildLookbookPdf({ ...settings, images, history: generatedImagesHistory, palettes });
+    const url = URL.createObjectURL(pdf);
+    downloadUrl(url, `lookbook-${toFileSlug(settings.designName || settings.clubName, 'aristic')}.pdf`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  /**
+   * Stores a new list of presets, keeping the current one if the browser storage is full.
+   * @returns Whether the presets were stored.
+   */
+  const storePresets = (next: ControlPreset[]): boolean => {
+    try {
+      savePresets(next);
+      setPresets(next);
+      return true;
+    } catch (err) {
+      alert(`No se pudieron guardar los ajustes.\nError: ${(err as Error).message}`);
+      return false;
+    }
+  };
+
+  /** Saves the background, palette, age, instructions and format as a named preset. */
+  const handleSavePreset = () => {
+    const name = window.prompt('Nombre de los ajustes:')?.trim();
+    if (!name) return;
+    storePresets([...presets, createPreset(name, {
+      background,
+      customBackground: background === 'custom' ? customBackground : null,
+      selectedPaletteId,
+      // Only built-in palettes without roles are the same everywhere; the colours of any other one travel with the preset.
+      customPaletteColors: colorPalettes.some(p => p.id === selectedPaletteId) && !selectedColorRoles ? [] : selectedPaletteColors ?? [],
+      customPaletteRoles: selectedColorRoles ?? {},
+      customPaletteSwaps: selectedColorSwaps ?? [],
+      modelAge,
+      specificInstructions,
+      selectedFormatId,
+      customSize,
+      fitMode,
+    })]);
+  };
+
+  const handleDeletePreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset || !window.confirm(`¿Eliminar los ajustes "${preset.name}"?`)) return;
+    storePresets(presets.filter(p => p.id !== presetId));
+  };
+
+  /** Copies a link that opens the app with a preset applied. */
+  const handleCopyPresetLink = async (preset: ControlPreset) => {
+    const { url, omittedBackground } = buildPresetLink(preset, window.location.origin + window.location.pathname);
+    try {
+      await navigator.clipboard.writeText(url);
+      alert(omittedBackground
+        ? 'Enlace copiado. El fondo personalizado es demasiado grande para un enlace y no se incluye.'
+        : 'Enlace copiado al portapapeles.');
+    } catch (err) {
+      console.error('Failed to copy the preset link:', err);
+      window.prompt('Copia este enlace:', url);
+    }
+  };
+
+  /** Downloads every preset as a JSON file. */
+  const handleExportPresets = () => {
+    const url = URL.createObjectURL(exportPresets(presets));
+    downloadUrl(url, 'ajustes-aristic.json');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  /**
+   * Adds the presets of a JSON file to the stored ones.
+   * @param file - A file written by "Exportar JSON".
+   */
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = await importPresets(file);
+      if (storePresets([...presets, ...imported])) {
+        alert(imported.length === 1 ? 'Se ha importado 1 ajuste.' : `Se han importado ${imported.length} ajustes.`);
+      }
+    } catch (err) {
+      console.error('Failed to import the presets:', err);
+      alert(`No se pudieron importar los ajustes.\nError: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Stores the user's palettes and shows them.
+   * @returns Whether they could be stored.
+   */
+  const storeCustomPalettes = (next: ColorPalette[]): boolean => {
+    try {
+      saveCustomPalettes(next);
+      setCustomPalettes(next);
+      return true;
+    } catch (err) {
+      alert(`No se pudieron guardar las paletas.\nError: ${(err as Error).message}`);
+      return false;
+    }
+  };
+
+  /** Saves a new palette and selects it. */
+  const handleCreatePalette = (name: string, colors: string[], roles: Record<string, PaletteRoleId>) => {
+    const palette = createPalette(name, colors, roles);
+    if (storeCustomPalettes([...customPalettes, palette])) {
+      updateControls({ selectedPaletteId: palette.id });
+    }
+  };
+
+  const handleUpdatePalette = (palette: ColorPalette) => {
+    storeCustomPalettes(customPalettes.map(p => (p.id === palette.id ? palette : p)));
+  };
+
+  /**
+   * Assigns garment regions to the colours of a palette: the custom one, a built-in one or one of the user's.
+   * @param paletteId - The palette whose colours are assigned.
+   * @param roles - The region of each colour, by hex code.
+   */
+  const handlePaletteRolesChange = (paletteId: string, roles: Record<string, PaletteRoleId>) => {
+    if (paletteId === CUSTOM_PALETTE_ID) {
+      updateControls({ customPaletteRoles: roles });
+      return;
+    }
+    if (colorPalettes.some(p => p.id === paletteId)) {
+      // A palette left without roles is dropped, so that it is the same everywhere again.
+      const next = { ...builtInPaletteRoles, [paletteId]: roles };
+      if (Object.keys(roles).length === 0) delete next[paletteId];
+      try {
+        saveBuiltInPaletteRoles(next);
+        setBuiltInPaletteRoles(next);
+      } catch (err) {
+        alert(`No se pudieron guardar las zonas de color.\nError: ${(err as Error).message}`);
+      }
+      return;
+    }
+    const palette = customPalettes.find(p => p.id === paletteId);
+    if (palette) handleUpdatePalette({ ...palette, roles });
+  };
+
+  /**
+   * Moves a palette up or down the list, which is also its order in the palette selector.
+   * @param paletteId - The palette to move.
+   * @param offset - -1 to move it up, 1 to move it down.
+   */
+  const handleMovePalette = (paletteId: string, offset: number) => {
+    const index = customPalettes.findIndex(p => p.id === paletteId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= customPalettes.length) return;
+    const next = [...customPalettes];
+    [next[index], next[target]] = [next[target], next[index]];
+    storeCustomPalettes(next);
+  };
+
+  /** Deletes a palette; if it was selected, the garment keeps its original colours. */
+  const handleDeletePalette = (paletteId: string) => {
+    const palette = customPalettes.find(p => p.id === paletteId);
+    if (!palette || !window.confirm(`¿Eliminar la paleta "${palette.name}"?`)) return;
+    if (storeCustomPalettes(customPalettes.filter(p => p.id !== paletteId)) && selectedPaletteId === paletteId) {
+      updateControls({ selectedPaletteId: 'none' });
+    }
+  };
+
+  const handleExportPalettes = (format: PaletteFileFormat) => {
+    const { blob, extension } = exportPalettes(customPalettes, format);
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, `paletas-aristic.${extension}`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  /**
+   * Adds the palettes of a file to the user's palettes.
+   * @param file - A JSON file written by the app, or an ASE or GPL swatch file.
+   */
+  const handleImportPalettes = async (file: File) => {
+    try {
+      const imported = await importPalettes(file);
+      if (storeCustomPalettes([...customPalettes, ...imported])) {
+        alert(imported.length === 1 ? 'Se ha importado 1 paleta.' : `Se han importado ${imported.length} paletas.`);
+      }
+    } catch (err) {
+      console.error('Failed to import the palettes:', err);
+      alert(`No se pudieron importar las paletas.\nError: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Imports a session archive as a new project, with its inputs and history, and opens it.
+   * @param file - The ZIP archive written by "Exportar sesión".
+   */
+  const handleImportSession = async (file: File) => {
+    try {
+      const session = await importSession(file);
+      const project: Project = {
+        ...createProject(session.projectName),
+        garmentImage: session.inputs.garmentImage,
+        modelImage: session.inputs.modelImage,
+      };
+      await saveProject(project);
+      // Saved together, so making room for the session never evicts its own entries.
+      const { isFull } = await saveHistoryImages(session.images.map(image => ({ ...image, projectId: project.id })));
+      if (isFull) alert(HISTORY_FULL_MESSAGE);
+      setProjects(prev => [...prev, project]);
+      await openProject(project);
+      updateControls({
+        backDesignImage: session.inputs.backDesignImage ?? null,
+        ...(session.inputs.backgroundImage && { customBackground: session.inputs.backgroundImage, background: 'custom' }),
+      });
+    } catch (err) {
+      console.error('Failed to import the session:', err);
+      alert(`No se pudo importar la sesión.\nError: ${(err as Error).message}`);
+    }
+    refreshStorageUsage();
+  };
+
+  /**
+   * Changes the user-editable fields of some history images, in memory and in storage.
+   * @param imageIds - The images to change.
+   * @param update - Computes the changes for each image.
+   */
+  const updateImages = (imageIds: string[], update: (image: GeneratedImage) => Partial<ImageReview>) => {
+    const changes = generatedImagesHistory
+      .filter(image => imageIds.includes(image.id))
+      .map(image => ({ id: image.id, changes: update(image) }));
+    setGeneratedImagesHistory(prev => prev.map(image => {
+      const change = changes.find(c => c.id === image.id);
+      return change ? { ...image, ...change.changes } : image;
+    }));
+    changes.forEach(({ id, changes }) => {
+      updateHistoryImage(id, changes).catch(err => console.error('Failed to store the changes to an image:', err));
+    });
+  };
+
+  /**
+   * Changes the collections of some history images.
+   * @param imageIds - The images to change.
+   * @param update - Computes the new collection ids from the current ones.
+   */
+  const updateCollections = (imageIds: string[], update: (collectionIds: string[]) => string[]) => {
+    updateImages(imageIds, image => ({ collectionIds: update(image.collectionIds ?? []) }));
+  };
+
+  const handleCopyToCollection = (imageIds: string[], collectionId: string) => {
+    updateCollections(imageIds, ids => (ids.includes(collectionId) ? ids : [...ids, collectionId]));
+  };
+
+  const handleMoveToCollection = (imageIds: string[], fromCollectionId: string | null, toCollectionId: string) => {
+    // Moving out of the whole history takes the images out of every other collection.
+    updateCollections(imageIds, ids => [
+      ...(fromCollectionId ? ids.filter(id => id !== fromCollectionId && id !== toCollectionId) : []),
+      toCollectionId,
+    ]);
+  };
+
+  const handleRemoveFromCollection = (imageIds: string[], collectionId: string) => {
+    updateCollections(imageIds, ids => ids.filter(id => id !== collectionId));
+  };
+
+  const handleReviewImage = (imageId: string, changes: Partial<ImageReview>) => {
+    updateImages([imageId], () => changes);
+  };
+
   // --- MODAL AND PREVIEW NAVIGATION HANDLERS ---
   
   const handleNavigatePreview = (direction: 'next' | 'prev') => {
@@ -211,7 +1220,7 @@ const App: React.FC = () => {
   
   const handleSetRefinementImage = (index: number) => {
     if (index >= 0 && index < generatedImagesHistory.length) {
-      setGeneratedImage(generatedImagesHistory[index]);
+      setGeneratedImage(generatedImagesHistory[index].url);
       setPreviewImageIndex(null); // Close the modal after selection
     }
   };
@@ -229,49 +1238,116 @@ const App: React.FC = () => {
               <h1 className="text-4xl sm:text-5xl font-bold tracking-tight bg-clip-text text-transparent bg-gradient-to-br from-white to-slate-300">Aristic Photo Lab</h1>
             </div>
             <p className="text-lg text-slate-400">Tu director IA de fotografía</p>
+            <div className="mt-6">
+              <ProjectSwitcher
+                projects={projects}
+                activeProjectId={activeProjectId}
+                disabled={isLoading}
+                onSwitch={handleSwitchProject}
+                onCreate={handleCreateProject}
+                onRename={handleRenameProject}
+                onDelete={handleDeleteProject}
+                onExport={handleExportSession}
+                onImport={handleImportSession}
+              />
+            </div>
           </header>
           
           {/* Main Content Grid: Controls on the left, Results on the right */}
           <main className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:items-start">
-            <ControlsPanel
-              // State values
-              garmentImage={garmentImage}
-              modelImage={modelImage}
-              specificInstructions={specificInstructions}
-              modelAge={modelAge}
-              background={background}
-              customBackground={customBackground}
-              selectedPaletteId={selectedPaletteId}
-              isGarmentLoading={isGarmentLoading}
-              isModelLoading={isModelLoading}
-              canGenerate={canGenerate}
-              isLoading={isLoading}
-              // State setters and handlers
-              setGarmentImage={setGarmentImage}
-              setModelImage={setModelImage}
-              setSpecificInstructions={setSpecificInstructions}
-              setModelAge={setModelAge}
-              setBackground={setBackground}
-              setCustomBackground={setCustomBackground}
-              setSelectedPaletteId={setSelectedPaletteId}
-              onGenerate={handleGenerate}
-              openGarmentSamples={() => setIsGarmentSampleModalOpen(true)}
-              openModelSamples={() => setIsModelSampleModalOpen(true)}
-            />
+            {/* Left column: controls, presets, palettes, the prompt template editor and the metadata reader */}
+            <div className="flex flex-col gap-8">
+              <ControlsPanel
+                // State values
+                controls={controls}
+                palettes={palettes}
+                isGarmentLoading={isGarmentLoading}
+                isModelLoading={isModelLoading}
+                canGenerate={canGenerate}
+                isLoading={isLoading}
+                canUndo={controlHistory.past.length > 0}
+                canRedo={controlHistory.future.length > 0}
+                // State setters and handlers
+                onChange={updateControls}
+                onPaletteRolesChange={handlePaletteRolesChange}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onGenerate={handleGenerate}
+                openGarmentSamples={() => setIsGarmentSampleModalOpen(true)}
+                openModelSamples={() => setIsModelSampleModalOpen(true)}
+              />
+              <PresetManager
+                presets={presets}
+                palettes={palettes}
+                onSave={handleSavePreset}
+                onApply={applyPreset}
+                onCopyLink={handleCopyPresetLink}
+                onDelete={handleDeletePreset}
+                onExport={handleExportPresets}
+                onImport={handleImportPresets}
+              />
+              <PaletteManager
+                palettes={customPalettes}
+                selectedPaletteId={selectedPaletteId}
+                selectedColors={selectedSettings.paletteColors ?? []}
+                selectedRoles={selectedSettings.colorRoles ?? {}}
+                onCreate={handleCreatePalette}
+                onUpdate={handleUpdatePalette}
+                onSelect={(id) => updateControls({ selectedPaletteId: id })}
+                onMove={handleMovePalette}
+                onDelete={handleDeletePalette}
+                onExport={handleExportPalettes}
+                onImport={handleImportPalettes}
+              />
+              <PromptTemplateEditor
+                templates={promptTemplates}
+                activeTemplate={activeTemplate}
+                onSelectTemplate={setActiveTemplateKey}
+                onTemplateSaved={handleTemplateSaved}
+                settings={selectedSettings}
+              />
+              <MetadataReader onRestore={handleRestoreMetadata} />
+            </div>
             
-            <ResultsPanel
-              // State values
-              isLoading={isLoading}
-              error={error}
-              generatedImage={generatedImage}
-              generatedImagesHistory={generatedImagesHistory}
-              refinementPrompt={refinementPrompt}
-              canRefine={canRefine}
-              // State setters and handlers
-              setRefinementPrompt={setRefinementPrompt}
-              onRefine={handleRefine}
-              openPreview={setPreviewImageIndex}
-            />
+            {/* Right column: results and the refinement lineage */}
+            <div className="flex flex-col gap-8">
+              <ResultsPanel
+                // State values
+                isLoading={isLoading}
+                isRefining={isRefining}
+                error={error}
+                generatedImage={generatedImage}
+                variants={variants}
+                batchMode={batchMode}
+                generatedImagesHistory={generatedImagesHistory}
+                palettes={palettes}
+                storageUsage={storageUsage}
+                refinementPrompt={refinementPrompt}
+                canRefine={canRefine}
+                // State setters and handlers
+                setRefinementPrompt={setRefinementPrompt}
+                onRefine={handleRefine}
+                onSelectVariant={setGeneratedImage}
+                onRetry={handleRetry}
+                onRetryVariant={handleRetryVariant}
+                onCancel={handleCancel}
+                openPreview={setPreviewImageIndex}
+                onClearHistory={handleClearHistory}
+                onCopyToCollection={handleCopyToCollection}
+                onMoveToCollection={handleMoveToCollection}
+                onRemoveFromCollection={handleRemoveFromCollection}
+                onReviewImage={handleReviewImage}
+                onCompare={setCompareImageIds}
+                onExportPdf={setLookbookImageIds}
+              />
+              {generatedImagesHistory.length > 0 && (
+                <LineageTree
+                  images={generatedImagesHistory}
+                  currentImageUrl={generatedImage}
+                  onSelect={setGeneratedImage}
+                />
+              )}
+            </div>
           </main>
 
           {/* Footer */}
@@ -300,6 +1376,35 @@ const App: React.FC = () => {
             onClose={() => setPreviewImageIndex(null)}
             onNavigate={handleNavigatePreview}
             onSelectForRefinement={handleSetRefinementImage}
+            onRemix={handleRemix}
+            onReviewImage={handleReviewImage}
+        />
+      )}
+      {/* Selected images may have been evicted from the history since, so they are looked up again. */}
+      {compareImageIds && (
+        <CompareModal
+          images={compareImageIds
+            .map(id => generatedImagesHistory.find(image => image.id === id))
+            .filter((image): image is GeneratedImage => !!image)}
+          onClose={() => setCompareImageIds(null)}
+        />
+      )}
+      {lookbookImageIds && (
+        <LookbookExportModal
+          imageCount={generatedImagesHistory.filter(image => lookbookImageIds.includes(image.id)).length}
+          defaultClubName={projects.find(p => p.id === activeProjectId)?.name ?? ''}
+          onExport={handleExportLookbook}
+          onClose={() => setLookbookImageIds(null)}
+        />
+      )}
+      {sampleToCrop && (
+        <CropEditor
+          image={sampleToCrop.image}
+          onApply={(image) => {
+            updateControls(sampleToCrop.type === 'garment' ? { garmentImage: image } : { modelImage: image });
+            setSampleToCrop(null);
+          }}
+          onCancel={() => setSampleToCrop(null)}
         />
       )}
       {isGarmentSampleModalOpen && (
@@ -0,0 +1,101 @@
+/**
+ * @file A before/after comparison of two images of the same size.
+ * The "before" image is drawn over the "after" one and clipped at a handle that can be
+ * dragged with the pointer or moved with the arrow keys.
+ */
+import React, { useState, useRef } from 'react';
+
+/**
+ * Props for the BeforeAfterSlider component.
+ */
+interface BeforeAfterSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+/** How far one arrow key press moves the handle, in percent. */
+const KEYBOARD_STEP = 5;
+
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({
+  beforeUrl,
+  afterUrl,
+  beforeLabel = 'Antes',
+  afterLabel = 'Después',
+}) => {
+  // The position of the handle, in percent of the width, from the left edge.
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /** Moves the handle under the pointer. */
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveTo(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      moveTo(e.clientX);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    // Keep the arrows from also navigating between images.
+    e.stopPropagation();
+    e.preventDefault();
+    const step = e.key === 'ArrowLeft' ? -KEYBOARD_STEP : KEYBOARD_STEP;
+    setPosition(prev => Math.min(100, Math.max(0, prev + step)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none touch-none cursor-ew-resize rounded-lg overflow-hidden"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+    >
+      <img src={afterUrl} alt={afterLabel} className="block max-w-full max-h-[90vh] object-contain pointer-events-none" draggable={false} />
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-slate-900/70 text-xs font-medium text-slate-200 pointer-events-none">
+        {beforeLabel}
+      </span>
+      <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-slate-900/70 text-xs font-medium text-slate-200 pointer-events-none">
+        {afterLabel}
+      </span>
+      <div
+        className="absolute inset-y-0 w-0.5 -ml-px bg-white shadow pointer-events-none"
+        style={{ left: `${position}%` }}
+        aria-hidden="true"
+      />
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Posición de la comparación"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position)}
+        onKeyDown={handleKeyDown}
+        className="absolute top-1/2 w-9 h-9 -ml-[18px] -mt-[18px] rounded-full bg-white text-slate-900 shadow-lg flex items-center justify-center text-sm font-bold focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        style={{ left: `${position}%` }}
+      >
+        ‹›
+      </div>
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
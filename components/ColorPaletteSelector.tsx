@@ -1,10 +1,14 @@
 /**
  * @file A custom dropdown component for selecting a color palette.
  * It displays a list of palettes, each with a name and a visual representation of its colors,
- * in a user-friendly select-style interface.
+ * in a user-friendly select-style interface. Below it, each color of the selected palette can
+ * be assigned to a region of the garment, such as the base fabric or the trims.
  */
 import React, { useState, useRef, useEffect } from 'react';
-import type { ColorPalette } from '../data/palettes';
+import CustomSelect from './CustomSelect';
+import type { Option } from '../types';
+import { paletteRoles } from '../data/palettes';
+import type { ColorPalette, PaletteRoleId } from '../data/palettes';
 
 /**
  * Props for the ColorPaletteSelector component.
@@ -15,8 +19,18 @@ interface ColorPaletteSelectorProps {
   palettes: ColorPalette[];
   selectedPaletteId: string;
   onSelect: (paletteId: string) => void;
+  /** Assigns garment regions to the colors of the selected palette, by hex code. */
+  onRolesChange: (roles: Record<string, PaletteRoleId>) => void;
 }
 
+/** The option of a color left without a region. */
+const NO_ROLE = 'none';
+
+const roleOptions: Option[] = [
+  { id: NO_ROLE, label: 'Sin zona asignada' },
+  ...paletteRoles.map(role => ({ id: role.id, label: role.label })),
+];
+
 /**
  * A small helper component to render the color swatches and name of a palette.
  * This avoids code duplication between the trigger button and the dropdown options.
@@ -43,11 +57,12 @@ const PaletteDisplay: React.FC<{ palette: ColorPalette }> = ({ palette }) => (
     </>
 );
 
-const ColorPaletteSelector: React.FC<ColorPaletteSelectorProps> = ({ title, description, palettes, selectedPaletteId, onSelect }) => {
+const ColorPaletteSelector: React.FC<ColorPaletteSelectorProps> = ({ title, description, palettes, selectedPaletteId, onSelect, onRolesChange }) => {
   const [isOpen, setIsOpen] = useState(false);
   const wrapperRef = useRef<HTMLDivElement>(null);
   
   const selectedPalette = palettes.find(p => p.id === selectedPaletteId) || palettes[0];
+  const colorRoles = selectedPalette.roles ?? {};
 
   // Effect to handle clicks outside the component to close the dropdown.
   useEffect(() => {
@@ -67,6 +82,16 @@ const ColorPaletteSelector: React.FC<ColorPaletteSelectorProps> = ({ title, desc
     setIsOpen(false);
   };
 
+  const handleRoleSelect = (color: string, roleId: string) => {
+    const next = { ...colorRoles };
+    if (roleId === NO_ROLE) {
+      delete next[color];
+    } else {
+      next[color] = roleId as PaletteRoleId;
+    }
+    onRolesChange(next);
+  };
+
   return (
     <div className="flex flex-col gap-2">
       <h2 className="text-xl font-bold text-white">{title}</h2>
@@ -116,6 +141,27 @@ const ColorPaletteSelector: React.FC<ColorPaletteSelectorProps> = ({ title, desc
           </div>
         )}
       </div>
+
+      {/* Color roles: which region of the garment each color goes to */}
+      {selectedPalette.colors.length > 0 && (
+        <div className="flex flex-col gap-2 mt-1">
+          <p className="text-xs text-slate-500">Asigna cada color a una zona del maillot (opcional). Los colores sin zona se reparten libremente.</p>
+          {selectedPalette.colors.map(color => (
+            <div key={color} className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full border-2 border-slate-800 flex-shrink-0" style={{ backgroundColor: color }} aria-hidden="true"></span>
+              <span className="font-mono text-sm text-slate-400 w-16">{color}</span>
+              <div className="flex-1">
+                <CustomSelect
+                  options={roleOptions}
+                  selectedValue={colorRoles[color] ?? NO_ROLE}
+                  onSelect={(roleId) => handleRoleSelect(color, roleId)}
+                  ariaLabel={`Zona del color ${color}`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,149 @@
+/**
+ * @file A modal that shows two to four history images side by side.
+ * Zoom and pan are shared by every pane, so the same detail of each image stays aligned:
+ * scroll or use the buttons to zoom, drag any pane to pan, double-click to reset.
+ */
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { GeneratedImage } from '../types';
+
+/**
+ * Props for the CompareModal component.
+ */
+interface CompareModalProps {
+  /** The images to compare, in display order. */
+  images: GeneratedImage[];
+  onClose: () => void;
+}
+
+/** The fewest and most images the modal compares at once. */
+export const MIN_COMPARE_IMAGES = 2;
+export const MAX_COMPARE_IMAGES = 4;
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+/** The zoom factor applied by one button press or wheel notch. */
+const ZOOM_STEP = 1.25;
+
+/**
+ * The zoom and pan shared by every pane. The offset is in screen pixels.
+ */
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const INITIAL_TRANSFORM: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const CompareModal: React.FC<CompareModalProps> = ({ images, onClose }) => {
+  const [transform, setTransform] = useState<ViewTransform>(INITIAL_TRANSFORM);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // The pointer position of the drag in progress, if any.
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const zoom = useCallback((factor: number) => {
+    setTransform(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      // Back at the original size there is nothing to pan.
+      if (scale === MIN_SCALE) return INITIAL_TRANSFORM;
+      const ratio = scale / prev.scale;
+      return { scale, x: prev.x * ratio, y: prev.y * ratio };
+    });
+  }, []);
+
+  // Zoom with the wheel. React registers wheel listeners as passive, so the page would scroll too.
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoom(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    grid.addEventListener('wheel', handleWheel, { passive: false });
+    return () => grid.removeEventListener('wheel', handleWheel);
+  }, [zoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+      else if (event.key === '+' || event.key === '=') zoom(ZOOM_STEP);
+      else if (event.key === '-') zoom(1 / ZOOM_STEP);
+      else if (event.key === '0') setTransform(INITIAL_TRANSFORM);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, zoom]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (transform.scale === MIN_SCALE) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setTransform(prev => ({ ...prev, x: prev.x + e.clientX - start.x, y: prev.y + e.clientY - start.y }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const buttonClass = 'w-10 h-10 bg-slate-800/90 text-white rounded-full flex items-center justify-center text-xl hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/90 flex flex-col z-50 p-4 gap-3"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Comparar imágenes"
+    >
+      <div className="flex items-center justify-between gap-2" onClick={(e) => e.stopPropagation()}>
+        <p className="text-sm text-slate-400">
+          Zoom {Math.round(transform.scale * 100)}% · rueda o +/- para ampliar, arrastra para desplazar, doble clic para restablecer
+        </p>
+        <div className="flex items-center gap-2">
+          <button onClick={() => zoom(1 / ZOOM_STEP)} className={buttonClass} aria-label="Zoom out">−</button>
+          <button onClick={() => zoom(ZOOM_STEP)} className={buttonClass} aria-label="Zoom in">+</button>
+          <button onClick={onClose} className={`${buttonClass} text-2xl`} aria-label="Close comparison">&times;</button>
+        </div>
+      </div>
+
+      <div
+        ref={gridRef}
+        className={`flex-1 min-h-0 grid gap-2 ${images.length > 2 ? 'grid-cols-2 grid-rows-2' : 'grid-cols-2'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {images.map((image, index) => (
+          <div
+            key={image.id}
+            className={`relative min-h-0 overflow-hidden rounded-lg bg-slate-900 select-none touch-none ${
+              transform.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : ''
+            }`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onDoubleClick={() => setTransform(INITIAL_TRANSFORM)}
+          >
+            <img
+              src={image.url}
+              alt={`Imagen ${index + 1} de la comparación`}
+              className="w-full h-full object-contain pointer-events-none"
+              style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+              draggable={false}
+            />
+            <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-slate-900/70 text-xs font-medium text-slate-200 pointer-events-none">
+              {image.label ?? `${index + 1}`} · {new Date(image.createdAt).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CompareModal;
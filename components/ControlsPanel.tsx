@@ -4,166 +4,100 @@
  * option selectors, and the main generate button. It is a "dumb" component that
  * receives its state and handlers from the parent `App` component.
  */
-import React, { useRef, useState, useEffect } from 'react';
-import type { Option, ImageData } from '../types';
+import React, { useRef } from 'react';
+import UndoIcon from './icons/UndoIcon';
+import RedoIcon from './icons/RedoIcon';
+import type { Option, GenerationMode, ControlState } from '../types';
 import ImageUploader from './ImageUploader';
+import CustomSelect from './CustomSelect';
 import ColorPaletteSelector from './ColorPaletteSelector';
-import { colorPalettes } from '../data/palettes';
-import { photoStudioPrompt, nightCityTerracePrompt, garmentDesignWorkshopPrompt } from '../data/prompts';
-
-// --- Reusable Custom Select Component ---
-
-interface CustomSelectProps {
-  options: Option[];
-  selectedValue: string;
-  onSelect: (optionId: string) => void;
-  ariaLabel: string;
-  selectedLabel?: string;
-}
-
-/**
- * A reusable dropdown component to avoid duplicating state and logic.
- */
-const CustomSelect: React.FC<CustomSelectProps> = ({ options, selectedValue, onSelect, ariaLabel, selectedLabel }) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const wrapperRef = useRef<HTMLDivElement>(null);
-  
-  const selectedOption = options.find(o => o.id === selectedValue) || options[0];
-  const displayLabel = selectedLabel || selectedOption?.label || '';
-
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-      }
-    };
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
-  const handleSelect = (optionId: string) => {
-    onSelect(optionId);
-    setIsOpen(false);
-  };
-
-  return (
-    <div ref={wrapperRef} className="relative">
-      <button
-        type="button"
-        onClick={() => setIsOpen(!isOpen)}
-        className="w-full flex items-center justify-between appearance-none bg-slate-700 border border-slate-600 rounded-md py-3 px-4 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
-        aria-haspopup="listbox"
-        aria-expanded={isOpen}
-        aria-label={ariaLabel}
-      >
-        <span className="truncate">{displayLabel}</span>
-        <div className="pointer-events-none flex items-center text-slate-400 transition-transform duration-200" style={{ transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)' }}>
-          <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
-            <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
-          </svg>
-        </div>
-      </button>
-      {isOpen && (
-        <div
-          className="absolute z-10 w-full mt-1 bg-slate-700 border border-slate-600 rounded-md shadow-lg max-h-60 overflow-auto focus:outline-none animate-fade-in-scale origin-top"
-          style={{ animationDuration: '150ms' }}
-          role="listbox"
-        >
-          {options.map((option) => (
-            <button
-              key={option.id}
-              onClick={() => handleSelect(option.id)}
-              className={`w-full text-left p-3 text-sm font-medium transition-colors duration-150 ${
-                selectedValue === option.id
-                  ? 'bg-cyan-500 text-white'
-                  : 'text-slate-300 hover:bg-slate-600'
-              }`}
-              role="option"
-              aria-selected={selectedValue === option.id}
-            >
-              {option.label}
-            </button>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-};
-
+import GarmentPaletteEditor from './GarmentPaletteEditor';
+import PoseSelector from './PoseSelector';
+import FormatSelector from './FormatSelector';
+import { CUSTOM_PALETTE_ID } from '../data/palettes';
+import type { ColorPalette, PaletteRoleId } from '../data/palettes';
+import { backgroundOptions, ageOptions } from '../data/controlOptions';
+import { MAX_VARIATIONS, MAX_CONCURRENCY } from '../data/variations';
+import { lookbookViews } from '../data/views';
+import { preprocessImage, ACCEPTED_IMAGE_TYPES } from '../utils/imageUtils';
 
 // --- Constants for Options ---
 
-const backgroundOptions: Option[] = [
-  { id: 'minimalist urban', label: 'Urbano minimalista' },
-  { id: nightCityTerracePrompt, label: 'Ciudad nocturna' },
-  { id: photoStudioPrompt, label: 'Foto estudio' },
-  { id: garmentDesignWorkshopPrompt, label: 'Taller moda' },
-  { id: 'custom', label: 'Subir mi fondo...' },
-];
+const variationOptions: Option[] = Array.from({ length: MAX_VARIATIONS }, (_, i) => ({
+    id: String(i + 1),
+    label: i === 0 ? '1 imagen' : `${i + 1} variaciones`,
+}));
 
-const ageOptions: Option[] = [
-    { id: 'none', label: 'Original' },
-    { id: 'child', label: 'Niña (6-9)' },
-    { id: 'pre-teen', label: 'Pre-adol. (10-12)' },
-    { id: 'teenager', label: 'Adolescente (13-16)' },
-    { id: 'young-adult', label: 'Joven (18-25)' },
+const generationModeOptions: { id: GenerationMode; label: string }[] = [
+    { id: 'variations', label: 'Variaciones' },
+    { id: 'lookbook', label: 'Lookbook' },
 ];
 
+const concurrencyOptions: Option[] = Array.from({ length: MAX_CONCURRENCY }, (_, i) => ({
+    id: String(i + 1),
+    label: i === 0 ? '1 a la vez' : `${i + 1} a la vez`,
+}));
+
 // --- Component Props Interface ---
 
 interface ControlsPanelProps {
-  garmentImage: ImageData | null;
-  modelImage: ImageData | null;
-  specificInstructions: string;
-  modelAge: string;
-  background: string;
-  customBackground: ImageData | null;
-  selectedPaletteId: string;
+  controls: ControlState;
+  /** The built-in palettes followed by the user's own. */
+  palettes: ColorPalette[];
   isGarmentLoading: boolean;
   isModelLoading: boolean;
   canGenerate: boolean;
   isLoading: boolean;
-  setGarmentImage: (value: ImageData | null) => void;
-  setModelImage: (value: ImageData | null) => void;
-  setSpecificInstructions: (value: string) => void;
-  setModelAge: (value: string) => void;
-  setBackground: (value: string) => void;
-  setCustomBackground: (value: ImageData | null) => void;
-  setSelectedPaletteId: (value: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Applies changes to the controls; each call is one undoable step. */
+  onChange: (changes: Partial<ControlState>) => void;
+  /** Assigns garment regions to the colours of a palette. */
+  onPaletteRolesChange: (paletteId: string, roles: Record<string, PaletteRoleId>) => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onGenerate: () => void;
   openGarmentSamples: () => void;
   openModelSamples: () => void;
 }
 
 const ControlsPanel: React.FC<ControlsPanelProps> = ({
-  garmentImage, setGarmentImage,
-  modelImage, setModelImage,
-  specificInstructions, setSpecificInstructions,
-  modelAge, setModelAge,
-  background, setBackground,
-  customBackground, setCustomBackground,
-  selectedPaletteId, setSelectedPaletteId,
+  controls, palettes,
   isGarmentLoading, isModelLoading,
   canGenerate, isLoading,
+  canUndo, canRedo,
+  onChange, onPaletteRolesChange, onUndo, onRedo,
   onGenerate,
   openGarmentSamples, openModelSamples,
 }) => {
+  const {
+    garmentImage, backDesignImage, modelImage, customBackground, poseReferenceImage,
+    specificInstructions, modelAge, background, selectedPaletteId, customPaletteColors, customPaletteRoles, selectedPoseId,
+    selectedFormatId, customSize, fitMode, generationMode, variationCount, selectedViewIds, concurrency,
+  } = controls;
   const customBackgroundInputRef = useRef<HTMLInputElement>(null);
 
+  // The custom palette is only offered once it has colours.
+  const paletteOptions: ColorPalette[] = customPaletteColors.length > 0
+    ? [...palettes, { id: CUSTOM_PALETTE_ID, name: 'Personalizada', colors: customPaletteColors, roles: customPaletteRoles }]
+    : palettes;
+
   /**
    * Handles the change event for the custom background file input.
-   * Reads the selected file as a base64 string and updates the state.
+   * Prepares the selected file like any other input image and updates the state.
    */
-  const handleCustomBackgroundChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleCustomBackgroundChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && ['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const base64String = (reader.result as string).split(',')[1];
-            setCustomBackground({ base64: base64String, mimeType: file.type });
-            setBackground('custom'); // Set background type to 'custom'
-        };
-        reader.readAsDataURL(file);
+    e.target.value = '';
+    if (file && ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+        try {
+            const image = await preprocessImage(file);
+            // Set background type to 'custom' in the same step, so one undo reverts both.
+            onChange({ customBackground: image, background: 'custom' });
+        } catch (err) {
+            console.error('Failed to prepare the background image:', err);
+            alert(`No se pudo preparar la imagen de fondo.\nError: ${(err as Error).message}`);
+        }
     } else if (file) {
         alert('Por favor, sube un archivo PNG, JPG o WEBP.');
     }
@@ -173,11 +107,28 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
     if (optionId === 'custom') {
         customBackgroundInputRef.current?.click();
     } else {
-        setBackground(optionId);
-        setCustomBackground(null);
+        onChange({ background: optionId, customBackground: null });
     }
   };
 
+  /**
+   * Adds or removes a camera view from the lookbook, keeping at least one view selected.
+   * Views are kept in catalogue order, since the first one anchors the rest of the set.
+   */
+  const handleToggleView = (viewId: string) => {
+    const next = selectedViewIds.includes(viewId)
+        ? selectedViewIds.filter(id => id !== viewId)
+        : [...selectedViewIds, viewId];
+    if (next.length === 0) return;
+    onChange({ selectedViewIds: lookbookViews.filter(view => next.includes(view.id)).map(view => view.id) });
+  };
+
+  const getGenerateLabel = (): string => {
+    if (isLoading) return 'Generando...';
+    if (generationMode === 'lookbook') return `Generar Lookbook (${selectedViewIds.length} vistas)`;
+    return variationCount > 1 ? `Generar ${variationCount} Fotografías` : 'Generar Fotografía';
+  };
+
   const getBackgroundLabel = (): string => {
     if (background === 'custom' && customBackground) {
         return 'Fondo Personalizado';
@@ -188,14 +139,36 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
   return (
     <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
         <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-8">
-            {/* Section 1: Garment Uploader */}
+            {/* Undo/Redo Toolbar */}
+            <div className="flex items-center justify-end gap-2 -mb-4">
+                <button
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-slate-300 bg-slate-700/50 enabled:hover:bg-slate-700 transition-colors disabled:text-slate-600 disabled:cursor-not-allowed"
+                    title="Deshacer (Ctrl+Z)"
+                >
+                    <UndoIcon className="w-4 h-4" />
+                    Deshacer
+                </button>
+                <button
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-slate-300 bg-slate-700/50 enabled:hover:bg-slate-700 transition-colors disabled:text-slate-600 disabled:cursor-not-allowed"
+                    title="Rehacer (Ctrl+Shift+Z)"
+                >
+                    <RedoIcon className="w-4 h-4" />
+                    Rehacer
+                </button>
+            </div>
+
+            {/* Section 1: Garment Uploader and Optional Back Design */}
             <div className="flex flex-col gap-2">
                 <ImageUploader
                     id="garment-uploader"
                     title="1. Sube la Prenda (Diseño)"
                     description="Esta es la imagen con el diseño a aplicar."
                     value={garmentImage}
-                    onChange={setGarmentImage}
+                    onChange={(image) => onChange({ garmentImage: image })}
                     isLoading={isGarmentLoading}
                 />
                 <button
@@ -204,6 +177,21 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 >
                     O elige un diseño de prenda de muestra
                 </button>
+                <ImageUploader
+                    id="back-design-uploader"
+                    title="Espalda de la prenda (opcional)"
+                    description="Se usará siempre que la vista o la pose muestren la espalda."
+                    value={backDesignImage}
+                    onChange={(image) => onChange({ backDesignImage: image })}
+                />
+                {backDesignImage && (
+                    <button
+                        onClick={() => onChange({ backDesignImage: null })}
+                        className="text-center text-sm text-slate-400 hover:text-red-400 transition-colors duration-200 py-2 rounded-md bg-slate-800 hover:bg-slate-700/50"
+                    >
+                        Quitar espalda de la prenda
+                    </button>
+                )}
             </div>
 
             {/* Section 2: Model Uploader */}
@@ -213,7 +201,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     title="2. Sube la Modelo (Referencia)"
                     description="Esta es la modelo que vestirá la prenda."
                     value={modelImage}
-                    onChange={setModelImage}
+                    onChange={(image) => onChange({ modelImage: image })}
                     isLoading={isModelLoading}
                 />
                 <button
@@ -231,18 +219,45 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 <CustomSelect
                     options={ageOptions}
                     selectedValue={modelAge}
-                    onSelect={setModelAge}
+                    onSelect={(id) => onChange({ modelAge: id })}
                     ariaLabel="Selecciona el rango de edad de la modelo"
                 />
             </div>
 
-            {/* Section 4: Specific Instructions */}
+            {/* Section 4: Pose Library and Optional Pose Reference */}
+            <div className="flex flex-col gap-4">
+                <PoseSelector
+                    title="4. Elige la pose"
+                    description="Poses específicas para cada disciplina."
+                    selectedPoseId={selectedPoseId}
+                    onSelect={(id) => onChange({ selectedPoseId: id })}
+                />
+                <div className="flex flex-col gap-2">
+                    <ImageUploader
+                        id="pose-reference-uploader"
+                        title="Referencia de pose (opcional)"
+                        description="La modelo imitará la postura de esta imagen."
+                        value={poseReferenceImage}
+                        onChange={(image) => onChange({ poseReferenceImage: image })}
+                    />
+                    {poseReferenceImage && (
+                        <button
+                            onClick={() => onChange({ poseReferenceImage: null })}
+                            className="text-center text-sm text-slate-400 hover:text-red-400 transition-colors duration-200 py-2 rounded-md bg-slate-800 hover:bg-slate-700/50"
+                        >
+                            Quitar referencia de pose
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Section 5: Specific Instructions */}
             <div className="flex flex-col gap-2">
-                <h2 className="text-xl font-bold text-white">4. Añade instrucciones específicas (opcional)</h2>
+                <h2 className="text-xl font-bold text-white">5. Añade instrucciones específicas (opcional)</h2>
                 <p className="text-sm text-slate-400">Describe cualquier detalle específico que quieras añadir o modificar.</p>
                 <textarea
                     value={specificInstructions}
-                    onChange={(e) => setSpecificInstructions(e.target.value)}
+                    onChange={(e) => onChange({ specificInstructions: e.target.value })}
                     placeholder="Ej: 'en una pose de giro dinámico', 'cambia el color del pelo a rubio'..."
                     className="w-full bg-slate-700 border border-slate-600 rounded-md p-3 text-sm placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
                     rows={3}
@@ -250,9 +265,9 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 />
             </div>
 
-            {/* Section 5: Background Selector */}
+            {/* Section 6: Background Selector */}
             <div className="flex flex-col gap-2">
-                <h2 className="text-xl font-bold text-white">5. Elige el fondo</h2>
+                <h2 className="text-xl font-bold text-white">6. Elige el fondo</h2>
                 <p className="text-sm text-slate-400">Selecciona el estilo del fondo.</p>
                 <CustomSelect
                     options={backgroundOptions}
@@ -283,22 +298,107 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 )}
             </div>
 
-            {/* Section 6: Color Palette Selector */}
-            <ColorPaletteSelector
-                title="6. Elige una paleta de colores (opcional)"
-                description="El diseño de la prenda usará estos colores."
-                palettes={colorPalettes}
-                selectedPaletteId={selectedPaletteId}
-                onSelect={setSelectedPaletteId}
+            {/* Section 7: Color Palette Selector, with a palette built from the garment's colours */}
+            <div className="flex flex-col gap-3">
+                <ColorPaletteSelector
+                    title="7. Elige una paleta de colores (opcional)"
+                    description="El diseño de la prenda usará estos colores."
+                    palettes={paletteOptions}
+                    selectedPaletteId={selectedPaletteId}
+                    onSelect={(id) => onChange({ selectedPaletteId: id })}
+                    onRolesChange={(roles) => onPaletteRolesChange(selectedPaletteId, roles)}
+                />
+                {garmentImage && (
+                    <GarmentPaletteEditor
+                        garmentImage={garmentImage}
+                        onUsePalette={(colors, swaps) => onChange({
+                            selectedPaletteId: CUSTOM_PALETTE_ID,
+                            customPaletteColors: colors,
+                            // Roles of colours the new palette no longer has would otherwise come back with them.
+                            customPaletteRoles: Object.fromEntries(Object.entries(customPaletteRoles).filter(([color]) => colors.includes(color))),
+                            customPaletteSwaps: swaps,
+                        })}
+                    />
+                )}
+            </div>
+
+            {/* Section 8: Output Format */}
+            <FormatSelector
+                title="8. Elige el formato"
+                description="La imagen se recortará o rellenará al tamaño exacto."
+                selectedFormatId={selectedFormatId}
+                customSize={customSize}
+                fitMode={fitMode}
+                onSelectFormat={(id) => onChange({ selectedFormatId: id })}
+                onCustomSizeChange={(size) => onChange({ customSize: size })}
+                onFitModeChange={(mode) => onChange({ fitMode: mode })}
             />
 
+            {/* Section 9: Generation Mode (batch variations or multi-view lookbook) */}
+            <div className="flex flex-col gap-2">
+                <h2 className="text-xl font-bold text-white">9. Modo de generación</h2>
+                <p className="text-sm text-slate-400">
+                    {generationMode === 'lookbook'
+                        ? 'Genera un set coherente con varias vistas de la misma prenda, modelo y fondo.'
+                        : 'Genera varias candidatas a la vez, cada una con un pequeño cambio de encuadre o luz.'}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                    {generationModeOptions.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => onChange({ generationMode: option.id })}
+                            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                                generationMode === option.id ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700'
+                            }`}
+                            aria-pressed={generationMode === option.id}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                {generationMode === 'lookbook' && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 animate-fade-in-scale">
+                        {lookbookViews.map(view => (
+                            <button
+                                key={view.id}
+                                onClick={() => handleToggleView(view.id)}
+                                className={`px-3 py-2 rounded-md text-sm font-medium border transition-colors duration-200 ${
+                                    selectedViewIds.includes(view.id)
+                                        ? 'border-cyan-500 bg-cyan-500/10 text-white'
+                                        : 'border-slate-600 bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                }`}
+                                aria-pressed={selectedViewIds.includes(view.id)}
+                            >
+                                {view.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                    {generationMode === 'variations' && (
+                        <CustomSelect
+                            options={variationOptions}
+                            selectedValue={String(variationCount)}
+                            onSelect={(id) => onChange({ variationCount: Number(id) })}
+                            ariaLabel="Selecciona el número de variaciones"
+                        />
+                    )}
+                    <CustomSelect
+                        options={concurrencyOptions}
+                        selectedValue={String(concurrency)}
+                        onSelect={(id) => onChange({ concurrency: Number(id) })}
+                        ariaLabel="Selecciona cuántas peticiones se ejecutan a la vez"
+                    />
+                </div>
+            </div>
+
             {/* Generate Button */}
             <button
                 onClick={onGenerate}
                 disabled={!canGenerate}
                 className={`w-full bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-bold py-4 rounded-lg text-lg transition-all duration-300 disabled:from-slate-700 disabled:to-slate-600 disabled:text-slate-500 disabled:cursor-not-allowed enabled:hover:shadow-lg enabled:hover:shadow-cyan-500/50 ${canGenerate ? 'animate-pulse-glow' : ''}`}
             >
-                {isLoading ? 'Generando...' : 'Generar Fotografía'}
+                {getGenerateLabel()}
             </button>
         </div>
     </div>
@@ -0,0 +1,354 @@
+/**
+ * @file A modal to crop, rotate and zoom an input image before it is used.
+ * Drag on the image to draw a selection, drag the selection to move it and its corners to
+ * resize it; the selection can be free or locked to an aspect ratio. Only the selected
+ * region is kept, and the original is remembered so the image can be cropped again.
+ */
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { ImageData } from '../types';
+import { loadImage, imageDataToDataUrl } from '../utils/imageUtils';
+import {
+  cropAspectRatios, cropImage, drawRotated, getRotatedSize, rememberCropSource, FREE_ASPECT_ID, FULL_CROP,
+} from '../utils/crop';
+import type { CropSettings } from '../utils/crop';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+/**
+ * Props for the CropEditor component.
+ */
+interface CropEditorProps {
+  /** The original, uncropped image. */
+  image: ImageData;
+  /** The crop to start from, when cropping again. */
+  initialCrop?: CropSettings;
+  /** Receives the cropped image. */
+  onApply: (image: ImageData) => void;
+  onCancel: () => void;
+}
+
+/** A selection, in fractions of the rotated image. */
+type Selection = Pick<CropSettings, 'x' | 'y' | 'width' | 'height'>;
+
+/** A point, in fractions of the rotated image. */
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** The drag in progress: drawing, moving or resizing the selection. */
+type Drag =
+  | { mode: 'draw' | 'resize'; anchor: Point; start: Selection }
+  | { mode: 'move'; offset: Point; start: Selection };
+
+const MAX_ZOOM = 4;
+/** The longest edge of the on-screen preview, in pixels. */
+const PREVIEW_MAX_EDGE = 1400;
+/** Selections smaller than this (in fractions of the image) are discarded as stray clicks. */
+const MIN_SELECTION = 0.02;
+/** The fine rotation range, in degrees either way. */
+const MAX_STRAIGHTEN = 45;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Builds the selection spanned from a fixed corner to the pointer, within the image.
+ * @param ratio - Width over height in fractions of the image, when the ratio is locked.
+ */
+const selectFromAnchor = (anchor: Point, point: Point, ratio?: number): Selection => {
+  const directionX = point.x >= anchor.x ? 1 : -1;
+  const directionY = point.y >= anchor.y ? 1 : -1;
+  const maxWidth = directionX > 0 ? 1 - anchor.x : anchor.x;
+  const maxHeight = directionY > 0 ? 1 - anchor.y : anchor.y;
+  let width = Math.min(Math.abs(point.x - anchor.x), maxWidth);
+  let height = Math.min(Math.abs(point.y - anchor.y), maxHeight);
+  if (ratio) {
+    // Follow the dimension the pointer moved furthest along, then fit within the image.
+    if (width / ratio > height) height = width / ratio;
+    else width = height * ratio;
+    if (height > maxHeight) { height = maxHeight; width = height * ratio; }
+    if (width > maxWidth) { width = maxWidth; height = width / ratio; }
+  }
+  return {
+    x: directionX > 0 ? anchor.x : anchor.x - width,
+    y: directionY > 0 ? anchor.y : anchor.y - height,
+    width,
+    height,
+  };
+};
+
+/** The largest selection of a ratio, centred in the image; the whole image when free. */
+const centredSelection = (ratio?: number): Selection => {
+  if (!ratio) return { x: 0, y: 0, width: 1, height: 1 };
+  const width = Math.min(1, ratio);
+  const height = width / ratio;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+const CropEditor: React.FC<CropEditorProps> = ({ image, initialCrop = FULL_CROP, onApply, onCancel }) => {
+  const [element, setElement] = useState<HTMLImageElement | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  // The rotation splits into quarter turns (buttons) and a fine adjustment (slider).
+  const [quarterTurns, setQuarterTurns] = useState(() => Math.round(initialCrop.rotation / 90));
+  const [straighten, setStraighten] = useState(() => initialCrop.rotation - Math.round(initialCrop.rotation / 90) * 90);
+  const [zoom, setZoom] = useState(1);
+  const [aspectId, setAspectId] = useState(initialCrop.aspectId);
+  const [selection, setSelection] = useState<Selection>(() => {
+    const { x, y, width, height } = initialCrop;
+    return { x, y, width, height };
+  });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [isApplying, setIsApplying] = useState(false);
+  const rotation = quarterTurns * 90 + straighten;
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  useEffect(() => {
+    loadImage(imageDataToDataUrl(image)).then(setElement).catch(err => {
+      console.error('Failed to load the image to crop:', err);
+      onCancel();
+    });
+  }, [image]);
+
+  // Redraw the preview whenever the rotation changes.
+  useEffect(() => {
+    if (!element) return;
+    const canvas = document.createElement('canvas');
+    drawRotated(canvas, element, rotation, Math.min(1, PREVIEW_MAX_EDGE / Math.max(element.naturalWidth, element.naturalHeight)));
+    setPreview(canvas.toDataURL('image/jpeg', 0.85));
+  }, [element, rotation]);
+
+  // Track the space available to the image.
+  useEffect(() => {
+    const measure = () => {
+      const rect = viewportRef.current?.getBoundingClientRect();
+      if (rect) setViewport({ width: rect.width, height: rect.height });
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  /** The size of the rotated image, in pixels of the original. */
+  const rotatedSize = useMemo(
+    () => (element ? getRotatedSize(element.naturalWidth, element.naturalHeight, rotation) : { width: 1, height: 1 }),
+    [element, rotation]
+  );
+
+  /** The locked ratio in fractions of the image, which differ from pixels when the image is not square. */
+  const aspectRatio = cropAspectRatios.find(a => a.id === aspectId)?.ratio;
+  const selectionRatio = aspectRatio ? (aspectRatio * rotatedSize.height) / rotatedSize.width : undefined;
+
+  /** The displayed size of the image at zoom 1: as large as fits the viewport. */
+  const fitScale = Math.min((viewport.width - 32) / rotatedSize.width, (viewport.height - 32) / rotatedSize.height);
+  const stageWidth = Math.max(1, rotatedSize.width * fitScale * zoom);
+  const stageHeight = Math.max(1, rotatedSize.height * fitScale * zoom);
+
+  const handleSelectAspect = (id: string) => {
+    setAspectId(id);
+    const ratio = cropAspectRatios.find(a => a.id === id)?.ratio;
+    if (ratio) setSelection(centredSelection((ratio * rotatedSize.height) / rotatedSize.width));
+  };
+
+  /** Rotates the image; the bounds change, so the selection starts over. */
+  const handleRotate = (nextQuarterTurns: number, nextStraighten: number) => {
+    setQuarterTurns(nextQuarterTurns);
+    setStraighten(nextStraighten);
+    if (!element) return;
+    const bounds = getRotatedSize(element.naturalWidth, element.naturalHeight, nextQuarterTurns * 90 + nextStraighten);
+    setSelection(centredSelection(aspectRatio ? (aspectRatio * bounds.height) / bounds.width : undefined));
+  };
+
+  /** Converts a pointer position to fractions of the image. */
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1) };
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    e.stopPropagation();
+    e.preventDefault();
+    stageRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toPoint(e);
+    if (drag.mode === 'move') {
+      const { width, height } = drag.start;
+      setSelection({ width, height, x: clamp(point.x - drag.offset.x, 0, 1 - width), y: clamp(point.y - drag.offset.y, 0, 1 - height) });
+    } else {
+      setSelection(selectFromAnchor(drag.anchor, point, selectionRatio));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A click without a drag leaves the previous selection in place.
+    if (drag && drag.mode !== 'move' && (selection.width < MIN_SELECTION || selection.height < MIN_SELECTION)) {
+      setSelection(drag.start);
+    }
+  };
+
+  const handleApply = async () => {
+    const crop: CropSettings = { rotation, aspectId, ...selection };
+    setIsApplying(true);
+    try {
+      const cropped = await cropImage(image, crop);
+      rememberCropSource(cropped, { original: image, crop });
+      onApply(cropped);
+    } catch (err) {
+      console.error('Failed to crop the image:', err);
+      alert(`No se pudo recortar la imagen.\nError: ${(err as Error).message}`);
+      setIsApplying(false);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const corners: { id: string; anchor: (s: Selection) => Point; className: string }[] = [
+    { id: 'nw', anchor: s => ({ x: s.x + s.width, y: s.y + s.height }), className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+    { id: 'ne', anchor: s => ({ x: s.x, y: s.y + s.height }), className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+    { id: 'sw', anchor: s => ({ x: s.x + s.width, y: s.y }), className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+    { id: 'se', anchor: s => ({ x: s.x, y: s.y }), className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  ];
+
+  const buttonClass = 'px-3 py-1.5 rounded-md text-sm font-medium transition-colors';
+
+  return (
+    <div className="fixed inset-0 bg-black/90 flex flex-col z-50 p-4 gap-3" role="dialog" aria-modal="true" aria-label="Recortar imagen">
+      {/* Aspect ratio and rotation */}
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-xl font-bold text-white mr-2">Recortar imagen</h2>
+        {cropAspectRatios.map(aspect => (
+          <button
+            key={aspect.id}
+            onClick={() => handleSelectAspect(aspect.id)}
+            className={`${buttonClass} ${aspectId === aspect.id ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+            aria-pressed={aspectId === aspect.id}
+          >
+            {aspect.label}
+          </button>
+        ))}
+        <div className="flex gap-2 ml-auto">
+          <button onClick={() => handleRotate(quarterTurns - 1, straighten)} className={`${buttonClass} bg-slate-800 text-slate-300 hover:bg-slate-700`} title="Girar a la izquierda">
+            ⟲ 90°
+          </button>
+          <button onClick={() => handleRotate(quarterTurns + 1, straighten)} className={`${buttonClass} bg-slate-800 text-slate-300 hover:bg-slate-700`} title="Girar a la derecha">
+            ⟳ 90°
+          </button>
+        </div>
+      </div>
+
+      {/* Image and selection */}
+      <div ref={viewportRef} className="flex-1 min-h-0 flex overflow-auto rounded-lg bg-slate-900">
+        {preview && viewport.width > 0 && (
+          <div
+            ref={stageRef}
+            className="relative m-auto shrink-0 overflow-hidden select-none touch-none cursor-crosshair"
+            style={{ width: stageWidth, height: stageHeight }}
+            onPointerDown={(e) => {
+              const anchor = toPoint(e);
+              startDrag(e, { mode: 'draw', anchor, start: selection });
+              setSelection({ ...anchor, width: 0, height: 0 });
+            }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img src={preview} alt="Imagen a recortar" className="w-full h-full pointer-events-none" draggable={false} />
+            <div
+              className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(2,6,23,0.65)]"
+              style={{
+                left: `${selection.x * 100}%`,
+                top: `${selection.y * 100}%`,
+                width: `${selection.width * 100}%`,
+                height: `${selection.height * 100}%`,
+              }}
+              onPointerDown={(e) => {
+                const point = toPoint(e);
+                startDrag(e, { mode: 'move', offset: { x: point.x - selection.x, y: point.y - selection.y }, start: selection });
+              }}
+            >
+              {corners.map(corner => (
+                <span
+                  key={corner.id}
+                  className={`absolute w-3 h-3 bg-white rounded-sm ${corner.className}`}
+                  onPointerDown={(e) => startDrag(e, { mode: 'resize', anchor: corner.anchor(selection), start: selection })}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Straighten, zoom and actions */}
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Enderezar
+          <input
+            type="range"
+            min={-MAX_STRAIGHTEN}
+            max={MAX_STRAIGHTEN}
+            step={0.5}
+            value={straighten}
+            onChange={(e) => handleRotate(quarterTurns, Number(e.target.value))}
+            className="w-36 accent-cyan-500"
+          />
+          <span className="w-12 text-slate-400">{straighten.toFixed(1)}°</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Zoom
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.1}
+            value={zoom}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            className="w-36 accent-cyan-500"
+          />
+          <span className="w-12 text-slate-400">{Math.round(zoom * 100)}%</span>
+        </label>
+        <span className="text-sm text-slate-500">
+          {Math.round(selection.width * rotatedSize.width)} × {Math.round(selection.height * rotatedSize.height)} px
+        </span>
+        <div className="flex gap-2 ml-auto">
+          <button onClick={onCancel} className={`${buttonClass} bg-slate-800 text-slate-300 hover:bg-slate-700`}>
+            Cancelar
+          </button>
+          <button
+            onClick={() => {
+              setQuarterTurns(0);
+              setStraighten(0);
+              setAspectId(FREE_ASPECT_ID);
+              setSelection(centredSelection());
+            }}
+            className={`${buttonClass} bg-slate-800 text-slate-300 hover:bg-slate-700`}
+          >
+            Restablecer
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying || !element}
+            className={`${buttonClass} flex items-center gap-2 bg-cyan-600 text-white enabled:hover:bg-cyan-500 disabled:opacity-60`}
+          >
+            {isApplying && <SpinnerIcon className="w-4 h-4 text-cyan-800 animate-spin fill-white" />}
+            Aplicar recorte
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,88 @@
+/**
+ * @file A reusable dropdown component for selecting one option from a list.
+ * It mirrors the look of the palette selector and closes when clicking outside.
+ */
+import React, { useRef, useState, useEffect } from 'react';
+import type { Option } from '../types';
+
+/**
+ * Props for the CustomSelect component.
+ */
+interface CustomSelectProps {
+  options: Option[];
+  selectedValue: string;
+  onSelect: (optionId: string) => void;
+  ariaLabel: string;
+  selectedLabel?: string;
+}
+
+/**
+ * A reusable dropdown component to avoid duplicating state and logic.
+ */
+const CustomSelect: React.FC<CustomSelectProps> = ({ options, selectedValue, onSelect, ariaLabel, selectedLabel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  
+  const selectedOption = options.find(o => o.id === selectedValue) || options[0];
+  const displayLabel = selectedLabel || selectedOption?.label || '';
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleSelect = (optionId: string) => {
+    onSelect(optionId);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={wrapperRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between appearance-none bg-slate-700 border border-slate-600 rounded-md py-3 px-4 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        aria-label={ariaLabel}
+      >
+        <span className="truncate">{displayLabel}</span>
+        <div className="pointer-events-none flex items-center text-slate-400 transition-transform duration-200" style={{ transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)' }}>
+          <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+            <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+          </svg>
+        </div>
+      </button>
+      {isOpen && (
+        <div
+          className="absolute z-10 w-full mt-1 bg-slate-700 border border-slate-600 rounded-md shadow-lg max-h-60 overflow-auto focus:outline-none animate-fade-in-scale origin-top"
+          style={{ animationDuration: '150ms' }}
+          role="listbox"
+        >
+          {options.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => handleSelect(option.id)}
+              className={`w-full text-left p-3 text-sm font-medium transition-colors duration-150 ${
+                selectedValue === option.id
+                  ? 'bg-cyan-500 text-white'
+                  : 'text-slate-300 hover:bg-slate-600'
+              }`}
+              role="option"
+              aria-selected={selectedValue === option.id}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomSelect;
@@ -0,0 +1,133 @@
+/**
+ * @file Renders an error from the generation pipeline with tailored guidance.
+ * Typed errors from `services/errors.ts` are mapped to a friendly title and a hint on
+ * what to do next, and a retry action is offered whenever retrying the failed generation makes sense.
+ */
+import React from 'react';
+import {
+  SafetyBlockedError,
+  NoImageReturnedError,
+  RateLimitError,
+  NetworkError,
+  InvalidInputError,
+  ImageGenerationError,
+} from '../services/errors';
+
+/**
+ * Props for the ErrorMessage component.
+ */
+interface ErrorMessageProps {
+  /** The error to display. */
+  error: Error;
+  /** Callback to retry the failed operation. The retry button is hidden when omitted. */
+  onRetry?: () => void;
+  /** Renders a condensed version suitable for small tiles. */
+  compact?: boolean;
+}
+
+/**
+ * The user-facing description of an error.
+ */
+interface ErrorGuidance {
+  title: string;
+  guidance: string;
+  canRetry: boolean;
+}
+
+/**
+ * Maps an error to its title, guidance and whether a manual retry is worthwhile.
+ * @param error - The error to describe.
+ */
+const getErrorGuidance = (error: Error): ErrorGuidance => {
+  if (error instanceof SafetyBlockedError) {
+    const categories = error.categories.length > 0 ? ` (${error.categories.join(', ')})` : '';
+    return {
+      title: 'Bloqueado por filtros de seguridad',
+      guidance: `El modelo rechazó la petición${categories}. Prueba con otra imagen de referencia o suaviza las instrucciones.`,
+      canRetry: true,
+    };
+  }
+  if (error instanceof NoImageReturnedError) {
+    return {
+      title: 'El modelo no devolvió ninguna imagen',
+      guidance: error.reason
+        ? `Respuesta del modelo: "${error.reason}". Reformula las instrucciones y vuelve a intentarlo.`
+        : 'A veces ocurre sin motivo aparente. Vuelve a intentarlo o simplifica las instrucciones.',
+      canRetry: true,
+    };
+  }
+  if (error instanceof RateLimitError) {
+    return {
+      title: 'Demasiadas peticiones',
+      guidance: 'Se ha superado el límite de uso de la API incluso tras varios reintentos. Espera un minuto o reduce las peticiones simultáneas.',
+      canRetry: true,
+    };
+  }
+  if (error instanceof NetworkError) {
+    return {
+      title: 'Problema de conexión',
+      guidance: 'No se pudo contactar con el servicio tras varios reintentos. Comprueba tu conexión e inténtalo de nuevo.',
+      canRetry: true,
+    };
+  }
+  if (error instanceof InvalidInputError) {
+    return {
+      title: 'Datos de entrada no válidos',
+      guidance: 'Revisa las imágenes y opciones del panel de control antes de volver a generar.',
+      canRetry: false,
+    };
+  }
+  // Only generation and refinement failures have a call worth repeating; other errors
+  // (loading a sample, reading an image) are fixed by the user redoing the step.
+  if (error instanceof ImageGenerationError) {
+    return {
+      title: 'Error',
+      guidance: 'Ha ocurrido un error inesperado. Puedes volver a intentarlo.',
+      canRetry: true,
+    };
+  }
+  return {
+    title: 'Error',
+    guidance: 'Ha ocurrido un error inesperado. Repite el último paso para volver a intentarlo.',
+    canRetry: false,
+  };
+};
+
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry, compact = false }) => {
+  const { title, guidance, canRetry } = getErrorGuidance(error);
+  const showRetry = canRetry && !!onRetry;
+
+  if (compact) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-2 bg-red-900/20 text-center text-xs text-red-400" title={`${title}: ${error.message}`}>
+        <p className="font-bold">{title}</p>
+        {showRetry && (
+          <button
+            onClick={onRetry}
+            className="px-2 py-1 rounded bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+          >
+            Reintentar
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center text-red-400 bg-red-900/20 border border-red-500/50 rounded-lg p-4 max-w-md" role="alert">
+      <p className="font-bold">{title}</p>
+      <p className="text-sm mt-2 text-red-300">{guidance}</p>
+      <p className="text-xs mt-2 text-red-400/70 break-words">{error.message}</p>
+      {showRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-4 bg-slate-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 hover:bg-slate-600"
+        >
+          Reintentar
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorMessage;
@@ -0,0 +1,99 @@
+/**
+ * @file A component for choosing the output format of the generated images.
+ * Offers the presets from `data/formats.ts`, a custom pixel size and the fit mode
+ * used when the model's output has to be cropped or padded to the exact size.
+ */
+import React from 'react';
+import CustomSelect from './CustomSelect';
+import { outputFormats, CUSTOM_FORMAT_ID, MIN_CUSTOM_EDGE, MAX_CUSTOM_EDGE, clampCustomEdge, toAspectRatio } from '../data/formats';
+import type { Option, OutputSize, FitMode } from '../types';
+
+/**
+ * Props for the FormatSelector component.
+ */
+interface FormatSelectorProps {
+  /** The title displayed above the selector. */
+  title: string;
+  /** A short description or instruction. */
+  description: string;
+  /** The ID of the selected preset, or `CUSTOM_FORMAT_ID`. */
+  selectedFormatId: string;
+  /** The size used when the custom format is selected. */
+  customSize: OutputSize;
+  /** How the output is brought to the exact size. */
+  fitMode: FitMode;
+  onSelectFormat: (formatId: string) => void;
+  onCustomSizeChange: (size: OutputSize) => void;
+  onFitModeChange: (mode: FitMode) => void;
+}
+
+const formatOptions: Option[] = [
+  ...outputFormats.map(f => ({ id: f.id, label: `${f.label} (${f.width}×${f.height})` })),
+  { id: CUSTOM_FORMAT_ID, label: 'Tamaño personalizado...' },
+];
+
+const fitModeOptions: { id: FitMode; label: string }[] = [
+  { id: 'crop', label: 'Recortar' },
+  { id: 'pad', label: 'Rellenar' },
+];
+
+const FormatSelector: React.FC<FormatSelectorProps> = ({
+  title, description,
+  selectedFormatId, customSize, fitMode,
+  onSelectFormat, onCustomSizeChange, onFitModeChange,
+}) => {
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-xl font-bold text-white">{title}</h2>
+      <p className="text-sm text-slate-400">{description}</p>
+      <CustomSelect
+        options={formatOptions}
+        selectedValue={selectedFormatId}
+        onSelect={onSelectFormat}
+        ariaLabel="Selecciona el formato de salida"
+      />
+      {selectedFormatId === CUSTOM_FORMAT_ID && (
+        <div className="flex items-center gap-3 animate-fade-in-scale">
+          <input
+            type="number"
+            min={MIN_CUSTOM_EDGE}
+            max={MAX_CUSTOM_EDGE}
+            value={customSize.width}
+            onChange={(e) => onCustomSizeChange({ ...customSize, width: Number(e.target.value) })}
+            onBlur={() => onCustomSizeChange({ ...customSize, width: clampCustomEdge(customSize.width) })}
+            className="w-full bg-slate-700 border border-slate-600 rounded-md p-3 text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+            aria-label="Ancho en píxeles"
+          />
+          <span className="text-slate-500">×</span>
+          <input
+            type="number"
+            min={MIN_CUSTOM_EDGE}
+            max={MAX_CUSTOM_EDGE}
+            value={customSize.height}
+            onChange={(e) => onCustomSizeChange({ ...customSize, height: Number(e.target.value) })}
+            onBlur={() => onCustomSizeChange({ ...customSize, height: clampCustomEdge(customSize.height) })}
+            className="w-full bg-slate-700 border border-slate-600 rounded-md p-3 text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+            aria-label="Alto en píxeles"
+          />
+          <span className="text-sm text-slate-400 whitespace-nowrap">{toAspectRatio(clampCustomEdge(customSize.width), clampCustomEdge(customSize.height))}</span>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        {fitModeOptions.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onFitModeChange(option.id)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              fitMode === option.id ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700'
+            }`}
+            aria-pressed={fitMode === option.id}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FormatSelector;
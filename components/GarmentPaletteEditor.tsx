@@ -0,0 +1,114 @@
+/**
+ * @file Shows the dominant colours of the garment and builds a palette from them.
+ * Each colour is listed with the share of the garment it covers and can be swapped for
+ * another, e.g. to keep the design but replace its red with teal. The resulting palette and
+ * the swaps are handed to the parent, which selects them as the custom palette; the swaps
+ * tell the model which colour replaces which, rather than leaving it to guess.
+ */
+import React, { useState, useEffect } from 'react';
+import type { ImageData } from '../types';
+import { extractDominantColors } from '../utils/colorQuantization';
+import type { DominantColor } from '../utils/colorQuantization';
+import type { ColorSwap } from '../data/palettes';
+
+/**
+ * Props for the GarmentPaletteEditor component.
+ */
+interface GarmentPaletteEditorProps {
+  garmentImage: ImageData;
+  /** Selects a palette made of these colours, made by swapping some of the garment's colours. */
+  onUsePalette: (colors: string[], swaps: ColorSwap[]) => void;
+}
+
+const GarmentPaletteEditor: React.FC<GarmentPaletteEditorProps> = ({ garmentImage, onUsePalette }) => {
+  const [dominantColors, setDominantColors] = useState<DominantColor[]>([]);
+  // The colour each dominant colour is swapped for; the colour itself when unchanged.
+  const [replacements, setReplacements] = useState<string[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  // Analyse the garment whenever it changes; swaps made on the previous garment are dropped.
+  useEffect(() => {
+    setIsAnalyzing(true);
+    setDominantColors([]);
+    setReplacements([]);
+    let isCurrent = true;
+    extractDominantColors(garmentImage)
+      .then(colors => {
+        if (!isCurrent) return;
+        setDominantColors(colors);
+        setReplacements(colors.map(c => c.hex));
+      })
+      .catch(err => console.error('Failed to analyse the garment colours:', err))
+      .finally(() => isCurrent && setIsAnalyzing(false));
+    return () => {
+      isCurrent = false;
+    };
+  }, [garmentImage]);
+
+  const handleSwap = (index: number, hex: string) => {
+    setReplacements(prev => prev.map((color, i) => (i === index ? hex.toUpperCase() : color)));
+  };
+
+  const hasSwaps = replacements.some((color, i) => color !== dominantColors[i]?.hex);
+
+  if (isAnalyzing) {
+    return <p className="text-sm text-slate-500 animate-pulse">Analizando los colores de la prenda...</p>;
+  }
+  if (dominantColors.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-3 p-3 rounded-md bg-slate-900/40 border border-slate-700 animate-fade-in-scale">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-200">Colores de la prenda</h3>
+        <p className="text-xs text-slate-500">Pulsa un color para cambiarlo y crea una paleta nueva con el mismo diseño.</p>
+      </div>
+      <ul className="flex flex-col gap-2">
+        {dominantColors.map((color, index) => {
+          const replacement = replacements[index] ?? color.hex;
+          const isSwapped = replacement !== color.hex;
+          return (
+            <li key={color.hex} className="flex items-center gap-3 text-sm">
+              <span className="w-6 h-6 rounded-full border-2 border-slate-800 flex-shrink-0" style={{ backgroundColor: color.hex }} aria-hidden="true"></span>
+              <span className="font-mono text-slate-400 w-16">{color.hex}</span>
+              <div className="flex-1 h-1.5 rounded-full bg-slate-700 overflow-hidden" aria-hidden="true">
+                <div className="h-full bg-slate-400" style={{ width: `${color.share * 100}%` }}></div>
+              </div>
+              <span className="text-slate-300 w-10 text-right">{Math.round(color.share * 100)}%</span>
+              <span className={isSwapped ? 'text-cyan-400' : 'text-slate-600'} aria-hidden="true">→</span>
+              <input
+                type="color"
+                value={replacement.toLowerCase()}
+                onChange={(e) => handleSwap(index, e.target.value)}
+                className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
+                aria-label={`Sustituir ${color.hex}`}
+                title={isSwapped ? `${color.hex} → ${replacement}` : 'Cambiar este color'}
+              />
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onUsePalette(
+            [...new Set(replacements)],
+            dominantColors
+              .map((color, index) => ({ from: color.hex, to: replacements[index] }))
+              .filter(swap => swap.from !== swap.to)
+          )}
+          className="flex-1 px-3 py-2 rounded-md text-sm font-medium bg-cyan-600 text-white hover:bg-cyan-500 transition-colors"
+        >
+          Usar como paleta
+        </button>
+        <button
+          onClick={() => setReplacements(dominantColors.map(c => c.hex))}
+          disabled={!hasSwaps}
+          className="px-3 py-2 rounded-md text-sm font-medium bg-slate-700/50 text-slate-300 transition-colors duration-200 enabled:hover:bg-slate-700 disabled:text-slate-600 disabled:cursor-not-allowed"
+        >
+          Restablecer
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GarmentPaletteEditor;
@@ -0,0 +1,149 @@
+/**
+ * @file A component that describes how a history image was produced.
+ * For a generation it lists the input images and every parameter; for a refinement,
+ * the instruction and the image it was applied to. It also offers the "remix" action.
+ */
+import React from 'react';
+import { imageDataToDataUrl } from '../utils/imageUtils';
+import { backgroundOptions, ageOptions } from '../data/controlOptions';
+import { colorPalettes, formatColorRoles, formatColorSwaps } from '../data/palettes';
+import { poses } from '../data/poses';
+import type { GeneratedImage, ImageData } from '../types';
+
+/**
+ * Props for the GenerationDetails component.
+ */
+interface GenerationDetailsProps {
+  /** The history image to describe. */
+  image: GeneratedImage;
+  /** Callback to load the image's parameters back into the controls. */
+  onRemix: () => void;
+}
+
+/**
+ * Renders a labelled row of the details list.
+ */
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex flex-col gap-0.5">
+    <dt className="text-xs uppercase tracking-wide text-slate-500">{label}</dt>
+    <dd className="text-sm text-slate-200 break-words">{children}</dd>
+  </div>
+);
+
+/**
+ * Renders a small captioned thumbnail of an input image.
+ */
+const InputThumbnail: React.FC<{ label: string; image: ImageData }> = ({ label, image }) => (
+  <figure className="flex flex-col gap-1">
+    <img src={imageDataToDataUrl(image)} alt={label} className="w-16 h-16 object-cover rounded-md border border-slate-600" />
+    <figcaption className="text-[10px] text-slate-400 text-center">{label}</figcaption>
+  </figure>
+);
+
+const GenerationDetails: React.FC<GenerationDetailsProps> = ({ image, onRemix }) => {
+  const { record } = image;
+
+  const renderGeneration = () => {
+    if (record?.kind !== 'generation') return null;
+    const { params } = record;
+    const inputImages: { label: string; image?: ImageData }[] = [
+      { label: 'Prenda', image: params.garmentImage },
+      { label: 'Espalda', image: params.backDesignImage },
+      { label: 'Modelo', image: params.modelImage },
+      { label: 'Fondo', image: params.backgroundImage },
+      { label: 'Pose', image: params.poseReferenceImage },
+    ];
+    const palette = params.paletteColors
+      ? colorPalettes.find(p => p.colors.join() === params.paletteColors!.join())
+      : undefined;
+
+    return (
+      <>
+        <DetailRow label="Imágenes">
+          <div className="flex flex-wrap gap-2 mt-1">
+            {inputImages.map(({ label, image }) => image && <InputThumbnail key={label} label={label} image={image} />)}
+          </div>
+        </DetailRow>
+        <DetailRow label="Fondo">
+          {params.backgroundImage
+            ? 'Fondo personalizado'
+            : backgroundOptions.find(o => o.id === params.background)?.label ?? params.background}
+        </DetailRow>
+        <DetailRow label="Edad">{ageOptions.find(o => o.id === params.modelAge)?.label ?? params.modelAge}</DetailRow>
+        <DetailRow label="Paleta">
+          {params.paletteColors && params.paletteColors.length > 0 ? (
+            <span className="flex items-center gap-2">
+              <span className="flex">
+                {params.paletteColors.map((color, index) => (
+                  <span
+                    key={index}
+                    style={{ backgroundColor: color }}
+                    className={`w-4 h-4 rounded-full border-2 border-slate-800 ${index > 0 ? '-ml-1.5' : ''}`}
+                    aria-hidden="true"
+                  />
+                ))}
+              </span>
+              {palette?.name ?? params.paletteColors.join(', ')}
+            </span>
+          ) : 'Original'}
+        </DetailRow>
+        {params.colorRoles && <DetailRow label="Zonas de color">{formatColorRoles(params.colorRoles)}</DetailRow>}
+        {params.colorSwaps && <DetailRow label="Colores sustituidos">{formatColorSwaps(params.colorSwaps)}</DetailRow>}
+        {params.poseDescription && (
+          <DetailRow label="Pose">{poses.find(p => p.description === params.poseDescription)?.name ?? params.poseDescription}</DetailRow>
+        )}
+        {params.viewDirective && <DetailRow label="Vista">{image.label ?? params.viewDirective}</DetailRow>}
+        {params.outputSize && (
+          <DetailRow label="Formato">
+            {params.outputSize.width} × {params.outputSize.height} px · {params.fitMode === 'pad' ? 'Rellenar' : 'Recortar'}
+          </DetailRow>
+        )}
+        {params.instructions && <DetailRow label="Instrucciones">{params.instructions}</DetailRow>}
+        {params.variationHint && <DetailRow label="Variación">{params.variationHint}</DetailRow>}
+      </>
+    );
+  };
+
+  const renderRefinement = () => {
+    if (record?.kind !== 'refinement') return null;
+    return (
+      <>
+        <DetailRow label="Imagen de partida">
+          <div className="flex mt-1">
+            <InputThumbnail label="Original" image={record.sourceImage} />
+          </div>
+        </DetailRow>
+        <DetailRow label="Instrucción de refinado">{record.refinementPrompt}</DetailRow>
+      </>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">{record?.kind === 'refinement' ? 'Refinado' : 'Generación'}</h3>
+        <p className="text-xs text-slate-400">
+          {new Date(image.createdAt).toLocaleString('es-ES')} · Plantilla {image.templateId} · v{image.templateVersion}
+        </p>
+      </div>
+      {record ? (
+        <dl className="flex flex-col gap-3">
+          {renderGeneration()}
+          {renderRefinement()}
+        </dl>
+      ) : (
+        <p className="text-sm text-slate-400">No se guardaron los parámetros de esta imagen.</p>
+      )}
+      {record && (
+        <button
+          onClick={onRemix}
+          className="w-full bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300 hover:bg-cyan-500"
+        >
+          Remix
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GenerationDetails;
@@ -0,0 +1,413 @@
+/**
+ * @file A component that renders the history gallery of the results panel.
+ * Images can be rated, marked as favourites or rejected, filtered and sorted, filed
+ * into collections in bulk, and compared side by side. It is a "dumb" component: the history and every
+ * change to it are owned by the parent `App` component.
+ */
+import React, { useState, useMemo, useEffect } from 'react';
+import DownloadIcon from './icons/DownloadIcon';
+import MagnifyingGlassIcon from './icons/MagnifyingGlassIcon';
+import HeartIcon from './icons/HeartIcon';
+import StarIcon from './icons/StarIcon';
+import CustomSelect from './CustomSelect';
+import ImageReviewControls, { MAX_RATING } from './ImageReviewControls';
+import { MIN_COMPARE_IMAGES, MAX_COMPARE_IMAGES } from './CompareModal';
+import { collections } from '../data/projects';
+import { backgroundOptions, ageOptions } from '../data/controlOptions';
+import { formatBytes } from '../utils/format';
+import { downloadImage, downloadAll } from '../utils/download';
+import { getRootGenerationParams } from '../utils/lineage';
+import { filterHistory, getBackgroundKey, getPaletteKey, DEFAULT_HISTORY_FILTERS } from '../utils/historyFilters';
+import type { HistoryFilters, HistorySort } from '../utils/historyFilters';
+import type { GeneratedImage, ImageReview, Option } from '../types';
+import type { StorageUsage } from '../services/historyStore';
+import type { ColorPalette } from '../data/palettes';
+
+/**
+ * Props for the HistoryGallery component.
+ */
+interface HistoryGalleryProps {
+  images: GeneratedImage[];
+  /** The built-in and custom palettes, to name the palettes in the filters. */
+  palettes: ColorPalette[];
+  isLoading: boolean;
+  /** The storage used by the persisted history, when the browser reports it. */
+  storageUsage: StorageUsage | null;
+  /** Opens the preview modal at the given index of `images`. */
+  openPreview: (index: number) => void;
+  onClearHistory: () => void;
+  /** Files the images into a collection, keeping their other collections. */
+  onCopyToCollection: (imageIds: string[], collectionId: string) => void;
+  /** Files the images into a collection, taking them out of `fromCollectionId` (or of every collection when null). */
+  onMoveToCollection: (imageIds: string[], fromCollectionId: string | null, toCollectionId: string) => void;
+  /** Takes the images out of a collection. */
+  onRemoveFromCollection: (imageIds: string[], collectionId: string) => void;
+  /** Rates, favourites or rejects an image. */
+  onReviewImage: (imageId: string, changes: Partial<ImageReview>) => void;
+  /** Opens the side-by-side comparison of the images. */
+  onCompare: (imageIds: string[]) => void;
+  /** Opens the PDF lookbook export of the images. */
+  onExportPdf: (imageIds: string[]) => void;
+}
+
+const collectionOptions: Option[] = collections.map(c => ({ id: c.id, label: c.name }));
+
+/** The id used by filter selects for "no filter". */
+const ANY = 'any';
+
+const ratingOptions: Option[] = [
+  { id: '0', label: 'Cualquier valoración' },
+  ...Array.from({ length: MAX_RATING }, (_, i) => ({ id: String(i + 1), label: `${'★'.repeat(i + 1)} o más` })),
+];
+
+const sortOptions: { id: HistorySort; label: string }[] = [
+  { id: 'newest', label: 'Más recientes' },
+  { id: 'oldest', label: 'Más antiguas' },
+  { id: 'rating', label: 'Mejor valoradas' },
+];
+
+/**
+ * Builds the options of a filter select from the values present in the history.
+ * @param keys - The value of each image, or undefined when unknown.
+ * @param getLabel - The label of a value.
+ * @param anyLabel - The label of the "no filter" option.
+ */
+const buildFilterOptions = (keys: (string | undefined)[], getLabel: (key: string) => string, anyLabel: string): Option[] => [
+  { id: ANY, label: anyLabel },
+  ...[...new Set(keys.filter((key): key is string => key !== undefined))].map(key => ({ id: key, label: getLabel(key) })),
+];
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({
+  images,
+  palettes,
+  isLoading,
+  storageUsage,
+  openPreview,
+  onClearHistory,
+  onCopyToCollection,
+  onMoveToCollection,
+  onRemoveFromCollection,
+  onReviewImage,
+  onCompare,
+  onExportPdf,
+}) => {
+  // The collection being viewed; null shows the whole history.
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [targetCollectionId, setTargetCollectionId] = useState(collections[0].id);
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+
+  // The whole history is filtered first, so refinements can still find the generation they come from.
+  const visibleImages = useMemo(() => {
+    const filtered = filterHistory(images, filters);
+    return activeCollectionId ? filtered.filter(image => image.collectionIds?.includes(activeCollectionId)) : filtered;
+  }, [images, activeCollectionId, filters]);
+
+  // Bulk actions only act on the selected images the filters and the collection still show.
+  const visibleSelectedIds = useMemo(
+    () => selectedIds.filter(id => visibleImages.some(image => image.id === id)),
+    [selectedIds, visibleImages]
+  );
+
+  // Drop hidden images from the selection, so showing them again does not bring them back selected.
+  useEffect(() => {
+    if (visibleSelectedIds.length !== selectedIds.length) {
+      setSelectedIds(visibleSelectedIds);
+    }
+  }, [visibleSelectedIds, selectedIds]);
+
+  const favoriteImages = images.filter(image => image.favorite && !image.rejected);
+
+  // Filter options only list the backgrounds, palettes and ages present in the history.
+  const { backgroundFilterOptions, paletteFilterOptions, ageFilterOptions } = useMemo(() => {
+    const params = images.map(image => getRootGenerationParams(images, image));
+    return {
+      backgroundFilterOptions: buildFilterOptions(
+        params.map(p => p && getBackgroundKey(p)),
+        key => (key === 'custom' ? 'Fondo personalizado' : backgroundOptions.find(o => o.id === key)?.label ?? key),
+        'Todos los fondos'
+      ),
+      paletteFilterOptions: buildFilterOptions(
+        params.map(p => p && getPaletteKey(p)),
+        key => (key === '' ? 'Colores originales' : palettes.find(p => p.colors.join(',') === key)?.name ?? key),
+        'Todas las paletas'
+      ),
+      ageFilterOptions: buildFilterOptions(
+        params.map(p => p?.modelAge),
+        key => ageOptions.find(o => o.id === key)?.label ?? key,
+        'Todas las edades'
+      ),
+    };
+  }, [images, palettes]);
+
+  const updateFilters = (changes: Partial<HistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(DEFAULT_HISTORY_FILTERS);
+  const countIn = (collectionId: string) => images.filter(image => image.collectionIds?.includes(collectionId)).length;
+
+  const handleSelectCollection = (collectionId: string | null) => {
+    setActiveCollectionId(collectionId);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (imageId: string) => {
+    setSelectedIds(prev => (prev.includes(imageId) ? prev.filter(id => id !== imageId) : [...prev, imageId]));
+  };
+
+  /** Runs a bulk action on the selection, then clears it. */
+  const applyToSelection = (action: (imageIds: string[]) => void) => {
+    action(visibleSelectedIds);
+    setSelectedIds([]);
+  };
+
+  const tabs: { id: string | null; label: string }[] = [
+    { id: null, label: `Todas (${images.length})` },
+    ...collections.map(c => ({ id: c.id, label: `${c.name} (${countIn(c.id)})` })),
+  ];
+
+  return (
+    <div className="flex flex-col gap-3 pt-4 border-t border-slate-700">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-xl font-bold text-white">Galería</h3>
+        <div className="flex items-center gap-3 text-sm">
+          <button
+            onClick={() => downloadAll(favoriteImages, `aristic-photo-lab-${Date.now()}`)}
+            disabled={favoriteImages.length === 0}
+            className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors duration-200 disabled:text-slate-600 disabled:cursor-not-allowed"
+            title="Solo se descargan las favoritas"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Favoritas ({favoriteImages.length})
+          </button>
+          {storageUsage && storageUsage.quota > 0 && (
+            <span className="text-slate-500">
+              {formatBytes(storageUsage.usage)} de {formatBytes(storageUsage.quota)}
+            </span>
+          )}
+          <button
+            onClick={onClearHistory}
+            disabled={isLoading}
+            className="text-slate-400 hover:text-red-400 transition-colors duration-200 disabled:text-slate-600 disabled:cursor-not-allowed"
+          >
+            Borrar historial
+          </button>
+        </div>
+      </div>
+
+      {/* Collection Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {tabs.map(tab => (
+          <button
+            key={tab.id ?? 'all'}
+            onClick={() => handleSelectCollection(tab.id)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${
+              activeCollectionId === tab.id ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700'
+            }`}
+            aria-pressed={activeCollectionId === tab.id}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Filters and Sorting */}
+      <div className="flex flex-col gap-2">
+        <button
+          onClick={() => setIsFiltersOpen(!isFiltersOpen)}
+          className="self-start text-sm text-slate-400 hover:text-white transition-colors"
+          aria-expanded={isFiltersOpen}
+        >
+          {isFiltersOpen ? 'Ocultar filtros' : 'Filtrar y ordenar'}{isFiltered ? ' · activos' : ''}
+        </button>
+        {isFiltersOpen && (
+          <div className="grid grid-cols-2 gap-2 animate-fade-in-scale">
+            <CustomSelect
+              options={ratingOptions}
+              selectedValue={String(filters.minRating)}
+              onSelect={(id) => updateFilters({ minRating: Number(id) })}
+              ariaLabel="Filtra por valoración"
+            />
+            <CustomSelect
+              options={sortOptions}
+              selectedValue={filters.sort}
+              onSelect={(id) => updateFilters({ sort: id as HistorySort })}
+              ariaLabel="Ordena el historial"
+            />
+            <CustomSelect
+              options={backgroundFilterOptions}
+              selectedValue={filters.background ?? ANY}
+              onSelect={(id) => updateFilters({ background: id === ANY ? null : id })}
+              ariaLabel="Filtra por fondo"
+            />
+            <CustomSelect
+              options={paletteFilterOptions}
+              selectedValue={filters.palette ?? ANY}
+              onSelect={(id) => updateFilters({ palette: id === ANY ? null : id })}
+              ariaLabel="Filtra por paleta"
+            />
+            <CustomSelect
+              options={ageFilterOptions}
+              selectedValue={filters.modelAge ?? ANY}
+              onSelect={(id) => updateFilters({ modelAge: id === ANY ? null : id })}
+              ariaLabel="Filtra por edad"
+            />
+            <div className="flex flex-col justify-center gap-1 text-sm text-slate-300">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.favoritesOnly}
+                  onChange={(e) => updateFilters({ favoritesOnly: e.target.checked })}
+                  className="accent-cyan-500"
+                />
+                Solo favoritas
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.showRejected}
+                  onChange={(e) => updateFilters({ showRejected: e.target.checked })}
+                  className="accent-cyan-500"
+                />
+                Mostrar descartadas
+              </label>
+            </div>
+            {isFiltered && (
+              <button
+                onClick={() => setFilters(DEFAULT_HISTORY_FILTERS)}
+                className="col-span-2 text-sm text-slate-400 hover:text-white transition-colors"
+              >
+                Quitar filtros
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Selection Toolbar */}
+      {visibleSelectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-2 rounded-md bg-slate-800/50 border border-slate-700 animate-fade-in-scale">
+          <span className="text-sm text-slate-300 mr-1">{visibleSelectedIds.length} seleccionadas</span>
+          <div className="w-48">
+            <CustomSelect
+              options={collectionOptions}
+              selectedValue={targetCollectionId}
+              onSelect={setTargetCollectionId}
+              ariaLabel="Selecciona la colección de destino"
+            />
+          </div>
+          <button
+            onClick={() => applyToSelection(ids => onCopyToCollection(ids, targetCollectionId))}
+            className="px-3 py-2 rounded-md text-sm bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+          >
+            Copiar
+          </button>
+          <button
+            onClick={() => applyToSelection(ids => onMoveToCollection(ids, activeCollectionId, targetCollectionId))}
+            className="px-3 py-2 rounded-md text-sm bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+          >
+            Mover
+          </button>
+          <button
+            onClick={() => onCompare(visibleSelectedIds)}
+            disabled={visibleSelectedIds.length < MIN_COMPARE_IMAGES || visibleSelectedIds.length > MAX_COMPARE_IMAGES}
+            className="px-3 py-2 rounded-md text-sm bg-slate-700 text-white enabled:hover:bg-slate-600 transition-colors disabled:text-slate-500 disabled:cursor-not-allowed"
+            title={`Selecciona de ${MIN_COMPARE_IMAGES} a ${MAX_COMPARE_IMAGES} imágenes para compararlas`}
+          >
+            Comparar
+          </button>
+          <button
+            onClick={() => onExportPdf(visibleSelectedIds)}
+            className="px-3 py-2 rounded-md text-sm bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+            title="Exportar las imágenes seleccionadas como lookbook en PDF"
+          >
+            PDF
+          </button>
+          {activeCollectionId && (
+            <button
+              onClick={() => applyToSelection(ids => onRemoveFromCollection(ids, activeCollectionId))}
+              className="px-3 py-2 rounded-md text-sm bg-slate-700 text-white hover:bg-red-500/80 transition-colors"
+            >
+              Quitar
+            </button>
+          )}
+          <button
+            onClick={() => setSelectedIds([])}
+            className="ml-auto text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            Cancelar
+          </button>
+        </div>
+      )}
+
+      {visibleImages.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4 text-center">
+          {isFiltered ? 'Ninguna imagen coincide con los filtros.' : 'Esta colección está vacía.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-48 overflow-y-auto pr-2 -mr-2">
+          {visibleImages.map(image => {
+            const index = images.indexOf(image);
+            const isSelected = selectedIds.includes(image.id);
+            return (
+              <div key={image.id} className={`relative group aspect-square rounded-md ${isSelected ? 'ring-2 ring-cyan-400' : ''}`}>
+                <img
+                  src={image.url}
+                  alt={`Generated image ${index + 1}`}
+                  className={`w-full h-full object-cover rounded-md ${image.rejected ? 'opacity-40 grayscale' : ''}`}
+                />
+                {(image.favorite || (image.rating ?? 0) > 0) && (
+                  <span className="absolute top-1 right-1 flex items-center gap-1 px-1 py-0.5 rounded bg-slate-900/70 text-[10px] font-medium text-amber-300 pointer-events-none">
+                    {(image.rating ?? 0) > 0 && (
+                      <>
+                        <StarIcon className="w-3 h-3" />
+                        {image.rating}
+                      </>
+                    )}
+                    {image.favorite && <HeartIcon className="w-3 h-3 text-red-500" />}
+                  </span>
+                )}
+                {image.label && (
+                  <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-slate-900/70 text-[10px] font-medium text-slate-200 pointer-events-none">
+                    {image.label}
+                  </span>
+                )}
+                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center gap-2 p-2">
+                  <button
+                    onClick={() => openPreview(index)}
+                    className="bg-slate-700/80 p-2 rounded-full text-white hover:bg-slate-600 transition-colors"
+                    aria-label="Preview image"
+                  >
+                    <MagnifyingGlassIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => downloadImage(image, `aristic-photo-lab-${Date.now()}-${index}`)}
+                    className="bg-slate-700/80 p-2 rounded-full text-white hover:bg-slate-600 transition-colors"
+                    aria-label="Download image"
+                  >
+                    <DownloadIcon className="w-5 h-5" />
+                  </button>
+                  <div className="absolute bottom-1 inset-x-0 flex justify-center">
+                    <ImageReviewControls image={image} onChange={(changes) => onReviewImage(image.id, changes)} compact />
+                  </div>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => toggleSelected(image.id)}
+                  className={`absolute top-1.5 left-1.5 w-4 h-4 accent-cyan-500 cursor-pointer transition-opacity ${
+                    selectedIds.length > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  }`}
+                  aria-label={`Select image ${index + 1}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryGallery;
@@ -1,19 +1,28 @@
 /**
  * @file A modal component for previewing generated images.
  * It allows users to navigate through a gallery of images, zoom in on a specific image,
- * download it, or select it for refinement.
+ * download it, select it for refinement, rate it, inspect and remix the parameters behind it,
+ * or compare a refined image with the image it was refined from.
  */
 import React, { useState, useCallback, useEffect } from 'react';
 import DownloadIcon from './icons/DownloadIcon';
 import MagnifyingGlassIcon from './icons/MagnifyingGlassIcon';
 import SparklesIcon from './icons/SparklesIcon';
+import InfoIcon from './icons/InfoIcon';
+import CompareIcon from './icons/CompareIcon';
+import GenerationDetails from './GenerationDetails';
+import BeforeAfterSlider from './BeforeAfterSlider';
+import ImageReviewControls, { MAX_RATING } from './ImageReviewControls';
+import { imageDataToDataUrl } from '../utils/imageUtils';
+import { downloadImage } from '../utils/download';
+import type { GeneratedImage, ImageReview } from '../types';
 
 /**
  * Props for the ImagePreviewModal component.
  */
 interface ImagePreviewModalProps {
-  /** An array of image data URLs to be displayed. */
-  images: string[];
+  /** The history images to be displayed. */
+  images: GeneratedImage[];
   /** The index of the currently visible image in the `images` array. */
   currentIndex: number;
   /** Callback to close the modal. */
@@ -22,19 +31,46 @@ interface ImagePreviewModalProps {
   onNavigate: (direction: 'next' | 'prev') => void;
   /** Callback to select the current image for further refinement. */
   onSelectForRefinement: (index: number) => void;
+  /** Callback to load the parameters of the image at the given index back into the controls. */
+  onRemix: (index: number) => void;
+  /** Callback to rate, favourite or reject the image with the given id. */
+  onReviewImage: (imageId: string, changes: Partial<ImageReview>) => void;
 }
 
-const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIndex, onClose, onNavigate, onSelectForRefinement }) => {
+const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIndex, onClose, onNavigate, onSelectForRefinement, onRemix, onReviewImage }) => {
   // State to manage the zoom level of the image.
   const [isZoomed, setIsZoomed] = useState(false);
+  // Whether the generation details panel is shown; kept while navigating.
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  // Whether a refined image is shown against its source; kept while navigating between refinements.
+  const [isComparing, setIsComparing] = useState(false);
 
   /**
    * Handles keyboard events for modal navigation and closing.
    * - Escape: Closes the modal (or unzooms first).
    * - ArrowRight: Navigates to the next image.
    * - ArrowLeft: Navigates to the previous image.
+   * - 1-5 rate the image, 0 clears the rating, F toggles favourite and X toggles rejected.
    */
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    const image = images[currentIndex];
+    if (image && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      const key = event.key.toLowerCase();
+      const rating = Number(key);
+      if (/^\d$/.test(key) && rating <= MAX_RATING) {
+        onReviewImage(image.id, { rating });
+        return;
+      }
+      if (key === 'f') {
+        onReviewImage(image.id, { favorite: !image.favorite });
+        return;
+      }
+      if (key === 'x') {
+        onReviewImage(image.id, { rejected: !image.rejected });
+        return;
+      }
+    }
+
     if (event.key === 'Escape') {
       if (isZoomed) {
         setIsZoomed(false); // First escape press unzooms
@@ -51,7 +87,7 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIn
     } else if (event.key === 'ArrowLeft') {
       onNavigate('prev');
     }
-  }, [onNavigate, onClose, isZoomed]);
+  }, [onNavigate, onClose, onReviewImage, images, currentIndex, isZoomed]);
 
   // Effect to add and remove the keyboard event listener.
   useEffect(() => {
@@ -72,7 +108,10 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIn
     return null;
   }
   
-  const imageUrl = images[currentIndex];
+  const currentImage = images[currentIndex];
+  const imageUrl = currentImage.url;
+  const sourceUrl = currentImage.record?.kind === 'refinement' ? imageDataToDataUrl(currentImage.record.sourceImage) : null;
+  const showComparison = isComparing && sourceUrl !== null;
 
   /** Prevents clicks inside the modal content from closing the modal. */
   const handleModalContentClick = (e: React.MouseEvent) => {
@@ -85,9 +124,10 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIn
     setIsZoomed(prev => !prev);
   };
   
-  /** Prevents the download link click from propagating. */
+  /** Downloads the image with its generation metadata embedded. */
   const handleDownloadClick = (e: React.MouseEvent) => {
     e.stopPropagation();
+    downloadImage(currentImage, `aristic-photo-lab-${Date.now()}`);
   };
 
 
@@ -107,12 +147,16 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIn
         <div
           className={`relative max-w-5xl w-full h-full flex justify-center overflow-auto ${isZoomed ? 'items-start' : 'items-center'}`}
         >
-          <img
-            src={imageUrl}
-            alt={`Generated result preview ${currentIndex + 1} of ${images.length}`}
-            className={`transition-transform duration-300 ease-in-out ${isZoomed ? 'scale-150 origin-top cursor-zoom-out' : 'object-contain max-w-full max-h-[90vh] rounded-lg cursor-zoom-in'}`}
-            onClick={handleImageClick}
-          />
+          {showComparison ? (
+            <BeforeAfterSlider beforeUrl={sourceUrl} afterUrl={imageUrl} beforeLabel="Original" afterLabel="Refinado" />
+          ) : (
+            <img
+              src={imageUrl}
+              alt={`Generated result preview ${currentIndex + 1} of ${images.length}`}
+              className={`transition-transform duration-300 ease-in-out ${isZoomed ? 'scale-150 origin-top cursor-zoom-out' : 'object-contain max-w-full max-h-[90vh] rounded-lg cursor-zoom-in'}`}
+              onClick={handleImageClick}
+            />
+          )}
         </div>
 
         {/* Navigation Buttons (visible only if there's more than one image and not zoomed) */}
@@ -135,6 +179,21 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIn
           </>
         )}
 
+        {/* Review Controls */}
+        {!isZoomed && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex flex-col items-center gap-1 px-4 py-2 rounded-lg bg-slate-900/80 z-10">
+            <ImageReviewControls image={currentImage} onChange={(changes) => onReviewImage(currentImage.id, changes)} />
+            <p className="text-[10px] text-slate-500">1-5 valorar · 0 quitar · F favorita · X descartar</p>
+          </div>
+        )}
+
+        {/* Generation Details Panel */}
+        {isDetailsOpen && !isZoomed && (
+          <aside className="absolute top-16 right-2 sm:right-4 bottom-4 w-72 sm:w-80 overflow-y-auto bg-slate-900/95 border border-slate-700 rounded-lg p-4 z-10 animate-fade-in-scale">
+            <GenerationDetails image={currentImage} onRemix={() => onRemix(currentIndex)} />
+          </aside>
+        )}
+
         {/* Top Right Controls */}
         <div className="absolute top-2 right-2 sm:top-4 sm:right-4 flex items-center gap-2 z-10">
             <button
@@ -144,22 +203,39 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ images, currentIn
             >
               <SparklesIcon className="w-5 h-5" />
             </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsDetailsOpen(prev => !prev); }}
+              className={`w-10 h-10 text-white rounded-full flex items-center justify-center hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110 ${isDetailsOpen ? 'bg-cyan-600' : 'bg-slate-800/90'}`}
+              aria-label={isDetailsOpen ? "Hide generation details" : "Show generation details"}
+              aria-pressed={isDetailsOpen}
+            >
+              <InfoIcon className="w-5 h-5" />
+            </button>
+            {sourceUrl && (
+              <button
+                onClick={(e) => { e.stopPropagation(); setIsZoomed(false); setIsComparing(prev => !prev); }}
+                className={`w-10 h-10 text-white rounded-full flex items-center justify-center hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110 ${showComparison ? 'bg-cyan-600' : 'bg-slate-800/90'}`}
+                aria-label={showComparison ? "Hide comparison with the original" : "Compare with the original"}
+                aria-pressed={showComparison}
+              >
+                <CompareIcon className="w-5 h-5" />
+              </button>
+            )}
             <button
               onClick={handleImageClick}
-              className="w-10 h-10 bg-slate-800/90 text-white rounded-full flex items-center justify-center hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110"
+              disabled={showComparison}
+              className="w-10 h-10 bg-slate-800/90 text-white rounded-full flex items-center justify-center hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110 disabled:opacity-50 disabled:pointer-events-none"
               aria-label={isZoomed ? "Zoom out" : "Zoom in"}
             >
                 <MagnifyingGlassIcon className="w-5 h-5" />
             </button>
-            <a
-              href={imageUrl}
-              download={`aristic-photo-lab-${Date.now()}.png`}
+            <button
               onClick={handleDownloadClick}
               className="w-10 h-10 bg-slate-800/90 text-white rounded-full flex items-center justify-center hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110"
               aria-label="Download image"
             >
               <DownloadIcon className="w-5 h-5" />
-            </a>
+            </button>
             <button
               onClick={onClose}
               className="w-10 h-10 bg-slate-800/90 text-white rounded-full flex items-center justify-center text-2xl hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-transform duration-200 hover:scale-110"
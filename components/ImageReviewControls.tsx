@@ -0,0 +1,64 @@
+/**
+ * @file Rating, favourite and reject controls for a history image.
+ * Used on the gallery thumbnails (compact) and in the preview modal.
+ */
+import React from 'react';
+import StarIcon from './icons/StarIcon';
+import HeartIcon from './icons/HeartIcon';
+import type { GeneratedImage, ImageReview } from '../types';
+
+/** The highest star rating. */
+export const MAX_RATING = 5;
+
+/**
+ * Props for the ImageReviewControls component.
+ */
+interface ImageReviewControlsProps {
+  image: GeneratedImage;
+  onChange: (changes: Partial<ImageReview>) => void;
+  /** Renders smaller controls, for thumbnails. */
+  compact?: boolean;
+}
+
+const ImageReviewControls: React.FC<ImageReviewControlsProps> = ({ image, onChange, compact = false }) => {
+  const iconSize = compact ? 'w-3.5 h-3.5' : 'w-5 h-5';
+  const rating = image.rating ?? 0;
+
+  return (
+    <div className={`flex items-center ${compact ? 'gap-1' : 'gap-3'}`} onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center" role="group" aria-label="Valoración">
+        {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(value => (
+          <button
+            key={value}
+            onClick={() => onChange({ rating: rating === value ? 0 : value })}
+            className={`transition-colors ${value <= rating ? 'text-amber-400' : 'text-slate-500 hover:text-amber-200'}`}
+            aria-label={`${value} ${value === 1 ? 'estrella' : 'estrellas'}`}
+            aria-pressed={value <= rating}
+          >
+            <StarIcon className={iconSize} />
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange({ favorite: !image.favorite })}
+        className={`transition-colors ${image.favorite ? 'text-red-500' : 'text-slate-500 hover:text-red-300'}`}
+        aria-label={image.favorite ? 'Quitar de favoritas' : 'Marcar como favorita'}
+        aria-pressed={!!image.favorite}
+      >
+        <HeartIcon className={iconSize} />
+      </button>
+      <button
+        onClick={() => onChange({ rejected: !image.rejected })}
+        className={`font-bold leading-none transition-colors ${compact ? 'text-sm' : 'text-xl'} ${
+          image.rejected ? 'text-red-400' : 'text-slate-500 hover:text-red-300'
+        }`}
+        aria-label={image.rejected ? 'Recuperar imagen' : 'Descartar imagen'}
+        aria-pressed={!!image.rejected}
+      >
+        &times;
+      </button>
+    </div>
+  );
+};
+
+export default ImageReviewControls;
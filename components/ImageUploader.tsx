@@ -1,12 +1,19 @@
 /**
  * @file A versatile image uploader component.
  * Supports file selection, drag-and-drop, and capturing photos with the device camera.
+ * New images open in the crop editor, and the current one can be cropped again from its original.
  * Displays image previews and a loading state.
  */
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import UploadIcon from './icons/UploadIcon';
 import CameraIcon from './icons/CameraIcon';
 import type { ImageData } from '../types';
+import { preprocessImage, getImageInfo, ACCEPTED_IMAGE_TYPES } from '../utils/imageUtils';
+import type { ImageInfo } from '../utils/imageUtils';
+import { formatBytes } from '../utils/format';
+import { getCropSource } from '../utils/crop';
+import type { CropSettings } from '../utils/crop';
+import CropEditor from './CropEditor';
 
 /**
  * Props for the ImageUploader component.
@@ -26,6 +33,8 @@ interface ImageUploaderProps {
  */
 const UI_STRINGS = {
   FILE_TYPE_ERROR: 'Por favor, sube un archivo PNG, JPG o WEBP.',
+  PROCESSING_ERROR: 'No se pudo preparar la imagen.',
+  CROP_BUTTON: 'Recortar',
   CAMERA_ACCESS_ERROR_MESSAGE: 'No se pudo acceder a la cámara. Asegúrate de haber concedido los permisos.',
   CAMERA_NOT_SUPPORTED: 'La cámara no es compatible con este navegador.',
   LOADING_TEXT: 'Cargando...',
@@ -45,19 +54,33 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
   const [isDragging, setIsDragging] = useState(false);
   // State to control the visibility of the camera modal.
   const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // State for the image being rotated, scaled and re-encoded before it is used.
+  const [isProcessing, setIsProcessing] = useState(false);
+  // State for the dimensions and file size of the current image.
+  const [imageInfo, setImageInfo] = useState<ImageInfo | null>(null);
+  // State for the image open in the crop editor, with the crop to start from.
+  const [cropSession, setCropSession] = useState<{ original: ImageData; crop?: CropSettings } | null>(null);
 
   // Refs for camera elements.
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
-  // Effect to update the preview when the `value` prop changes.
+  // Effect to update the preview and the reported size when the `value` prop changes.
   useEffect(() => {
-    if (value) {
-      setImagePreview(`data:${value.mimeType};base64,${value.base64}`);
-    } else {
+    setImageInfo(null);
+    if (!value) {
       setImagePreview(null);
+      return;
     }
+    setImagePreview(`data:${value.mimeType};base64,${value.base64}`);
+    let isCurrent = true;
+    getImageInfo(value)
+      .then(info => isCurrent && setImageInfo(info))
+      .catch(err => console.error('Failed to read the image size:', err));
+    return () => {
+      isCurrent = false;
+    };
   }, [value]);
 
   // Effect to manage the camera stream.
@@ -89,46 +112,61 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
 
 
   /**
-   * Processes a File object, validates its type, and converts it to ImageData.
+   * Processes a file or camera capture: validates its type, then prepares it
+   * (orientation, size, encoding) and opens it in the crop editor, which hands it to the parent.
+   * Only state setters and module constants are read, so the callback never changes.
    */
-  const handleFile = useCallback((file: File) => {
-    if (file && ['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        onChange({ base64: base64String, mimeType: file.type });
-      };
-      reader.readAsDataURL(file);
-    } else {
+  const handleFile = useCallback(async (file: Blob) => {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
       alert(UI_STRINGS.FILE_TYPE_ERROR);
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      setCropSession({ original: await preprocessImage(file) });
+    } catch (err) {
+      console.error('Failed to prepare the image:', err);
+      alert(`${UI_STRINGS.PROCESSING_ERROR}\nError: ${(err as Error).message}`);
+    } finally {
+      setIsProcessing(false);
     }
-  }, [onChange]);
+  }, []);
+
+  /** Opens the crop editor on the original of the current image, with its last crop. */
+  const handleOpenCrop = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent the main div's click handler from firing.
+    if (!value) return;
+    setCropSession(getCropSource(value) ?? { original: value });
+  };
+
+  // Preparing an image shows the same overlay as loading a sample.
+  const isBusy = isLoading || isProcessing;
 
   // --- Drag and Drop Event Handlers ---
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    if (isLoading) return;
+    if (isBusy) return;
     setIsDragging(true);
   };
 
   const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    if (isLoading) return;
+    if (isBusy) return;
     setIsDragging(false);
   };
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    if (isLoading) return; // Prevent drop if loading
+    if (isBusy) return; // Prevent drop if loading
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    if (isLoading) return;
+    if (isBusy) return;
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       handleFile(e.dataTransfer.files[0]);
@@ -140,10 +178,12 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
     if (e.target.files && e.target.files[0]) {
       handleFile(e.target.files[0]);
     }
+    // Reset the input so the same file can be chosen again.
+    e.target.value = '';
   };
   
   const handleClick = () => {
-    if (isLoading) return;
+    if (isBusy) return;
     // Programmatically click the hidden file input.
     document.getElementById(id)?.click();
   }
@@ -151,7 +191,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
   // --- Camera Functionality Handlers ---
   const handleOpenCamera = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent the main div's click handler from firing.
-    if (isLoading) return;
+    if (isBusy) return;
 
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         alert(UI_STRINGS.CAMERA_NOT_SUPPORTED);
@@ -176,11 +216,10 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
       if (context) {
         // Draw the current video frame onto the canvas.
         context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-        // Convert canvas content to a data URL.
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-        const base64String = dataUrl.split(',')[1];
-        // Update the parent component with the new image data.
-        onChange({ base64: base64String, mimeType: 'image/jpeg' });
+        // Prepare the capture like any uploaded file.
+        canvas.toBlob(blob => {
+          if (blob) handleFile(blob);
+        }, 'image/jpeg', 0.95);
         handleCloseCamera();
       }
     }
@@ -197,7 +236,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
           onDragOver={handleDragOver}
           onDrop={handleDrop}
           onClick={handleClick}
-          className={`relative group flex items-center justify-center h-64 bg-slate-800/50 border-2 border-dashed border-slate-600 rounded-lg transition-all duration-300 ${isDragging ? 'border-cyan-400 bg-cyan-500/10 shadow-2xl shadow-cyan-500/20 scale-105' : 'hover:border-slate-500'} ${isLoading ? '!cursor-wait' : 'cursor-pointer'}`}
+          className={`relative group flex items-center justify-center h-64 bg-slate-800/50 border-2 border-dashed border-slate-600 rounded-lg transition-all duration-300 ${isDragging ? 'border-cyan-400 bg-cyan-500/10 shadow-2xl shadow-cyan-500/20 scale-105' : 'hover:border-slate-500'} ${isBusy ? '!cursor-wait' : 'cursor-pointer'}`}
         >
           <input
             type="file"
@@ -205,10 +244,10 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
             className="hidden"
             accept="image/png, image/jpeg, image/webp"
             onChange={handleFileChange}
-            disabled={isLoading}
+            disabled={isBusy}
           />
           {/* Loading overlay */}
-          {isLoading ? (
+          {isBusy ? (
               <div className="absolute inset-0 bg-slate-800/80 flex flex-col items-center justify-center rounded-lg">
                   <svg aria-hidden="true" className="w-8 h-8 text-slate-600 animate-spin fill-cyan-500" viewBox="0 0 100 101" fill="none" xmlns="http://www.w3.org/2000/svg">
                       <path d="M100 50.5908C100 78.2051 77.6142 100.591 50 100.591C22.3858 100.591 0 78.2051 0 50.5908C0 22.9766 22.3858 0.59082 50 0.59082C77.6142 0.59082 100 22.9766 100 50.5908ZM9.08144 50.5908C9.08144 73.1895 27.4013 91.5094 50 91.5094C72.5987 91.5094 90.9186 73.1895 90.9186 50.5908C90.9186 27.9921 72.5987 9.67226 50 9.67226C27.4013 9.67226 9.08144 27.9921 9.08144 50.5908Z" fill="currentColor"/>
@@ -220,6 +259,13 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
           ) : imagePreview ? (
             <>
               <img src={imagePreview} alt="Preview" className="object-contain w-full h-full rounded-md" />
+              <button
+                onClick={handleOpenCrop}
+                type="button"
+                className="absolute top-2 right-2 px-3 py-1.5 rounded-md text-sm bg-slate-900/80 text-slate-200 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-slate-700 transition-opacity"
+              >
+                {UI_STRINGS.CROP_BUTTON}
+              </button>
             </>
           // Default empty state
           ) : (
@@ -245,8 +291,27 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, v
             </div>
           )}
         </div>
+        {/* Size of the image as it will be sent */}
+        {value && imageInfo && !isBusy && (
+          <p className="text-xs text-slate-500 text-right">
+            {imageInfo.width} × {imageInfo.height} px · {formatBytes(imageInfo.bytes)}
+          </p>
+        )}
       </div>
 
+      {/* Crop Editor */}
+      {cropSession && (
+        <CropEditor
+          image={cropSession.original}
+          initialCrop={cropSession.crop}
+          onApply={(image) => {
+            onChange(image);
+            setCropSession(null);
+          }}
+          onCancel={() => setCropSession(null)}
+        />
+      )}
+
       {/* Camera Modal */}
       {isCameraOpen && (
         <div
@@ -0,0 +1,93 @@
+/**
+ * @file A component that shows the history as a refinement lineage tree.
+ * Each generation is a root and each refinement hangs from the image it was refined
+ * from, with its instruction, so any branch can be picked up and refined further.
+ */
+import React, { useMemo } from 'react';
+import { buildLineageTree, getLineagePath } from '../utils/lineage';
+import type { LineageNode } from '../utils/lineage';
+import type { GeneratedImage } from '../types';
+
+/**
+ * Props for the LineageTree component.
+ */
+interface LineageTreeProps {
+  /** The history of generated and refined images. */
+  images: GeneratedImage[];
+  /** The data URL of the image currently shown in the results panel. */
+  currentImageUrl: string | null;
+  /** Callback invoked with the data URL of the node the user jumps to. */
+  onSelect: (imageUrl: string) => void;
+}
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+
+const LineageTree: React.FC<LineageTreeProps> = ({ images, currentImageUrl, onSelect }) => {
+  const roots = useMemo(() => buildLineageTree(images), [images]);
+  const currentImage = images.find(image => image.url === currentImageUrl);
+  // The ancestors of the current image are highlighted so its branch is easy to follow.
+  const currentPath = useMemo(
+    () => (currentImage ? getLineagePath(images, currentImage.id) : []),
+    [images, currentImage]
+  );
+
+  /**
+   * Renders a node and, recursively, the refinements made from it.
+   */
+  const renderNode = (node: LineageNode): React.ReactNode => {
+    const { image } = node;
+    const isCurrent = image.id === currentImage?.id;
+    const isOnPath = currentPath.includes(image.id);
+
+    return (
+      <li key={image.id} className="flex flex-col gap-2">
+        <button
+          onClick={() => onSelect(image.url)}
+          className={`flex items-center gap-3 p-2 rounded-md text-left border transition-colors duration-200 ${
+            isCurrent
+              ? 'border-cyan-500 bg-cyan-500/10'
+              : isOnPath
+                ? 'border-slate-500 bg-slate-700/40'
+                : 'border-slate-700 bg-slate-800/50 hover:bg-slate-700/50'
+          }`}
+          aria-current={isCurrent}
+        >
+          <img src={image.url} alt="" className="w-12 h-12 object-cover rounded flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm text-slate-200 truncate">
+              {image.record?.kind === 'refinement'
+                ? `“${image.record.refinementPrompt}”`
+                : image.label ? `Generación · ${image.label}` : 'Generación'}
+            </p>
+            <p className="text-xs text-slate-500">
+              {formatTime(image.createdAt)}
+              {node.children.length > 0 && ` · ${node.children.length} ${node.children.length === 1 ? 'refinado' : 'refinados'}`}
+            </p>
+          </div>
+        </button>
+        {node.children.length > 0 && (
+          <ul className="flex flex-col gap-2 pl-4 ml-6 border-l border-slate-700">
+            {node.children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
+      <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Árbol de refinados</h2>
+          <p className="text-sm text-slate-400">Salta a cualquier rama y sigue refinando desde ahí.</p>
+        </div>
+        <ul className="flex flex-col gap-2 max-h-96 overflow-y-auto pr-2 -mr-2">
+          {roots.map(renderNode)}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LineageTree;
@@ -0,0 +1,157 @@
+/**
+ * @file A modal to lay out selected history images as a PDF lookbook.
+ * It collects the cover texts and the number of images per page; the PDF itself is
+ * built by the parent (see `lookbookPdf.ts`).
+ */
+import React, { useState, useEffect } from 'react';
+import SpinnerIcon from './icons/SpinnerIcon';
+import { lookbookLayouts } from '../services/lookbookPdf';
+import type { LookbookLayout } from '../services/lookbookPdf';
+
+/**
+ * What the user chose in the modal.
+ */
+export interface LookbookSettings {
+  clubName: string;
+  designName: string;
+  date: Date;
+  layout: LookbookLayout;
+}
+
+/**
+ * Props for the LookbookExportModal component.
+ */
+interface LookbookExportModalProps {
+  /** How many images the lookbook will hold. */
+  imageCount: number;
+  /** The club name suggested when the modal opens, usually the project name. */
+  defaultClubName: string;
+  /** Builds and downloads the lookbook. Rejects if it could not be built. */
+  onExport: (settings: LookbookSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Formats a date for a date input, in local time. */
+const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded-md p-3 text-sm placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition';
+
+const LookbookExportModal: React.FC<LookbookExportModalProps> = ({ imageCount, defaultClubName, onExport, onClose }) => {
+  const [clubName, setClubName] = useState(defaultClubName);
+  const [designName, setDesignName] = useState('');
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [layout, setLayout] = useState<LookbookLayout>(4);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isExporting) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isExporting]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const [year, month, day] = date.split('-').map(Number);
+      await onExport({
+        clubName: clubName.trim() || defaultClubName,
+        designName: designName.trim(),
+        date: date ? new Date(year, month - 1, day) : new Date(),
+        layout,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Failed to build the lookbook:', err);
+      setError('No se pudo generar el PDF. Inténtalo de nuevo con menos imágenes.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pageCount = Math.ceil(imageCount / layout);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+      onClick={() => !isExporting && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Exportar lookbook en PDF"
+    >
+      <div
+        className="bg-slate-900 w-full max-w-md rounded-lg shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-white">Lookbook en PDF</h2>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="w-8 h-8 bg-slate-800 text-white rounded-full flex items-center justify-center text-xl hover:bg-slate-700 flex-shrink-0 disabled:opacity-50"
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          Club
+          <input type="text" value={clubName} onChange={(e) => setClubName(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          Nombre del diseño
+          <input
+            type="text"
+            value={designName}
+            onChange={(e) => setDesignName(e.target.value)}
+            placeholder="p. ej. Temporada 2026"
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          Fecha
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </label>
+
+        <div className="flex flex-col gap-1 text-sm text-slate-300">
+          Imágenes por página
+          <div className="grid grid-cols-4 gap-2">
+            {lookbookLayouts.map(option => (
+              <button
+                key={option}
+                onClick={() => setLayout(option)}
+                className={`py-2 rounded-md font-semibold transition-colors ${
+                  layout === option ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+                aria-pressed={layout === option}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          {imageCount} {imageCount === 1 ? 'imagen' : 'imágenes'} · portada y {pageCount} {pageCount === 1 ? 'página' : 'páginas'} A4
+        </p>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full flex items-center justify-center gap-2 bg-cyan-600 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300 enabled:hover:bg-cyan-500 disabled:opacity-60 disabled:cursor-wait"
+        >
+          {isExporting && <SpinnerIcon className="w-5 h-5 text-cyan-800 animate-spin fill-white" />}
+          {isExporting ? 'Generando PDF…' : 'Generar PDF'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LookbookExportModal;
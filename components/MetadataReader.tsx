@@ -0,0 +1,163 @@
+/**
+ * @file A panel that reads the generation metadata embedded in a downloaded image.
+ * Any file can be dropped or chosen; when it was downloaded from the app, its provenance
+ * is shown and its settings can be loaded back into the controls.
+ */
+import React, { useState, useRef } from 'react';
+import UploadIcon from './icons/UploadIcon';
+import { readMetadata } from '../utils/imageMetadata';
+import type { ImageMetadata } from '../utils/imageMetadata';
+import { backgroundOptions, ageOptions } from '../data/controlOptions';
+import { formatColorRoles, formatColorSwaps } from '../data/palettes';
+
+/**
+ * Props for the MetadataReader component.
+ */
+interface MetadataReaderProps {
+  /** Callback to load the settings of the metadata into the controls. */
+  onRestore: (metadata: ImageMetadata) => void;
+}
+
+/** The outcome of reading the last file. */
+type ReadResult =
+  | { status: 'found'; fileName: string; metadata: ImageMetadata }
+  | { status: 'missing'; fileName: string };
+
+const MetadataReader: React.FC<MetadataReaderProps> = ({ onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [result, setResult] = useState<ReadResult | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const readFile = async (file: File) => {
+    try {
+      const metadata = readMetadata(new Uint8Array(await file.arrayBuffer()));
+      setResult(metadata ? { status: 'found', fileName: file.name, metadata } : { status: 'missing', fileName: file.name });
+    } catch (err) {
+      console.error('Failed to read the image metadata:', err);
+      setResult({ status: 'missing', fileName: file.name });
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) readFile(file);
+  };
+
+  const renderMetadata = (metadata: ImageMetadata) => {
+    const { settings } = metadata;
+    const rows: [string, string | undefined][] = [
+      ['Fecha', new Date(metadata.createdAt).toLocaleString('es-ES')],
+      ['Modelo', metadata.model],
+      ['Plantilla', `${metadata.templateId} · v${metadata.templateVersion}`],
+      ['Etiqueta', metadata.label],
+    ];
+    if (settings?.kind === 'generation') {
+      const { params } = settings;
+      rows.push(
+        ['Fondo', backgroundOptions.find(o => o.id === params.background)?.label ?? params.background],
+        ['Edad', ageOptions.find(o => o.id === params.modelAge)?.label ?? params.modelAge],
+        ['Paleta', params.paletteColors?.join(', ') || 'Original'],
+        ['Zonas de color', params.colorRoles ? formatColorRoles(params.colorRoles) : undefined],
+        ['Colores sustituidos', params.colorSwaps ? formatColorSwaps(params.colorSwaps) : undefined],
+        ['Instrucciones', params.instructions || undefined],
+      );
+    } else if (settings?.kind === 'refinement') {
+      rows.push(['Instrucción de refinado', settings.refinementPrompt]);
+    }
+
+    return (
+      <div className="flex flex-col gap-3">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+          {rows.filter(([, value]) => value).map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-slate-500">{label}</dt>
+              <dd className="text-slate-200 break-words">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        {metadata.prompt && (
+          <details className="text-xs text-slate-400">
+            <summary className="cursor-pointer text-slate-300">Prompt completo</summary>
+            <pre className="mt-2 max-h-48 overflow-y-auto whitespace-pre-wrap bg-slate-900/60 p-3 rounded">{metadata.prompt}</pre>
+          </details>
+        )}
+        {settings && (
+          <button
+            onClick={() => onRestore(metadata)}
+            className="w-full bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300 hover:bg-cyan-500"
+          >
+            Restaurar ajustes
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
+      <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center justify-between text-left"
+          aria-expanded={isOpen}
+        >
+          <div>
+            <h2 className="text-xl font-bold text-white">Leer metadatos</h2>
+            <p className="text-sm text-slate-400">Consulta cómo se creó una imagen descargada</p>
+          </div>
+          <div className="pointer-events-none flex items-center text-slate-400 transition-transform duration-200" style={{ transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)' }}>
+            <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+              <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+            </svg>
+          </div>
+        </button>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-fade-in-scale">
+            <div
+              onClick={() => inputRef.current?.click()}
+              onDragOver={handleDragOver}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`flex flex-col items-center justify-center gap-2 h-28 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-200 ${
+                isDragging ? 'border-cyan-400 bg-cyan-500/10' : 'border-slate-600 bg-slate-800/50 hover:border-slate-500'
+              }`}
+            >
+              <UploadIcon className="w-6 h-6 text-slate-500" />
+              <p className="text-sm text-slate-400">Arrastra una imagen o haz clic para elegirla</p>
+              <input
+                ref={inputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) readFile(file);
+                }}
+              />
+            </div>
+
+            {result?.status === 'missing' && (
+              <p className="text-sm text-slate-400">
+                <span className="text-slate-200">{result.fileName}</span> no contiene metadatos de Aristic Photo Lab.
+              </p>
+            )}
+            {result?.status === 'found' && renderMetadata(result.metadata)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MetadataReader;
@@ -0,0 +1,229 @@
+/**
+ * @file A modal to create or edit a colour palette.
+ * Each colour can be set with the colour picker, typed as a hex code or as RGB values.
+ * A colour keeps its garment region (assigned in the palette selector) while it is edited or moved.
+ * The palette itself is stored by the parent (see `paletteStore.ts`).
+ */
+import React, { useState, useEffect } from 'react';
+import { hexToRgb, rgbToHex } from '../utils/color';
+import type { Rgb } from '../utils/color';
+import { MAX_PALETTE_COLORS } from '../services/paletteStore';
+import type { PaletteRoleId } from '../data/palettes';
+
+/**
+ * Props for the PaletteEditorModal component.
+ */
+interface PaletteEditorModalProps {
+  /** The title of the modal, e.g. "Nueva paleta". */
+  title: string;
+  initialName: string;
+  initialColors: string[];
+  /** The garment region of some of the initial colours, by hex code. */
+  initialRoles: Record<string, PaletteRoleId>;
+  onSave: (name: string, colors: string[], roles: Record<string, PaletteRoleId>) => void;
+  onClose: () => void;
+}
+
+/** The colour added by "Añadir color". */
+const NEW_COLOR = '#FFFFFF';
+
+const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded-md p-3 text-sm placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition';
+const channelClass = 'w-14 bg-slate-700 border border-slate-600 rounded-md p-2 text-sm text-center focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition';
+
+const PaletteEditorModal: React.FC<PaletteEditorModalProps> = ({ title, initialName, initialColors, initialRoles, onSave, onClose }) => {
+  const [name, setName] = useState(initialName);
+  const [colors, setColors] = useState<string[]>(() => (initialColors.length > 0 ? initialColors : [NEW_COLOR]).slice(0, MAX_PALETTE_COLORS));
+  // The hex codes as typed, so a half-typed code is not overwritten while editing.
+  const [hexDrafts, setHexDrafts] = useState<string[]>(colors);
+  // The role of each colour, by position, so it follows the colour through edits and moves.
+  const [roles, setRoles] = useState<(PaletteRoleId | undefined)[]>(() => colors.map(color => initialRoles[color]));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /** Sets a colour and its hex field. */
+  const setColor = (index: number, hex: string) => {
+    const normalized = hex.toUpperCase();
+    setColors(prev => prev.map((color, i) => (i === index ? normalized : color)));
+    setHexDrafts(prev => prev.map((draft, i) => (i === index ? normalized : draft)));
+  };
+
+  const handleHexChange = (index: number, value: string) => {
+    setHexDrafts(prev => prev.map((draft, i) => (i === index ? value : draft)));
+    const rgb = hexToRgb(value);
+    if (rgb) setColors(prev => prev.map((color, i) => (i === index ? rgbToHex(rgb) : color)));
+  };
+
+  const handleChannelChange = (index: number, channel: keyof Rgb, value: string) => {
+    const rgb = hexToRgb(colors[index]);
+    if (!rgb || value === '' || !Number.isFinite(Number(value))) return;
+    setColor(index, rgbToHex({ ...rgb, [channel]: Number(value) }));
+  };
+
+  const handleRemove = (index: number) => {
+    setColors(prev => prev.filter((_, i) => i !== index));
+    setHexDrafts(prev => prev.filter((_, i) => i !== index));
+    setRoles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const move = <T,>(list: T[]): T[] => {
+      const next = [...list];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    };
+    setColors(move);
+    setHexDrafts(move);
+    setRoles(move);
+  };
+
+  const handleAdd = () => {
+    setColors(prev => [...prev, NEW_COLOR]);
+    setHexDrafts(prev => [...prev, NEW_COLOR]);
+    setRoles(prev => [...prev, undefined]);
+  };
+
+  const handleSave = () => {
+    // A colour entered twice keeps the role of its first occurrence.
+    const savedRoles: Record<string, PaletteRoleId> = {};
+    colors.forEach((color, index) => {
+      const role = roles[index];
+      if (role && !(color in savedRoles)) savedRoles[color] = role;
+    });
+    onSave(name.trim(), colors, savedRoles);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+    >
+      <div
+        className="bg-slate-900 w-full max-w-lg max-h-full overflow-y-auto rounded-lg shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-white">{title}</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 bg-slate-800 text-white rounded-full flex items-center justify-center text-xl hover:bg-slate-700 flex-shrink-0"
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          Nombre
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="p. ej. Club Rítmica Norte"
+            className={inputClass}
+            autoFocus
+          />
+        </label>
+
+        {/* Preview of the palette as it will appear in the selector */}
+        <div className="flex h-8 rounded-md overflow-hidden border border-slate-700" aria-hidden="true">
+          {colors.map((color, index) => (
+            <div key={index} className="flex-1" style={{ backgroundColor: color }}></div>
+          ))}
+        </div>
+
+        <ul className="flex flex-col gap-2">
+          {colors.map((color, index) => {
+            const rgb = hexToRgb(color) ?? { r: 0, g: 0, b: 0 };
+            return (
+              <li key={index} className="flex items-center gap-2 text-sm">
+                <input
+                  type="color"
+                  value={color.toLowerCase()}
+                  onChange={(e) => setColor(index, e.target.value)}
+                  className="w-10 h-10 rounded cursor-pointer bg-transparent border-0 p-0 flex-shrink-0"
+                  aria-label={`Color ${index + 1}`}
+                />
+                <input
+                  type="text"
+                  value={hexDrafts[index]}
+                  onChange={(e) => handleHexChange(index, e.target.value)}
+                  onBlur={() => setHexDrafts(prev => prev.map((draft, i) => (i === index ? color : draft)))}
+                  className={`w-24 bg-slate-700 border rounded-md p-2 text-sm font-mono focus:ring-2 focus:ring-cyan-500 transition ${
+                    hexToRgb(hexDrafts[index]) ? 'border-slate-600' : 'border-red-500'
+                  }`}
+                  aria-label={`Código hexadecimal del color ${index + 1}`}
+                />
+                {(['r', 'g', 'b'] as const).map(channel => (
+                  <input
+                    key={channel}
+                    type="number"
+                    min={0}
+                    max={255}
+                    value={rgb[channel]}
+                    onChange={(e) => handleChannelChange(index, channel, e.target.value)}
+                    className={channelClass}
+                    aria-label={`${channel.toUpperCase()} del color ${index + 1}`}
+                  />
+                ))}
+                <div className="flex ml-auto">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="w-7 h-8 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label="Subir color"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === colors.length - 1}
+                    className="w-7 h-8 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label="Bajar color"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => handleRemove(index)}
+                    disabled={colors.length === 1}
+                    className="w-8 h-8 rounded-md text-lg text-slate-400 hover:text-white hover:bg-red-500/80 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label={`Eliminar el color ${index + 1}`}
+                  >
+                    &times;
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <button
+          onClick={handleAdd}
+          disabled={colors.length >= MAX_PALETTE_COLORS}
+          className="px-3 py-2 rounded-md text-sm font-medium bg-slate-700/50 text-slate-300 transition-colors duration-200 enabled:hover:bg-slate-700 disabled:text-slate-600 disabled:cursor-not-allowed"
+        >
+          {colors.length >= MAX_PALETTE_COLORS ? `Máximo ${MAX_PALETTE_COLORS} colores` : '+ Añadir color'}
+        </button>
+
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="w-full bg-cyan-600 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300 enabled:hover:bg-cyan-500 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Guardar paleta
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteEditorModal;
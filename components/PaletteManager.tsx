@@ -0,0 +1,163 @@
+/**
+ * @file A panel to manage the user's own colour palettes, such as a club's official colours.
+ * Palettes can be created, edited, reordered, deleted, and exported or imported as JSON,
+ * ASE or GPL files. They appear in the palette selector after the built-in ones.
+ * It is a "dumb" component: the palettes and the handlers come from the parent `App`.
+ */
+import React, { useState, useRef } from 'react';
+import PaletteEditorModal from './PaletteEditorModal';
+import type { ColorPalette, PaletteRoleId } from '../data/palettes';
+import { paletteFileFormats } from '../services/paletteStore';
+import type { PaletteFileFormat } from '../services/paletteStore';
+
+/**
+ * Props for the PaletteManager component.
+ */
+interface PaletteManagerProps {
+  palettes: ColorPalette[];
+  selectedPaletteId: string;
+  /** The colours of the selected palette, offered as the start of a new one. */
+  selectedColors: string[];
+  /** The roles of the selected palette's colours, carried into a new palette with them. */
+  selectedRoles: Record<string, PaletteRoleId>;
+  onCreate: (name: string, colors: string[], roles: Record<string, PaletteRoleId>) => void;
+  onUpdate: (palette: ColorPalette) => void;
+  /** Selects a palette in the controls. */
+  onSelect: (paletteId: string) => void;
+  /** Moves a palette up (-1) or down (1) the list. */
+  onMove: (paletteId: string, offset: number) => void;
+  onDelete: (paletteId: string) => void;
+  /** Downloads every palette in a file format. */
+  onExport: (format: PaletteFileFormat) => void;
+  /** Adds the palettes of a JSON, ASE or GPL file chosen by the user. */
+  onImport: (file: File) => void;
+}
+
+const PaletteManager: React.FC<PaletteManagerProps> = ({
+  palettes, selectedPaletteId, selectedColors, selectedRoles,
+  onCreate, onUpdate, onSelect, onMove, onDelete, onExport, onImport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The palette open in the editor: an existing one, or null for a new one.
+  const [editing, setEditing] = useState<{ palette: ColorPalette | null } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = 'px-3 py-2 rounded-md text-sm font-medium bg-slate-700/50 text-slate-300 transition-colors duration-200 enabled:hover:bg-slate-700 disabled:text-slate-600 disabled:cursor-not-allowed';
+  const arrowClass = 'w-6 h-4 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
+      <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center justify-between text-left"
+          aria-expanded={isOpen}
+        >
+          <div>
+            <h2 className="text-xl font-bold text-white">Mis paletas</h2>
+            <p className="text-sm text-slate-400">Los colores oficiales de tu club, junto a las paletas predefinidas</p>
+          </div>
+          <div className="pointer-events-none flex items-center text-slate-400 transition-transform duration-200" style={{ transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)' }}>
+            <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+              <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+            </svg>
+          </div>
+        </button>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-fade-in-scale">
+            {palettes.length === 0 ? (
+              <p className="text-sm text-slate-500">Aún no hay paletas propias.</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {palettes.map((palette, index) => (
+                  <li
+                    key={palette.id}
+                    className={`flex items-center gap-2 p-2 rounded-md bg-slate-900/40 border ${
+                      palette.id === selectedPaletteId ? 'border-cyan-500' : 'border-slate-700'
+                    }`}
+                  >
+                    <div className="flex flex-col">
+                      <button onClick={() => onMove(palette.id, -1)} disabled={index === 0} className={arrowClass} aria-label={`Subir ${palette.name}`}>▲</button>
+                      <button onClick={() => onMove(palette.id, 1)} disabled={index === palettes.length - 1} className={arrowClass} aria-label={`Bajar ${palette.name}`}>▼</button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-200 truncate">{palette.name}</p>
+                      <div className="flex mt-1" aria-hidden="true">
+                        {palette.colors.map((color, i) => (
+                          <div key={i} className="w-4 h-4 first:rounded-l last:rounded-r" style={{ backgroundColor: color }}></div>
+                        ))}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onSelect(palette.id)}
+                      disabled={palette.id === selectedPaletteId}
+                      className="px-3 py-1.5 rounded-md text-sm bg-cyan-600 text-white enabled:hover:bg-cyan-500 transition-colors disabled:opacity-50"
+                    >
+                      {palette.id === selectedPaletteId ? 'En uso' : 'Usar'}
+                    </button>
+                    <button
+                      onClick={() => setEditing({ palette })}
+                      className="px-3 py-1.5 rounded-md text-sm bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+                    >
+                      Editar
+                    </button>
+                    <button
+                      onClick={() => onDelete(palette.id)}
+                      className="w-8 h-8 rounded-md text-lg text-slate-400 hover:text-white hover:bg-red-500/80 transition-colors"
+                      aria-label={`Eliminar ${palette.name}`}
+                    >
+                      &times;
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => setEditing({ palette: null })} className={buttonClass}>Nueva paleta</button>
+              {paletteFileFormats.map(format => (
+                <button key={format.id} onClick={() => onExport(format.id)} disabled={palettes.length === 0} className={buttonClass}>
+                  Exportar {format.label}
+                </button>
+              ))}
+              <button onClick={() => importInputRef.current?.click()} className={buttonClass}>Importar</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.ase,.gpl,.zip,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  // Reset the input so the same file can be chosen again.
+                  e.target.value = '';
+                  if (file) onImport(file);
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <PaletteEditorModal
+          title={editing.palette ? 'Editar paleta' : 'Nueva paleta'}
+          initialName={editing.palette?.name ?? ''}
+          initialColors={editing.palette?.colors ?? selectedColors}
+          initialRoles={editing.palette ? editing.palette.roles ?? {} : selectedRoles}
+          onSave={(name, colors, roles) => {
+            if (editing.palette) {
+              onUpdate({ ...editing.palette, name, colors, roles });
+            } else {
+              onCreate(name, colors, roles);
+            }
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PaletteManager;
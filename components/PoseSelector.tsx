@@ -0,0 +1,83 @@
+/**
+ * @file A component for choosing the model's pose from the pose catalogue.
+ * Poses are filtered by discipline and shown as stick-figure thumbnails.
+ */
+import React, { useState } from 'react';
+import { poses, poseDisciplines } from '../data/poses';
+import type { Pose, PoseDiscipline } from '../data/poses';
+
+/**
+ * Props for the PoseSelector component.
+ */
+interface PoseSelectorProps {
+  /** The title displayed above the poses. */
+  title: string;
+  /** A short description or instruction. */
+  description: string;
+  /** The ID of the currently selected pose. */
+  selectedPoseId: string;
+  /** Callback function invoked when a pose is selected. */
+  onSelect: (poseId: string) => void;
+}
+
+/**
+ * Renders the stick-figure thumbnail of a pose.
+ */
+const PoseThumbnail: React.FC<{ pose: Pose }> = ({ pose }) => (
+  <svg viewBox="0 0 100 100" className="w-full h-16" fill="none" stroke="currentColor" strokeWidth="5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+    <circle cx={pose.figure.head[0]} cy={pose.figure.head[1]} r="7" fill="currentColor" stroke="none" />
+    <path d={pose.figure.path} />
+  </svg>
+);
+
+const PoseSelector: React.FC<PoseSelectorProps> = ({ title, description, selectedPoseId, onSelect }) => {
+  // Start on the discipline of the selected pose so it is visible.
+  const [discipline, setDiscipline] = useState<PoseDiscipline>(
+    () => poses.find(p => p.id === selectedPoseId)?.discipline ?? 'general'
+  );
+
+  const visiblePoses = poses.filter(p => p.discipline === discipline);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-xl font-bold text-white">{title}</h2>
+      <p className="text-sm text-slate-400">{description}</p>
+      {/* Discipline Tabs */}
+      <div className="grid grid-cols-3 gap-3">
+        {poseDisciplines.map(d => (
+          <button
+            key={d.id}
+            onClick={() => setDiscipline(d.id)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              discipline === d.id ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700'
+            }`}
+          >
+            {d.label}
+          </button>
+        ))}
+      </div>
+      {/* Pose Grid */}
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-3" role="listbox" aria-label={title}>
+        {visiblePoses.map(pose => (
+          <button
+            key={pose.id}
+            onClick={() => onSelect(pose.id)}
+            title={pose.description}
+            className={`flex flex-col items-center gap-1 p-2 rounded-md text-xs font-medium transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 ${
+              selectedPoseId === pose.id
+                ? 'bg-cyan-500 text-white shadow-md'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+            role="option"
+            aria-selected={selectedPoseId === pose.id}
+          >
+            <PoseThumbnail pose={pose} />
+            <span className="text-center leading-tight">{pose.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PoseSelector;
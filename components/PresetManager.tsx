@@ -0,0 +1,136 @@
+/**
+ * @file A panel to save the current settings as named presets and reuse them.
+ * Presets can be applied, shared as a link, deleted, and exported or imported as JSON.
+ * It is a "dumb" component: the presets and the handlers come from the parent `App`.
+ */
+import React, { useState, useRef } from 'react';
+import type { ControlPreset } from '../types';
+import { CUSTOM_PALETTE_ID } from '../data/palettes';
+import type { ColorPalette } from '../data/palettes';
+import { backgroundOptions, ageOptions } from '../data/controlOptions';
+import { outputFormats } from '../data/formats';
+
+/**
+ * Props for the PresetManager component.
+ */
+interface PresetManagerProps {
+  presets: ControlPreset[];
+  /** The palettes presets can refer to: the built-in ones and the user's own. */
+  palettes: ColorPalette[];
+  /** Saves the current settings as a new preset. */
+  onSave: () => void;
+  /** Loads a preset into the controls. */
+  onApply: (preset: ControlPreset) => void;
+  /** Copies a link that pre-fills the controls with a preset. */
+  onCopyLink: (preset: ControlPreset) => void;
+  onDelete: (presetId: string) => void;
+  /** Downloads every preset as a JSON file. */
+  onExport: () => void;
+  /** Adds the presets of a JSON file chosen by the user. */
+  onImport: (file: File) => void;
+}
+
+/** Summarises the settings of a preset in one line. */
+const describePreset = ({ settings }: ControlPreset, palettes: ColorPalette[]): string => {
+  const background = settings.background === 'custom'
+    ? 'Fondo personalizado'
+    : backgroundOptions.find(o => o.id === settings.background)?.label;
+  const palette = settings.selectedPaletteId === CUSTOM_PALETTE_ID
+    ? { id: CUSTOM_PALETTE_ID, name: 'Paleta personalizada' }
+    : palettes.find(p => p.id === settings.selectedPaletteId)
+      ?? (settings.customPaletteColors.length > 0 ? { id: CUSTOM_PALETTE_ID, name: 'Paleta personalizada' } : undefined);
+  const age = ageOptions.find(o => o.id === settings.modelAge);
+  const format = outputFormats.find(f => f.id === settings.selectedFormatId);
+  return [
+    background,
+    palette && palette.id !== 'none' ? palette.name : undefined,
+    age && age.id !== 'none' ? age.label : undefined,
+    format ? format.label : `${settings.customSize.width}×${settings.customSize.height}`,
+  ].filter(Boolean).join(' · ');
+};
+
+const PresetManager: React.FC<PresetManagerProps> = ({ presets, palettes, onSave, onApply, onCopyLink, onDelete, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = 'px-3 py-2 rounded-md text-sm font-medium bg-slate-700/50 text-slate-300 transition-colors duration-200 enabled:hover:bg-slate-700 disabled:text-slate-600 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
+      <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center justify-between text-left"
+          aria-expanded={isOpen}
+        >
+          <div>
+            <h2 className="text-xl font-bold text-white">Ajustes guardados</h2>
+            <p className="text-sm text-slate-400">Fondo, paleta, edad, instrucciones y formato en un clic</p>
+          </div>
+          <div className="pointer-events-none flex items-center text-slate-400 transition-transform duration-200" style={{ transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)' }}>
+            <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+              <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+            </svg>
+          </div>
+        </button>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-fade-in-scale">
+            {presets.length === 0 ? (
+              <p className="text-sm text-slate-500">Aún no hay ajustes guardados.</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {presets.map(preset => (
+                  <li key={preset.id} className="flex items-center gap-2 p-2 rounded-md bg-slate-900/40 border border-slate-700">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-200 truncate">{preset.name}</p>
+                      <p className="text-xs text-slate-500 truncate">{describePreset(preset, palettes)}</p>
+                    </div>
+                    <button onClick={() => onApply(preset)} className="px-3 py-1.5 rounded-md text-sm bg-cyan-600 text-white hover:bg-cyan-500 transition-colors">
+                      Aplicar
+                    </button>
+                    <button
+                      onClick={() => onCopyLink(preset)}
+                      className="px-3 py-1.5 rounded-md text-sm bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+                      title="Copiar un enlace que rellena los controles con estos ajustes"
+                    >
+                      Enlace
+                    </button>
+                    <button
+                      onClick={() => onDelete(preset.id)}
+                      className="w-8 h-8 rounded-md text-lg text-slate-400 hover:text-white hover:bg-red-500/80 transition-colors"
+                      aria-label={`Eliminar ${preset.name}`}
+                    >
+                      &times;
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button onClick={onSave} className={buttonClass}>Guardar ajustes actuales</button>
+              <button onClick={onExport} disabled={presets.length === 0} className={buttonClass}>Exportar JSON</button>
+              <button onClick={() => importInputRef.current?.click()} className={buttonClass}>Importar JSON</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  // Reset the input so the same file can be chosen again.
+                  e.target.value = '';
+                  if (file) onImport(file);
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
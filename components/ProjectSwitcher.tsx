@@ -0,0 +1,75 @@
+/**
+ * @file A compact project switcher for the application header.
+ * It lists the projects and offers to create, rename and delete them, and to export the
+ * active one as a session archive or import an archive as a new project.
+ */
+import React, { useRef } from 'react';
+import CustomSelect from './CustomSelect';
+import type { Project } from '../types';
+
+/**
+ * Props for the ProjectSwitcher component.
+ */
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  /** Disables switching while a request is in flight. */
+  disabled: boolean;
+  onSwitch: (projectId: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  /** Downloads the active project as a session archive. */
+  onExport: () => void;
+  /** Imports a session archive chosen by the user. */
+  onImport: (file: File) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = 'px-3 py-2 rounded-md text-sm font-medium bg-slate-700/50 text-slate-300 transition-colors duration-200 enabled:hover:bg-slate-700 disabled:text-slate-600 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <span className="text-sm text-slate-400">Proyecto</span>
+      <div className={`w-56 text-left ${disabled ? 'pointer-events-none opacity-60' : ''}`}>
+        <CustomSelect
+          options={projects.map(p => ({ id: p.id, label: p.name }))}
+          selectedValue={activeProjectId ?? ''}
+          onSelect={onSwitch}
+          ariaLabel="Selecciona el proyecto"
+        />
+      </div>
+      <button onClick={onCreate} disabled={disabled} className={buttonClass}>Nuevo</button>
+      <button onClick={onRename} disabled={disabled || !activeProjectId} className={buttonClass}>Renombrar</button>
+      <button onClick={onDelete} disabled={disabled || projects.length <= 1} className={buttonClass}>Eliminar</button>
+      <button onClick={onExport} disabled={disabled || !activeProjectId} className={buttonClass}>Exportar sesión</button>
+      <button onClick={() => importInputRef.current?.click()} disabled={disabled} className={buttonClass}>Importar sesión</button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Reset the input so the same archive can be chosen again.
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
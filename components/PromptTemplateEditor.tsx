@@ -0,0 +1,175 @@
+/**
+ * @file A panel for choosing, editing and versioning the prompt templates.
+ * Edits are validated as you type, the final prompt for the current settings is
+ * previewed live, and valid edits can be saved as the next version of the template.
+ */
+import React, { useState, useEffect, useMemo } from 'react';
+import CustomSelect from './CustomSelect';
+import type { GenerationParams } from '../services/geminiService';
+import { buildPrompt, buildRefinementPrompt } from '../services/geminiService';
+import { validatePromptTemplate, savePromptTemplateVersion, getTemplateKey } from '../services/promptTemplates';
+import { generationTemplateVariables, refinementTemplateVariables } from '../data/promptTemplates';
+import type { PromptTemplate } from '../data/promptTemplates';
+
+/**
+ * Props for the PromptTemplateEditor component.
+ */
+interface PromptTemplateEditorProps {
+  /** Every available template version. */
+  templates: PromptTemplate[];
+  /** The template version currently used for generation. */
+  activeTemplate: PromptTemplate;
+  /** Callback invoked with the key of the template version to activate. */
+  onSelectTemplate: (templateKey: string) => void;
+  /** Callback invoked after a new template version has been saved. */
+  onTemplateSaved: (template: PromptTemplate) => void;
+  /** The current (non-image) generation settings, used for the live preview. */
+  settings: Omit<GenerationParams, 'garmentImage' | 'modelImage'>;
+}
+
+type TemplateBody = 'generation' | 'refinement';
+
+/** Placeholder instruction shown in the refinement preview. */
+const SAMPLE_REFINEMENT_INSTRUCTION = 'cambia el pelo a rojo';
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ templates, activeTemplate, onSelectTemplate, onTemplateSaved, settings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeBody, setActiveBody] = useState<TemplateBody>('generation');
+  const [draft, setDraft] = useState({ generation: activeTemplate.generation, refinement: activeTemplate.refinement });
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Effect to reset the draft whenever a different template version is selected.
+  useEffect(() => {
+    setDraft({ generation: activeTemplate.generation, refinement: activeTemplate.refinement });
+    setSaveError(null);
+  }, [activeTemplate]);
+
+  const errors = useMemo(() => validatePromptTemplate(draft), [draft]);
+  const isDirty = draft.generation !== activeTemplate.generation || draft.refinement !== activeTemplate.refinement;
+
+  /** The final prompt for the draft, or null while the draft is invalid. */
+  const preview = useMemo(() => {
+    if (errors.length > 0) return null;
+    const draftTemplate = { ...activeTemplate, ...draft };
+    return activeBody === 'generation'
+      ? buildPrompt({ ...settings, promptTemplate: draftTemplate })
+      : buildRefinementPrompt(SAMPLE_REFINEMENT_INSTRUCTION, draftTemplate);
+  }, [errors, activeTemplate, draft, activeBody, settings]);
+
+  const templateOptions = templates.map(t => ({ id: getTemplateKey(t), label: `${t.name} · v${t.version}` }));
+  const variables = activeBody === 'generation' ? generationTemplateVariables : refinementTemplateVariables;
+  const nextVersion = Math.max(...templates.filter(t => t.id === activeTemplate.id).map(t => t.version)) + 1;
+
+  const handleSave = () => {
+    try {
+      const saved = savePromptTemplateVersion(activeTemplate, draft);
+      setSaveError(null);
+      onTemplateSaved(saved);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'No se pudo guardar la plantilla.');
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
+      <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center justify-between text-left"
+          aria-expanded={isOpen}
+        >
+          <div>
+            <h2 className="text-xl font-bold text-white">Plantilla de prompt</h2>
+            <p className="text-sm text-slate-400">En uso: {activeTemplate.name} · v{activeTemplate.version}</p>
+          </div>
+          <div className="pointer-events-none flex items-center text-slate-400 transition-transform duration-200" style={{ transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)' }}>
+            <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+              <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+            </svg>
+          </div>
+        </button>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-fade-in-scale">
+            <CustomSelect
+              options={templateOptions}
+              selectedValue={getTemplateKey(activeTemplate)}
+              onSelect={onSelectTemplate}
+              ariaLabel="Selecciona la versión de la plantilla"
+            />
+
+            {/* Body Tabs */}
+            <div className="grid grid-cols-2 gap-3">
+              {(['generation', 'refinement'] as TemplateBody[]).map(body => (
+                <button
+                  key={body}
+                  onClick={() => setActiveBody(body)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                    activeBody === body ? 'bg-cyan-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {body === 'generation' ? 'Generación' : 'Refinado'}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={draft[activeBody]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [activeBody]: e.target.value }))}
+              className="w-full bg-slate-700 border border-slate-600 rounded-md p-3 text-xs font-mono placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+              rows={12}
+              spellCheck={false}
+              aria-label="Template body"
+            />
+
+            {/* Available Variables */}
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(variables).map(([name, description]) => (
+                <code key={name} title={description} className="text-xs bg-slate-900/60 text-cyan-300 px-2 py-1 rounded">
+                  {`{{${name}}}`}
+                </code>
+              ))}
+            </div>
+
+            {/* Validation Errors */}
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-400 bg-red-900/20 border border-red-500/50 rounded-lg p-3 list-disc list-inside" role="alert">
+                {errors.map((e, index) => <li key={index}>{e}</li>)}
+              </ul>
+            )}
+
+            {/* Live Preview */}
+            {preview !== null && (
+              <div className="flex flex-col gap-2">
+                <h3 className="text-sm font-bold text-white">Vista previa del prompt final</h3>
+                <pre className="text-xs text-slate-300 bg-slate-900/60 border border-slate-700 rounded-md p-3 max-h-64 overflow-auto whitespace-pre-wrap">{preview}</pre>
+              </div>
+            )}
+
+            {saveError && <p className="text-xs text-red-400">{saveError}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setDraft({ generation: activeTemplate.generation, refinement: activeTemplate.refinement })}
+                disabled={!isDirty}
+                className="flex-1 bg-slate-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:text-slate-500 disabled:cursor-not-allowed enabled:hover:bg-slate-600"
+              >
+                Descartar cambios
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || errors.length > 0}
+                className="flex-1 bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed enabled:hover:bg-cyan-500"
+              >
+                Guardar como v{nextVersion}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
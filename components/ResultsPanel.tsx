@@ -1,47 +1,96 @@
 /**
  * @file This component renders the entire results panel for the application.
  * It displays the generated image, loading and error states, the refinement form,
- * and the gallery of previously generated images. It is a "dumb" component that
- * receives its state and handlers from the parent `App` component.
+ * and the gallery of previously generated images (see `HistoryGallery`). It is a "dumb"
+ * component that receives its state and handlers from the parent `App` component.
  */
 import React from 'react';
 import SparklesIcon from './icons/SparklesIcon';
 import DownloadIcon from './icons/DownloadIcon';
 import MagnifyingGlassIcon from './icons/MagnifyingGlassIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
+import ErrorMessage from './ErrorMessage';
+import HistoryGallery from './HistoryGallery';
+import { downloadImage } from '../utils/download';
+import type { GenerationVariant, GeneratedImage, GenerationMode, ImageReview } from '../types';
+import type { StorageUsage } from '../services/historyStore';
+import type { ColorPalette } from '../data/palettes';
 
 // --- Component Props Interface ---
 
 interface ResultsPanelProps {
   isLoading: boolean;
-  error: string | null;
+  isRefining: boolean;
+  error: Error | null;
   generatedImage: string | null;
-  generatedImagesHistory: string[];
+  variants: GenerationVariant[];
+  /** The mode of the current batch; a lookbook is shown as one labelled set of views. */
+  batchMode: GenerationMode;
+  generatedImagesHistory: GeneratedImage[];
+  /** The built-in and custom palettes, to name the palettes of the history. */
+  palettes: ColorPalette[];
+  /** The storage used by the persisted history, when the browser reports it. */
+  storageUsage: StorageUsage | null;
   refinementPrompt: string;
   canRefine: boolean;
   setRefinementPrompt: (value: string) => void;
   onRefine: () => void;
+  onSelectVariant: (imageUrl: string) => void;
+  onRetry: () => void;
+  onRetryVariant: (variantId: string) => void;
+  onCancel: () => void;
   openPreview: (index: number) => void;
+  onClearHistory: () => void;
+  onCopyToCollection: (imageIds: string[], collectionId: string) => void;
+  onMoveToCollection: (imageIds: string[], fromCollectionId: string | null, toCollectionId: string) => void;
+  onRemoveFromCollection: (imageIds: string[], collectionId: string) => void;
+  onReviewImage: (imageId: string, changes: Partial<ImageReview>) => void;
+  onCompare: (imageIds: string[]) => void;
+  onExportPdf: (imageIds: string[]) => void;
 }
 
 const ResultsPanel: React.FC<ResultsPanelProps> = ({
   isLoading,
+  isRefining,
   error,
   generatedImage,
+  variants,
+  batchMode,
   generatedImagesHistory,
+  palettes,
+  storageUsage,
   refinementPrompt,
   canRefine,
   setRefinementPrompt,
   onRefine,
+  onSelectVariant,
+  onRetry,
+  onRetryVariant,
+  onCancel,
   openPreview,
+  onClearHistory,
+  onCopyToCollection,
+  onMoveToCollection,
+  onRemoveFromCollection,
+  onReviewImage,
+  onCompare,
+  onExportPdf,
 }) => {
+  // The main area shows a spinner while refining, or while a batch has not produced its first image yet.
+  const showMainLoading = isRefining || (isLoading && !generatedImage);
+  const currentHistoryIndex = generatedImagesHistory.findIndex(image => image.url === generatedImage);
+  const currentHistoryEntry = currentHistoryIndex === -1 ? null : generatedImagesHistory[currentHistoryIndex];
+  const completedVariants = variants.filter(v => v.status !== 'pending' && v.status !== 'loading').length;
+  const isLookbook = batchMode === 'lookbook';
+
   return (
     <div className="bg-gradient-to-br from-slate-700/50 to-slate-800/20 p-px rounded-xl shadow-2xl shadow-slate-950/40">
         <div className="bg-slate-800/80 backdrop-blur-sm p-6 rounded-[11px] flex flex-col gap-6">
             <h2 className="text-2xl font-bold text-white">Resultado</h2>
             <div className="flex flex-col bg-slate-800/50 border border-slate-700 rounded-lg">
                 {/* Loading State */}
-                {isLoading && (
-                    <div className="h-96 flex items-center justify-center text-center text-slate-400 p-4">
+                {showMainLoading && (
+                    <div className="h-96 flex flex-col items-center justify-center text-center text-slate-400 p-4">
                         <div role="status">
                             <svg aria-hidden="true" className="inline w-10 h-10 text-slate-600 animate-spin fill-cyan-500" viewBox="0 0 100 101" fill="none" xmlns="http://www.w3.org/2000/svg">
                                 <path d="M100 50.5908C100 78.2051 77.6142 100.591 50 100.591C22.3858 100.591 0 78.2051 0 50.5908C0 22.9766 22.3858 0.59082 50 0.59082C77.6142 0.59082 100 22.9766 100 50.5908ZM9.08144 50.5908C9.08144 73.1895 27.4013 91.5094 50 91.5094C72.5987 91.5094 90.9186 73.1895 90.9186 50.5908C90.9186 27.9921 72.5987 9.67226 50 9.67226C27.4013 9.67226 9.08144 27.9921 9.08144 50.5908Z" fill="currentColor"/>
@@ -49,7 +98,19 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                             </svg>
                             <span className="sr-only">Loading...</span>
                         </div>
-                        <p className="mt-4">Generando tu fotografía...</p>
+                        <p className="mt-4">
+                            {!isRefining && isLookbook
+                                ? `Generando lookbook: vista ${variants[0]?.label ?? ''}...`
+                                : !isRefining && variants.length > 1
+                                    ? `Generando ${variants.length} variaciones (${completedVariants}/${variants.length})...`
+                                    : 'Generando tu fotografía...'}
+                        </p>
+                        <button
+                            onClick={onCancel}
+                            className="mt-4 bg-slate-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 hover:bg-slate-600"
+                        >
+                            Cancelar
+                        </button>
                     </div>
                 )}
                 {/* Initial Empty State */}
@@ -66,32 +127,46 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                 {/* Error State */}
                 {error && !isLoading && (
                     <div className="h-96 flex items-center justify-center p-4">
-                        <div className="text-center text-red-400 bg-red-900/20 border border-red-500/50 rounded-lg p-4">
-                            <p className="font-bold">Error</p>
-                            <p className="text-sm mt-2">{error}</p>
-                        </div>
+                        <ErrorMessage error={error} onRetry={onRetry} />
                     </div>
                 )}
                 {/* Success State */}
-                {generatedImage && !isLoading && (
+                {generatedImage && !showMainLoading && (
                     <div className="flex flex-col animate-fade-in-scale" key={generatedImage}>
                         {/* Image Display */}
                         <div className="relative group p-2">
                             <img src={generatedImage} alt="Generated artistic photo" className="object-contain w-full rounded-md" />
-                            <button onClick={() => openPreview(generatedImagesHistory.indexOf(generatedImage))} className="absolute top-3 right-3 bg-slate-900/60 p-2 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300 hover:scale-110" aria-label="Preview image">
-                                <MagnifyingGlassIcon className="w-6 h-6"/>
-                            </button>
+                            {currentHistoryIndex !== -1 && (
+                                <button onClick={() => openPreview(currentHistoryIndex)} className="absolute top-3 right-3 bg-slate-900/60 p-2 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300 hover:scale-110" aria-label="Preview image">
+                                    <MagnifyingGlassIcon className="w-6 h-6"/>
+                                </button>
+                            )}
+                            {currentHistoryEntry && (
+                                <p className="text-xs text-slate-500 text-right mt-1 pr-1">
+                                    Plantilla {currentHistoryEntry.templateId} · v{currentHistoryEntry.templateVersion}
+                                </p>
+                            )}
                         </div>
                         {/* Actions and Refinement Form */}
                         <div className="flex flex-col gap-4 p-4 border-t border-slate-700">
-                            <a
-                                href={generatedImage}
-                                download={`aristic-photo-lab-${Date.now()}.png`}
-                                className="flex-1 flex items-center justify-center gap-2 bg-slate-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 hover:bg-slate-600 text-center"
-                            >
-                                <DownloadIcon className="w-5 h-5" />
-                                Descargar
-                            </a>
+                            {currentHistoryEntry ? (
+                                <button
+                                    onClick={() => downloadImage(currentHistoryEntry, `aristic-photo-lab-${Date.now()}`)}
+                                    className="flex-1 flex items-center justify-center gap-2 bg-slate-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 hover:bg-slate-600 text-center"
+                                >
+                                    <DownloadIcon className="w-5 h-5" />
+                                    Descargar
+                                </button>
+                            ) : (
+                                <a
+                                    href={generatedImage}
+                                    download={`aristic-photo-lab-${Date.now()}.png`}
+                                    className="flex-1 flex items-center justify-center gap-2 bg-slate-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 hover:bg-slate-600 text-center"
+                                >
+                                    <DownloadIcon className="w-5 h-5" />
+                                    Descargar
+                                </a>
+                            )}
                             <div className="flex flex-col gap-2">
                                 <h3 className="text-lg font-bold text-white">Refina tu Imagen</h3>
                                 <p className="text-sm text-slate-400">Describe los cambios que quieres hacer a la imagen generada.</p>
@@ -117,36 +192,90 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                     </div>
                 )}
             </div>
-            {/* Image History Gallery */}
-            {generatedImagesHistory.length > 0 && (
-                <div className="flex flex-col gap-3 pt-4 border-t border-slate-700">
-                    <h3 className="text-xl font-bold text-white">Galería</h3>
-                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-48 overflow-y-auto pr-2 -mr-2">
-                        {generatedImagesHistory.map((imageSrc, index) => (
-                            <div key={index} className="relative group aspect-square">
-                                <img src={imageSrc} alt={`Generated image ${index + 1}`} className="w-full h-full object-cover rounded-md" />
-                                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center gap-2 p-2">
+            {/* Batch Variants Strip (or the set of views of a lookbook) */}
+            {(variants.length > 1 || isLookbook) && (
+                <div className="flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-bold text-white">
+                            {isLookbook ? 'Lookbook' : 'Variaciones'} <span className="text-sm font-normal text-slate-400">({completedVariants}/{variants.length})</span>
+                        </h3>
+                        {isLoading && !showMainLoading && (
+                            <button
+                                onClick={onCancel}
+                                className="text-sm text-slate-400 hover:text-red-400 transition-colors duration-200"
+                            >
+                                Cancelar restantes
+                            </button>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-4 gap-3">
+                        {variants.map((variant, index) => (
+                            <div key={variant.id} className="relative aspect-square rounded-md overflow-hidden bg-slate-800/50 border border-slate-700">
+                                {variant.label && (
+                                    <span className="absolute top-1 left-1 z-10 px-1.5 py-0.5 rounded bg-slate-900/70 text-[10px] font-medium text-slate-200 pointer-events-none">
+                                        {variant.label}
+                                    </span>
+                                )}
+                                {variant.status === 'success' && variant.imageUrl && (
                                     <button
-                                        onClick={() => openPreview(index)}
-                                        className="bg-slate-700/80 p-2 rounded-full text-white hover:bg-slate-600 transition-colors"
-                                        aria-label="Preview image"
+                                        onClick={() => onSelectVariant(variant.imageUrl!)}
+                                        className={`w-full h-full animate-fade-in-scale ${generatedImage === variant.imageUrl ? 'ring-2 ring-cyan-400 ring-inset' : ''}`}
+                                        aria-label={`Select ${variant.label ?? `variation ${index + 1}`}`}
                                     >
-                                        <MagnifyingGlassIcon className="w-5 h-5" />
+                                        <img src={variant.imageUrl} alt={variant.label ?? `Variation ${index + 1}`} className="w-full h-full object-cover" />
                                     </button>
-                                    <a
-                                        href={imageSrc}
-                                        download={`aristic-photo-lab-${Date.now()}-${index}.png`}
-                                        className="bg-slate-700/80 p-2 rounded-full text-white hover:bg-slate-600 transition-colors"
-                                        aria-label="Download image"
-                                    >
-                                        <DownloadIcon className="w-5 h-5" />
-                                    </a>
-                                </div>
+                                )}
+                                {variant.status === 'loading' && (
+                                    <div className="w-full h-full flex items-center justify-center" role="status">
+                                        <SpinnerIcon className="w-6 h-6 text-slate-600 animate-spin fill-cyan-500" />
+                                        <span className="sr-only">Loading...</span>
+                                    </div>
+                                )}
+                                {variant.status === 'pending' && (
+                                    <div className="w-full h-full flex items-center justify-center text-xs text-slate-500">En cola</div>
+                                )}
+                                {variant.status === 'cancelled' && (
+                                    <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-2 text-xs text-slate-500">
+                                        <p>Cancelada</p>
+                                        {!isLoading && (
+                                            <button
+                                                onClick={() => onRetryVariant(variant.id)}
+                                                className="px-2 py-1 rounded bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+                                            >
+                                                Reintentar
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {variant.status === 'error' && variant.error && (
+                                    <ErrorMessage
+                                        error={variant.error}
+                                        onRetry={isLoading ? undefined : () => onRetryVariant(variant.id)}
+                                        compact
+                                    />
+                                )}
                             </div>
                         ))}
                     </div>
                 </div>
             )}
+            {/* Image History Gallery */}
+            {generatedImagesHistory.length > 0 && (
+                <HistoryGallery
+                    images={generatedImagesHistory}
+                    palettes={palettes}
+                    isLoading={isLoading}
+                    storageUsage={storageUsage}
+                    openPreview={openPreview}
+                    onClearHistory={onClearHistory}
+                    onCopyToCollection={onCopyToCollection}
+                    onMoveToCollection={onMoveToCollection}
+                    onRemoveFromCollection={onRemoveFromCollection}
+                    onReviewImage={onReviewImage}
+                    onCompare={onCompare}
+                    onExportPdf={onExportPdf}
+                />
+            )}
         </div>
     </div>
   );
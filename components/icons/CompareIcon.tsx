@@ -0,0 +1,28 @@
+import React from 'react';
+
+/**
+ * CompareIcon component.
+ * Renders an SVG icon of a frame split in two, used to compare images.
+ * @param props - Standard SVG props.
+ */
+const CompareIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...props}
+  >
+    <rect x="3" y="4" width="18" height="16" rx="2" />
+    <line x1="12" y1="2" x2="12" y2="22" />
+    <polyline points="8 10 6 12 8 14" />
+    <polyline points="16 10 18 12 16 14" />
+  </svg>
+);
+
+export default CompareIcon;
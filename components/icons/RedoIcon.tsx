@@ -0,0 +1,26 @@
+import React from 'react';
+
+/**
+ * RedoIcon component.
+ * Renders an SVG icon of an arrow curving forward to the right, used to redo a change.
+ * @param props - Standard SVG props.
+ */
+const RedoIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...props}
+  >
+    <polyline points="15 14 20 9 15 4" />
+    <path d="M4 20v-7a4 4 0 0 1 4-4h12" />
+  </svg>
+);
+
+export default RedoIcon;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+/**
+ * StarIcon component.
+ * Renders a filled SVG star icon, used for ratings.
+ * @param props - Standard SVG props.
+ */
+const StarIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="currentColor"
+    {...props}
+  >
+    <path d="M12 17.27 18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z" />
+  </svg>
+);
+
+export default StarIcon;
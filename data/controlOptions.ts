@@ -0,0 +1,25 @@
+/**
+ * @file This file contains the fixed options offered by the control panel selectors.
+ * They are shared with the views that describe a recorded generation, so stored
+ * parameters can be shown with the same labels the user picked them by.
+ */
+import type { Option } from '../types';
+import { photoStudioPrompt, nightCityTerracePrompt, garmentDesignWorkshopPrompt } from './prompts';
+
+/** The background styles. The id is the background description sent to the model. */
+export const backgroundOptions: Option[] = [
+  { id: 'minimalist urban', label: 'Urbano minimalista' },
+  { id: nightCityTerracePrompt, label: 'Ciudad nocturna' },
+  { id: photoStudioPrompt, label: 'Foto estudio' },
+  { id: garmentDesignWorkshopPrompt, label: 'Taller moda' },
+  { id: 'custom', label: 'Subir mi fondo...' },
+];
+
+/** The age ranges the model can be adjusted to. */
+export const ageOptions: Option[] = [
+    { id: 'none', label: 'Original' },
+    { id: 'child', label: 'Niña (6-9)' },
+    { id: 'pre-teen', label: 'Pre-adol. (10-12)' },
+    { id: 'teenager', label: 'Adolescente (13-16)' },
+    { id: 'young-adult', label: 'Joven (18-25)' },
+];
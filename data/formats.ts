@@ -0,0 +1,58 @@
+/**
+ * @file This file contains the output format presets available for generated images.
+ * Each preset defines the exact pixel size the final image is cropped or padded to;
+ * the aspect ratio requested from the model is derived from it.
+ */
+
+/**
+ * Defines the structure for a single output format preset.
+ */
+export interface OutputFormat {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+}
+
+/** The ID of the pseudo-preset that lets the user type their own pixel size. */
+export const CUSTOM_FORMAT_ID = 'custom';
+
+/** The preset used when none has been chosen (matches the app's historical 9:16). */
+export const DEFAULT_FORMAT_ID = 'story';
+
+/** The smallest and largest edge, in pixels, accepted for custom sizes. */
+export const MIN_CUSTOM_EDGE = 256;
+export const MAX_CUSTOM_EDGE = 4096;
+
+/**
+ * Clamps a typed edge length into the accepted custom range.
+ * @param value - The edge length as typed by the user.
+ * @returns A whole number of pixels between `MIN_CUSTOM_EDGE` and `MAX_CUSTOM_EDGE`.
+ */
+export const clampCustomEdge = (value: number): number => {
+    if (!Number.isFinite(value)) return MIN_CUSTOM_EDGE;
+    return Math.min(MAX_CUSTOM_EDGE, Math.max(MIN_CUSTOM_EDGE, Math.round(value)));
+};
+
+/**
+ * An array of output format presets.
+ */
+export const outputFormats: OutputFormat[] = [
+    { id: 'instagram-post', label: 'Post Instagram 4:5', width: 1080, height: 1350 },
+    { id: 'story', label: 'Story 9:16', width: 1080, height: 1920 },
+    { id: 'catalogue', label: 'Catálogo 2:3', width: 1200, height: 1800 },
+    { id: 'web-banner', label: 'Banner web 16:9', width: 1920, height: 1080 },
+    { id: 'square', label: 'Cuadrado 1:1', width: 1080, height: 1080 },
+];
+
+/**
+ * Reduces a pixel size to its simplest aspect ratio string.
+ * @param width - The width in pixels.
+ * @param height - The height in pixels.
+ * @returns The aspect ratio, e.g. "4:5" for 1080x1350.
+ */
+export const toAspectRatio = (width: number, height: number): string => {
+    const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+    const divisor = gcd(Math.round(width), Math.round(height)) || 1;
+    return `${Math.round(width) / divisor}:${Math.round(height) / divisor}`;
+};
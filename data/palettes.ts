@@ -10,8 +10,85 @@ export interface ColorPalette {
     id: string;
     name: string;
     colors: string[];
+    /** The region of the garment assigned to some of the colours, by hex code. */
+    roles?: Record<string, PaletteRoleId>;
 }
 
+/**
+ * The ID of the palette built from the garment's own colours (see `GarmentPaletteEditor`).
+ * Its colours and their roles are kept in the controls rather than in this file.
+ */
+export const CUSTOM_PALETTE_ID = 'custom';
+
+/**
+ * A colour of the garment swapped for another one (see `GarmentPaletteEditor`).
+ */
+export interface ColorSwap {
+    /** The garment's own colour. */
+    from: string;
+    /** The colour that replaces it. */
+    to: string;
+}
+
+/**
+ * Summarises colour swaps for display, e.g. "#D92B2B → #0D9488 · #FFFFFF → #F1F5F9".
+ */
+export const formatColorSwaps = (swaps: ColorSwap[]): string => {
+    return swaps.map(swap => `${swap.from} → ${swap.to}`).join(' · ');
+};
+
+/** A region of the garment a palette colour can be assigned to. */
+export type PaletteRoleId = 'base' | 'panel' | 'mesh' | 'trim' | 'crystals';
+
+/**
+ * Defines a region of the garment, as shown to the user and as described to the model.
+ */
+export interface PaletteRole {
+    id: PaletteRoleId;
+    label: string;
+    /** The region, as named in the prompt. */
+    region: string;
+}
+
+/**
+ * The regions palette colours can be assigned to, in the order the prompt lists them.
+ */
+export const paletteRoles: PaletteRole[] = [
+    { id: 'base', label: 'Tejido base', region: 'The base fabric (the main body of the garment)' },
+    { id: 'panel', label: 'Panel secundario', region: 'The secondary panels and color-blocked inserts' },
+    { id: 'mesh', label: 'Malla / mangas', region: 'The mesh inserts and the sleeves' },
+    { id: 'trim', label: 'Ribetes', region: 'The trims (edges, neckline, straps and piping)' },
+    { id: 'crystals', label: 'Cristales / adornos', region: 'The crystals, rhinestones, sequins and other embellishments' },
+];
+
+/**
+ * Summarises colour roles for display, e.g. "Tejido base: #F97721 · Ribetes: #2F264D".
+ * @param colorRoles - The region assigned to each colour, by hex code.
+ */
+export const formatColorRoles = (colorRoles: Record<string, PaletteRoleId>): string => {
+    return paletteRoles
+        .map(role => ({ role, colors: Object.keys(colorRoles).filter(color => colorRoles[color] === role.id) }))
+        .filter(entry => entry.colors.length > 0)
+        .map(({ role, colors }) => `${role.label}: ${colors.join(', ')}`)
+        .join(' · ');
+};
+
+/**
+ * Tells whether a value maps hex codes to known garment regions, e.g. when read from storage.
+ */
+export const isColorRoles = (value: unknown): value is Record<string, PaletteRoleId> => {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Object.values(value).every(role => paletteRoles.some(r => r.id === role));
+};
+
+/**
+ * Tells whether two sets of colour roles assign the same colours to the same regions.
+ */
+export const isSameColorRoles = (a: Record<string, PaletteRoleId> = {}, b: Record<string, PaletteRoleId> = {}): boolean => {
+    const colors = Object.keys(a);
+    return colors.length === Object.keys(b).length && colors.every(color => a[color] === b[color]);
+};
+
 /**
  * An array of predefined color palettes.
  * The first palette, 'none', is a special case to indicate that the original
@@ -0,0 +1,122 @@
+/**
+ * @file This file contains the catalogue of poses the model can be asked to hold.
+ * Poses are grouped by discipline so gymnastics and skating catalogues can use
+ * sport-specific positions. Each pose carries the directive sent to the model and
+ * a small stick-figure thumbnail drawn in a 100x100 SVG viewBox.
+ */
+
+/**
+ * The disciplines a pose can belong to.
+ */
+export type PoseDiscipline = 'general' | 'gymnastics' | 'skating';
+
+/**
+ * Defines the structure for a single pose.
+ */
+export interface Pose {
+    id: string;
+    name: string;
+    discipline: PoseDiscipline;
+    /** The directive inserted into the prompt's "Pose" line. */
+    description: string;
+    /** The stick-figure thumbnail: the head position and an SVG path for body and limbs. */
+    figure: { head: [number, number]; path: string };
+}
+
+/**
+ * The disciplines, in display order, with their labels.
+ */
+export const poseDisciplines: { id: PoseDiscipline; label: string }[] = [
+    { id: 'general', label: 'General' },
+    { id: 'gymnastics', label: 'Gimnasia' },
+    { id: 'skating', label: 'Patinaje' },
+];
+
+/** The pose used when none has been chosen. */
+export const DEFAULT_POSE_ID = 'relaxed';
+
+/**
+ * An array of available poses.
+ */
+export const poses: Pose[] = [
+    // --- General ---
+    {
+        id: 'relaxed',
+        name: 'Relajada',
+        discipline: 'general',
+        description: "The model's pose must be calm and relaxed, with arms down, looking confidently at the camera with a gentle smile.",
+        figure: { head: [50, 15], path: 'M50 22 L50 55 M50 28 L40 50 M50 28 L60 50 M50 55 L44 88 M50 55 L56 88' },
+    },
+    {
+        id: 'hands-on-hips',
+        name: 'Manos en la cintura',
+        discipline: 'general',
+        description: 'The model stands tall with both hands on her hips, elbows out, weight on one leg, looking confidently at the camera.',
+        figure: { head: [50, 15], path: 'M50 22 L50 55 M50 28 L38 38 L46 52 M50 28 L62 38 L54 52 M50 55 L44 88 M50 55 L58 88' },
+    },
+    {
+        id: 'walking',
+        name: 'Caminando',
+        discipline: 'general',
+        description: 'The model walks towards the camera mid-stride, arms swinging naturally, as in a runway shot.',
+        figure: { head: [50, 15], path: 'M50 22 L50 55 M50 28 L38 46 M50 28 L60 48 M50 55 L40 88 M50 55 L60 72 L58 88' },
+    },
+    // --- Gymnastics ---
+    {
+        id: 'split',
+        name: 'Spagat',
+        discipline: 'gymnastics',
+        description: 'The model performs a full front split on the floor, legs fully extended in a straight line, torso upright and arms opened gracefully to the sides.',
+        figure: { head: [50, 40], path: 'M50 47 L50 72 M50 52 L30 38 M50 52 L70 38 M50 72 L10 80 M50 72 L90 80' },
+    },
+    {
+        id: 'arabesque',
+        name: 'Arabesque',
+        discipline: 'gymnastics',
+        description: 'The model holds an arabesque: standing on one straight leg, the other leg extended straight behind her at hip height or higher, torso slightly forward and arms extended.',
+        figure: { head: [26, 34], path: 'M50 55 L32 40 M32 40 L12 38 M32 40 L40 22 M50 55 L50 90 M50 55 L90 42' },
+    },
+    {
+        id: 'bridge',
+        name: 'Puente',
+        discipline: 'gymnastics',
+        description: 'The model performs a back bridge: hands and feet on the floor, back arched upwards, arms and legs straight, head dropped back between the arms.',
+        figure: { head: [26, 64], path: 'M20 85 L32 55 Q42 40 55 45 L68 62 L80 85' },
+    },
+    {
+        id: 'needle-scale',
+        name: 'Balanza en Y',
+        discipline: 'gymnastics',
+        description: 'The model holds a Y-scale: standing on one leg, the other leg raised straight to the side above her head and held with one hand, the free arm extended.',
+        figure: { head: [42, 17], path: 'M50 55 L44 25 M44 30 L72 18 M44 30 L22 30 M50 55 L50 90 M50 55 L78 12' },
+    },
+    {
+        id: 'split-leap',
+        name: 'Salto en spagat',
+        discipline: 'gymnastics',
+        description: 'The model is captured mid-air in a split leap, legs fully extended front and back, arms raised elegantly, with a sense of lightness.',
+        figure: { head: [50, 17], path: 'M50 50 L50 25 M50 30 L28 15 M50 30 L72 15 M50 50 L10 58 M50 50 L90 58' },
+    },
+    // --- Skating ---
+    {
+        id: 'scratch-spin',
+        name: 'Pirueta',
+        discipline: 'skating',
+        description: 'The model performs an upright scratch spin on the ice, legs crossed tightly, arms stretched above her head, with subtle motion blur suggesting rotation.',
+        figure: { head: [50, 15], path: 'M50 22 L50 55 M50 28 L45 6 M50 28 L55 6 M50 55 L50 90 M50 55 L56 88 M25 62 Q50 72 75 62' },
+    },
+    {
+        id: 'biellmann',
+        name: 'Biellmann',
+        discipline: 'skating',
+        description: 'The model performs a Biellmann position: standing on one leg, the free leg pulled up behind and above her head, holding the blade with both hands.',
+        figure: { head: [50, 20], path: 'M50 55 L50 28 M50 30 L56 10 M50 55 L50 90 M50 55 L70 40 L58 8' },
+    },
+    {
+        id: 'spiral',
+        name: 'Espiral',
+        discipline: 'skating',
+        description: 'The model glides in a spiral on the ice: torso parallel to the ice, free leg extended high behind her, arms extended forward and to the side.',
+        figure: { head: [14, 48], path: 'M50 55 L20 50 M28 51 L18 66 M28 51 L34 36 M50 55 L50 90 M50 55 L88 44' },
+    },
+];
@@ -0,0 +1,27 @@
+/**
+ * @file This file contains the defaults for projects and the collections images are filed in.
+ * A project groups the work for one client or club: its garment and model references
+ * and its generation history. Within a project, images can be filed into collections.
+ */
+
+/**
+ * Defines the structure for a collection images can be filed in.
+ */
+export interface Collection {
+    id: string;
+    name: string;
+}
+
+/** The id of the project that exists from the first run and holds any unassigned history. */
+export const DEFAULT_PROJECT_ID = 'default';
+
+/** The name given to the default project. */
+export const DEFAULT_PROJECT_NAME = 'Mi proyecto';
+
+/**
+ * The collections available in every project, in display order.
+ */
+export const collections: Collection[] = [
+    { id: 'shortlist', name: 'Preselección' },
+    { id: 'sent-to-client', name: 'Enviado al cliente' },
+];
@@ -0,0 +1,147 @@
+/**
+ * @file This file contains the built-in prompt templates used to talk to the image model.
+ * Templates are plain data so wording experiments don't require code changes: they are
+ * versioned, reference named variables with `{{name}}`, and include or skip whole lines
+ * with `{{#name}}` ... `{{/name}}` (when set) and `{{^name}}` ... `{{/name}}` (when empty).
+ * Section tags must sit on their own line.
+ */
+
+/**
+ * Defines the structure for a single, versioned prompt template.
+ */
+export interface PromptTemplate {
+    /** Identifies the template family. All versions of a template share the same id. */
+    id: string;
+    /** Increases by one every time a new version of the template is saved. */
+    version: number;
+    name: string;
+    /** The body used for new generations. */
+    generation: string;
+    /** The body used when refining an existing image. */
+    refinement: string;
+}
+
+/**
+ * Variables available to the generation body, with a short description for the editor.
+ */
+export const generationTemplateVariables: Record<string, string> = {
+    garment: "Label of the garment design image (e.g. 'Image 1').",
+    model: "Label of the model reference image (e.g. 'Image 2').",
+    backDesign: 'Label of the image showing the back of the garment, empty when none was uploaded.',
+    backgroundImage: 'Label of the background reference image, empty when none was uploaded.',
+    background: 'Description of the selected background.',
+    palette: 'Comma-separated hex colours of the selected palette, empty for the original colours.',
+    colorRoles: 'One bullet per garment region with the palette colours assigned to it, empty when no colour has a role.',
+    colorSwaps: 'One bullet per garment colour and the colour that replaces it, empty when the palette was not made by swapping colours.',
+    age: 'Description of the requested model age, empty to keep the original.',
+    pose: 'Description of the requested pose, empty for the default pose.',
+    poseImage: 'Label of the pose reference image, empty when none was uploaded.',
+    view: 'The camera view requested by the lookbook mode, empty for a free composition.',
+    anchorImage: 'Label of the first lookbook shot that later views must stay consistent with, empty otherwise.',
+    instructions: "The user's additional instructions.",
+    aspectRatio: 'The requested aspect ratio (e.g. 9:16).',
+    variation: 'A small perturbation that distinguishes a variant within a batch.',
+};
+
+/**
+ * Variables available to the refinement body.
+ */
+export const refinementTemplateVariables: Record<string, string> = {
+    instruction: "The user's refinement instruction.",
+};
+
+/** Variables every generation body must reference. */
+export const requiredGenerationVariables = ['garment', 'model'];
+
+/** Variables every refinement body must reference. */
+export const requiredRefinementVariables = ['instruction'];
+
+/**
+ * The default "photography director" template.
+ */
+const directorTemplate: PromptTemplate = {
+    id: 'director',
+    version: 1,
+    name: 'Director de fotografía',
+    generation: `You are a professional AI photography director. Your task is to generate a photorealistic image based on several input images and instructions. The final image must be of professional quality, suitable for a design portfolio.
+
+**Input Assets:**
+- {{garment}}: A 'garment design' to be applied to the model.
+{{#backDesign}}
+- {{backDesign}}: The 'back design' of the same garment, showing how its back is made (open back, straps, crossed designs).
+{{/backDesign}}
+- {{model}}: A 'model reference' of the person to be featured.
+{{#backgroundImage}}
+- {{backgroundImage}}: A 'background reference' to be used as the scene.
+{{/backgroundImage}}
+{{#poseImage}}
+- {{poseImage}}: A 'pose reference' showing the body position the model must adopt.
+{{/poseImage}}
+{{#anchorImage}}
+- {{anchorImage}}: An 'anchor shot' from the same photo session, showing the same model, garment, background and lighting.
+{{/anchorImage}}
+
+**Core Task:**
+Create a single, photorealistic image of the person from {{model}}, making them wear the garment design from {{garment}}, and placing them in the specified background.
+
+**Key Directives:**
+- **Model Fidelity:** The person in the final image MUST be based on {{model}}. If {{model}} is a photo, replicate the person accurately. If {{model}} is a drawing or sketch, transform it into a photorealistic person, but faithfully keeping the facial features, body type, and hair from the drawing.
+{{#age}}
+- **Age Adjustment:** Crucially, interpret the model with the appearance of {{age}}.
+{{/age}}
+{{#palette}}
+- **Garment Application:** Meticulously replicate the garment's design from {{garment}}: its cut, shape, patterns, and any embellishments like sequins. Crucially, the garment's colors MUST be changed to use only this palette: {{palette}}. The garment must fit the model's body naturally and realistically.
+{{/palette}}
+{{#colorRoles}}
+- **Color Placement:** Assign the palette colors to the regions of the garment exactly as follows. Palette colors not listed here may only be used for the remaining details.
+{{colorRoles}}
+{{/colorRoles}}
+{{#colorSwaps}}
+- **Color Replacements:** The palette was made by swapping some of the garment's own colors. Replace each of these colors of {{garment}} wherever it appears, and keep every other color exactly as it is:
+{{colorSwaps}}
+{{/colorSwaps}}
+{{^palette}}
+- **Garment Application:** Meticulously replicate the garment's design from {{garment}}: its cut, shape, patterns, and any embellishments like sequins. Crucially, the garment's original colors from {{garment}} MUST be preserved accurately. The garment must fit the model's body naturally and realistically.
+{{/palette}}
+{{#backDesign}}
+- **Back of the Garment:** Whenever the camera view or the pose shows the back of the garment, the back MUST replicate {{backDesign}} exactly: its neckline, openings, straps and crossings. Never invent a back design. When only the front is visible, use {{backDesign}} just to understand the garment.
+{{/backDesign}}
+{{#pose}}
+- **Pose:** {{pose}}
+{{/pose}}
+{{^pose}}
+{{^poseImage}}
+- **Pose:** The model's pose must be calm and relaxed, with arms down, looking confidently at the camera with a gentle smile.
+{{/poseImage}}
+{{/pose}}
+{{#poseImage}}
+- **Pose Reference:** The model MUST mimic the exact body pose shown in {{poseImage}}: the position of the arms, legs, torso and head, and the balance of the body. Take only the pose from {{poseImage}}; ignore the person, clothing and background in it.
+{{/poseImage}}
+{{#backgroundImage}}
+Use the background from {{backgroundImage}}. Integrate the model naturally.
+{{/backgroundImage}}
+{{^backgroundImage}}
+The background must be strictly: '{{background}}'.
+{{/backgroundImage}}
+{{#view}}
+- **Camera View:** {{view}}
+{{/view}}
+{{#anchorImage}}
+- **Session Consistency:** The person (face, hair, body), the garment, the background and the lighting MUST match {{anchorImage}} exactly, as if shot seconds apart in the same session. Only the camera view changes.
+{{/anchorImage}}
+- **Aspect Ratio:** The final image MUST be generated in a {{aspectRatio}} aspect ratio.
+{{#instructions}}
+- **Additional Instructions:** {{instructions}}
+{{/instructions}}
+{{#variation}}
+- **Variation:** {{variation}}
+{{/variation}}`,
+    refinement: `You are a professional AI photo editor. Your task is to artistically refine the provided image based on the user's instruction.
+Context: This image is for a professional sportswear design portfolio. All modifications must maintain a photorealistic and high-quality standard.
+Instruction: "{{instruction}}"`,
+};
+
+/**
+ * An array of the built-in prompt templates. The first one is the default.
+ */
+export const builtInPromptTemplates: PromptTemplate[] = [directorTemplate];
@@ -0,0 +1,36 @@
+/**
+ * @file This file contains the small prompt perturbations applied to batch variations.
+ * Each variant in a batch receives one of these hints so the candidates differ
+ * slightly from each other while still following the same directives.
+ */
+
+/**
+ * Subtle, non-conflicting changes that can be appended to any generation prompt.
+ */
+export const variationHints: string[] = [
+    'Shoot from a very slightly lower camera angle.',
+    'Shoot from a very slightly higher camera angle.',
+    "Turn the model a few degrees towards the model's left.",
+    "Turn the model a few degrees towards the model's right.",
+    'Use a slightly tighter framing around the model.',
+    'Use a slightly wider framing, showing a bit more of the scene.',
+    'Make the key light a touch softer and warmer.',
+    'Make the key light a touch crisper and cooler.',
+];
+
+/** The maximum number of variations that can be requested in a single batch. */
+export const MAX_VARIATIONS = 8;
+
+/** The maximum number of requests that may run at the same time. */
+export const MAX_CONCURRENCY = 4;
+
+/**
+ * Returns the hint for a given variant, or `undefined` for a single-image batch
+ * so that one-off generations keep the original prompt untouched.
+ * @param index - The zero-based position of the variant in the batch.
+ * @param total - The number of variants in the batch.
+ */
+export const getVariationHint = (index: number, total: number): string | undefined => {
+    if (total <= 1) return undefined;
+    return variationHints[index % variationHints.length];
+};
@@ -0,0 +1,41 @@
+/**
+ * @file This file contains the camera views used by the multi-view lookbook mode.
+ * A lookbook renders the same garment, model and background from several angles;
+ * the first selected view is generated first and anchors the others for consistency.
+ */
+
+/**
+ * Defines the structure for a single lookbook view.
+ */
+export interface LookbookView {
+    id: string;
+    label: string;
+    /** The directive inserted into the prompt's "Camera View" line. */
+    directive: string;
+}
+
+/**
+ * An array of the available views, in the order they are generated.
+ */
+export const lookbookViews: LookbookView[] = [
+    {
+        id: 'front',
+        label: 'Frente',
+        directive: 'Full-body front view: the model faces the camera directly, the whole front of the garment clearly visible.',
+    },
+    {
+        id: 'three-quarter',
+        label: 'Tres cuartos',
+        directive: 'Full-body three-quarter view: the model is turned about 45 degrees away from the camera, showing the front and one side of the garment.',
+    },
+    {
+        id: 'side',
+        label: 'Lateral',
+        directive: 'Full-body side profile view: the model is turned 90 degrees, showing the side of the garment and the silhouette.',
+    },
+    {
+        id: 'back',
+        label: 'Espalda',
+        directive: 'Full-body back view: the model faces away from the camera, the whole back of the garment clearly visible; the face is not visible.',
+    },
+];
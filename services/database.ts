@@ -0,0 +1,105 @@
+/**
+ * @file The IndexedDB database shared by the history and project stores.
+ * It owns the schema and its upgrades, and small helpers to await IndexedDB requests.
+ */
+import { DEFAULT_PROJECT_ID } from '../data/projects';
+
+const DB_NAME = 'aristic-photo-lab';
+const DB_VERSION = 2;
+
+/** Generated and refined images, one record per history entry. */
+export const IMAGES_STORE = 'images';
+/** Images referenced by history records, stored once by content hash. */
+export const ASSETS_STORE = 'assets';
+/** Projects, with their garment and model references. */
+export const PROJECTS_STORE = 'projects';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the database. The connection is shared.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+          images.createIndex('createdAt', 'createdAt');
+          images.createIndex('assetIds', 'assetIds', { multiEntry: true });
+          db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          const images = request.transaction!.objectStore(IMAGES_STORE);
+          images.createIndex('projectId', 'projectId');
+          // History stored before projects existed belongs to the default project.
+          images.openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            if (!cursor.value.projectId) {
+              cursor.update({ ...cursor.value, projectId: DEFAULT_PROJECT_ID });
+            }
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again if the database could not be opened.
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Resolves with the result of an IndexedDB request.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves when a transaction commits, and rejects if it fails or is aborted.
+ */
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted.', 'AbortError'));
+  });
+
+/**
+ * Collects the values a cursor request walks over, stopping early when `take` says so.
+ * @param request - The cursor request.
+ * @param take - Decides whether a value is collected, and whether to stop afterwards.
+ */
+export const collectCursor = <T>(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  take: (value: T, collected: T[]) => 'take' | 'skip' | 'stop' = () => 'take'
+): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const collected: T[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(collected);
+        return;
+      }
+      const decision = take(cursor.value as T, collected);
+      if (decision === 'stop') {
+        resolve(collected);
+        return;
+      }
+      if (decision === 'take') collected.push(cursor.value as T);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,101 @@
+/**
+ * @file Typed errors raised by the image-generation pipeline.
+ * Each error class describes one failure mode so callers can react to it
+ * (retry automatically, show tailored guidance) instead of parsing messages.
+ */
+
+/**
+ * Base class for every error raised while generating or refining an image.
+ */
+export class ImageGenerationError extends Error {
+  /** Whether retrying the same request may succeed. */
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ImageGenerationError';
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * The request or the generated output was blocked by the model's safety filters.
+ */
+export class SafetyBlockedError extends ImageGenerationError {
+  /** The safety categories that triggered the block (may be empty). */
+  readonly categories: string[];
+
+  constructor(categories: string[], options: { cause?: unknown } = {}) {
+    super(`The request was blocked due to safety policies regarding: ${categories.join(', ') || 'unspecified category'}. Please adjust your images or prompts.`, options);
+    this.name = 'SafetyBlockedError';
+    this.categories = categories;
+  }
+}
+
+/**
+ * The model answered, but without an image. Its textual explanation is kept as `reason`.
+ */
+export class NoImageReturnedError extends ImageGenerationError {
+  /** The text the model returned instead of an image, if any. */
+  readonly reason?: string;
+
+  constructor(reason?: string, options: { cause?: unknown } = {}) {
+    super(`The AI did not return an image. Reason: ${reason || 'No specific reason provided.'}`, options);
+    this.name = 'NoImageReturnedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The provider rejected the request because too many were sent. Transient.
+ */
+export class RateLimitError extends ImageGenerationError {
+  /** How long the provider asked us to wait before retrying, when it said so. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { retryable: true, cause: options.cause });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The provider could not be reached, or failed with a server-side error. Transient.
+ */
+export class NetworkError extends ImageGenerationError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { retryable: true, cause: options.cause });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request itself is invalid (missing or unsupported inputs, bad parameters).
+ * Retrying will not help until the inputs change.
+ */
+export class InvalidInputError extends ImageGenerationError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * The request was cancelled by the user before it completed.
+ * Its result, if one ever arrives, must be discarded.
+ */
+export class GenerationCancelledError extends ImageGenerationError {
+  constructor(options: { cause?: unknown } = {}) {
+    super('The request was cancelled.', options);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/**
+ * Tells whether an error is worth retrying automatically.
+ * @param error - Any thrown value.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  return error instanceof ImageGenerationError && error.retryable;
+};
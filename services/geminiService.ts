@@ -1,20 +1,20 @@
 /**
- * @file Service for interacting with the Google Gemini API.
- * This module abstracts the API calls for generating and refining artistic photos.
- * It handles prompt construction, API requests, and response processing.
+ * @file Service for generating and refining artistic photos.
+ * It handles prompt construction and delegates the actual request to the active
+ * image-generation provider (see `imageGenerationProvider.ts`).
  */
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import type { ImageData } from '../types';
-
-// Ensure the API key is available, logging an error if not.
-// The app's functionality depends on this key.
-if (!process.env.API_KEY) {
-    console.error("API_KEY environment variable not set.");
-}
-
-// Initialize the GoogleGenAI client with the API key from environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+import type { ImageData, OutputSize, FitMode } from '../types';
+import { getActiveProvider } from './imageGenerationProvider';
+import type { ContentPart } from './imageGenerationProvider';
+import { ImageGenerationError, RateLimitError, GenerationCancelledError, isRetryableError } from './errors';
+import { retryWithBackoff } from '../utils/retry';
+import { fitImageToSize, loadImage, imageDataToDataUrl } from '../utils/imageUtils';
+import { DEFAULT_PROMPT_TEMPLATE, renderTemplateBody } from './promptTemplates';
+import type { TemplateVariables } from './promptTemplates';
+import type { PromptTemplate } from '../data/promptTemplates';
+import { paletteRoles } from '../data/palettes';
+import type { PaletteRoleId, ColorSwap } from '../data/palettes';
 
 /**
  * Defines the parameters required to generate an artistic photo.
@@ -26,178 +26,275 @@ export interface GenerationParams {
   background: string;
   modelAge: string;
   aspectRatio: string;
+  /** The exact size the returned image is cropped or padded to. Left as returned when omitted. */
+  outputSize?: OutputSize;
+  /** How the returned image is brought to `outputSize`. Defaults to 'crop'. */
+  fitMode?: FitMode;
   paletteColors?: string[];
+  /** The region of the garment each palette colour is assigned to, by hex code. Unassigned colours are used freely. */
+  colorRoles?: Record<string, PaletteRoleId>;
+  /** Garment colours to replace one for one, keeping the others; set when the palette was made by swapping them. */
+  colorSwaps?: ColorSwap[];
   backgroundImage?: ImageData;
+  /** An optional image of the back of the garment, used whenever the back is visible. */
+  backDesignImage?: ImageData;
+  /** The pose directive, usually the description of a pose from `data/poses.ts`. */
+  poseDescription?: string;
+  /** An optional image whose body pose the model must mimic. */
+  poseReferenceImage?: ImageData;
+  /** The camera view directive, set by the lookbook mode. */
+  viewDirective?: string;
+  /** A previous shot of the same session that this image must stay consistent with. */
+  anchorImage?: ImageData;
+  /** A small prompt perturbation that distinguishes this variant within a batch. */
+  variationHint?: string;
+  /** The prompt template to render; the default template is used when omitted. */
+  promptTemplate?: PromptTemplate;
 }
 
 /**
- * Constructs the detailed textual prompt for the Gemini API based on user inputs.
- * The prompt is structured to give the AI a clear role and directives.
- * @param params - The generation parameters.
- * @returns The fully constructed prompt string.
+ * Describes a successfully produced image and how it was produced.
  */
-const getAgeInstruction = (modelAge: string): string => {
-    const ageInstructionMap: { [key: string]: string } = {
-        'child': 'a child, approximately 6-9 years old',
-        'pre-teen': 'a pre-teen, approximately 10-12 years old',
-        'teenager': 'a teenager, approximately 13-16 years old',
-        'young-adult': 'a young adult, approximately 18-25 years old'
-    };
-    const ageText = ageInstructionMap[modelAge];
-    return ageText ? `- **Age Adjustment:** Crucially, interpret the model with the appearance of ${ageText}.` : "";
+export interface GenerationResult {
+  /** The data URL of the image. */
+  imageUrl: string;
+  /** The final prompt text sent to the provider. */
+  prompt: string;
+  /** The id of the prompt template that produced the prompt. */
+  templateId: string;
+  /** The version of the prompt template that produced the prompt. */
+  templateVersion: number;
+  /** The model that produced the image. */
+  model: string;
+}
+
+/**
+ * The generation parameters kept with a result. The template is recorded on the result
+ * itself, and a lookbook's anchor image is left out since it is another generated image.
+ */
+export type RecordedGenerationParams = Omit<GenerationParams, 'promptTemplate' | 'anchorImage'>;
+
+/**
+ * Pairs a generated image with what produced it: either the full generation parameters,
+ * or the refinement instruction and the image it was applied to.
+ */
+export type GenerationRecord =
+  | { kind: 'generation'; params: RecordedGenerationParams }
+  | { kind: 'refinement'; refinementPrompt: string; sourceImage: ImageData };
+
+/** Human-readable descriptions for each model age option. */
+const ageDescriptions: { [key: string]: string } = {
+    'child': 'a child, approximately 6-9 years old',
+    'pre-teen': 'a pre-teen, approximately 10-12 years old',
+    'teenager': 'a teenager, approximately 13-16 years old',
+    'young-adult': 'a young adult, approximately 18-25 years old'
 };
 
-const getGarmentApplicationInstruction = (paletteColors?: string[]): string => {
-    const intro = "Meticulously replicate the garment's design from Image 1: its cut, shape, patterns, and any embellishments like sequins.";
-    const fit = "The garment must fit the model's body naturally and realistically.";
-    let colorInstruction = "Crucially, the garment's original colors from Image 1 MUST be preserved accurately.";
+/**
+ * The optional images a generation may carry, in the order they are attached after
+ * the garment (Image 1) and the model (Image 2), with the template variable naming each.
+ */
+const OPTIONAL_IMAGE_SLOTS = [
+    { variable: 'backDesign', param: 'backDesignImage' },
+    { variable: 'backgroundImage', param: 'backgroundImage' },
+    { variable: 'poseImage', param: 'poseReferenceImage' },
+    { variable: 'anchorImage', param: 'anchorImage' },
+] as const;
 
-    if (paletteColors && paletteColors.length > 0) {
-        colorInstruction = `Crucially, the garment's colors MUST be changed to use only this palette: ${paletteColors.join(', ')}.`;
-    }
-    
-    return `- **Garment Application:** ${intro} ${colorInstruction} ${fit}`;
+/**
+ * Lists the optional images present in the parameters, in attachment order.
+ * @param params - The generation parameters.
+ * @returns The template variable and image data of each attached optional image.
+ */
+const getOptionalImages = (params: Omit<GenerationParams, 'garmentImage' | 'modelImage'>): { variable: string; image: ImageData }[] => {
+    return OPTIONAL_IMAGE_SLOTS
+        .filter(slot => params[slot.param])
+        .map(slot => ({ variable: slot.variable, image: params[slot.param]! }));
+};
+
+/**
+ * Builds the record kept with a generated image from the parameters that produced it.
+ * @param params - The generation parameters.
+ * @returns The generation record.
+ */
+export const toGenerationRecord = (params: GenerationParams): GenerationRecord => {
+    const { promptTemplate, anchorImage, ...recorded } = params;
+    return { kind: 'generation', params: recorded };
 };
 
-const getBackgroundInstruction = (background: string, hasBackgroundImage?: boolean): string => {
-    return hasBackgroundImage
-        ? "Use the background from Image 3. Integrate the model naturally."
-        : `The background must be strictly: '${background}'.`;
+/**
+ * Turns the roles of the palette colours into one directive per garment region.
+ * @param params - The generation parameters.
+ * @returns The directives, one indented bullet per line; undefined when no colour has a role.
+ */
+const describeColorRoles = (params: Omit<GenerationParams, 'garmentImage' | 'modelImage'>): string | undefined => {
+    const colors = params.paletteColors ?? [];
+    const roles = params.colorRoles ?? {};
+    const directives = paletteRoles
+        .map(role => ({ role, colors: colors.filter(color => roles[color] === role.id) }))
+        .filter(entry => entry.colors.length > 0)
+        .map(({ role, colors }) => `  - ${role.region} MUST be ${colors.join(' and ')}.`);
+    return directives.length > 0 ? directives.join('\n') : undefined;
 };
 
-const buildPrompt = (params: Omit<GenerationParams, 'garmentImage' | 'modelImage'>): string => {
-    const { instructions, background, aspectRatio, paletteColors, backgroundImage, modelAge } = params;
-
-    const promptSections = [
-        "You are a professional AI photography director. Your task is to generate a photorealistic image based on several input images and instructions. The final image must be of professional quality, suitable for a design portfolio.",
-        "",
-        "**Input Assets:**",
-        "- Image 1: A 'garment design' to be applied to the model.",
-        "- Image 2: A 'model reference' of the person to be featured.",
-        backgroundImage ? "- Image 3: A 'background reference' to be used as the scene." : null,
-        "",
-        "**Core Task:**",
-        "Create a single, photorealistic image of the person from Image 2, making them wear the garment design from Image 1, and placing them in the specified background.",
-        "",
-        "**Key Directives:**",
-        "- **Model Fidelity:** The person in the final image MUST be based on Image 2. If Image 2 is a photo, replicate the person accurately. If Image 2 is a drawing or sketch, transform it into a photorealistic person, but faithfully keeping the facial features, body type, and hair from the drawing.",
-        getAgeInstruction(modelAge),
-        getGarmentApplicationInstruction(paletteColors),
-        "- **Pose:** The model's pose must be calm and relaxed, with arms down, looking confidently at the camera with a gentle smile.",
-        getBackgroundInstruction(background, !!backgroundImage),
-        `- **Aspect Ratio:** The final image MUST be generated in a ${aspectRatio} aspect ratio.`,
-        instructions ? `- **Additional Instructions:** ${instructions}` : null,
-    ];
-
-    return promptSections.filter(line => line !== null).join('\n');
+/**
+ * Turns colour swaps into one replacement directive per colour.
+ * @param params - The generation parameters.
+ * @returns The directives, one indented bullet per line; undefined when no colour is swapped.
+ */
+const describeColorSwaps = (params: Omit<GenerationParams, 'garmentImage' | 'modelImage'>): string | undefined => {
+    const swaps = params.colorSwaps ?? [];
+    return swaps.length > 0 ? swaps.map(({ from, to }) => `  - Replace ${from} with ${to}.`).join('\n') : undefined;
 };
 
+/**
+ * Maps generation parameters onto the variables understood by prompt templates.
+ * Image labels follow the order in which `generateArtisticPhoto` attaches the images.
+ * @param params - The generation parameters.
+ * @returns The template variables.
+ */
+const buildTemplateVariables = (params: Omit<GenerationParams, 'garmentImage' | 'modelImage'>): TemplateVariables => ({
+    garment: 'Image 1',
+    model: 'Image 2',
+    ...Object.fromEntries(getOptionalImages(params).map((slot, index) => [slot.variable, `Image ${index + 3}`])),
+    background: params.background,
+    palette: params.paletteColors?.join(', '),
+    colorRoles: describeColorRoles(params),
+    colorSwaps: describeColorSwaps(params),
+    age: ageDescriptions[params.modelAge],
+    pose: params.poseDescription,
+    view: params.viewDirective,
+    instructions: params.instructions,
+    aspectRatio: params.aspectRatio,
+    variation: params.variationHint,
+});
 
 /**
- * Processes the response from the Gemini API.
- * It handles both successful image generation and various error cases, such as safety blocks.
- * @param response - The raw response object from `ai.models.generateContent`.
- * @returns A data URL string for the generated image.
- * @throws An error if the request was blocked or if no image was returned.
+ * Constructs the detailed textual prompt by rendering the generation template
+ * (the one in `params.promptTemplate`, or the default) with the user's inputs.
+ * @param params - The generation parameters.
+ * @returns The fully constructed prompt string.
  */
-const processApiResponse = (response: GenerateContentResponse): string => {
-    // Check if the generation was blocked by safety filters.
-    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-        const safetyRatings = response.candidates[0].safetyRatings;
-        const blockedCategories = safetyRatings
-            .filter((r: any) => r.blocked)
-            .map((r: any) => r.category)
-            .join(', ');
-        throw new Error(`The request was blocked due to safety policies regarding: ${blockedCategories || 'unspecified category'}. Please adjust your images or prompts.`);
-    }
+export const buildPrompt = (params: Omit<GenerationParams, 'garmentImage' | 'modelImage'>): string => {
+    const template = params.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
+    return renderTemplateBody(template.generation, buildTemplateVariables(params));
+};
 
-    // On success, find the image data in the response parts.
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            const base64ImageBytes: string = part.inlineData.data;
-            const mimeType = part.inlineData.mimeType;
-            return `data:${mimeType};base64,${base64ImageBytes}`;
-        }
-    }
-    
-    // If no image is found, use the convenience 'text' accessor to find a reason.
-    const reason = response.text?.trim();
-    
-    throw new Error(`The AI did not return an image. Reason: ${reason || "No specific reason provided."}`);
-}
+/**
+ * Constructs the refinement prompt by rendering the refinement template.
+ * @param refinementPrompt - The user's instruction for what to change.
+ * @param template - The template to render; defaults to the default template.
+ * @returns The fully constructed prompt string.
+ */
+export const buildRefinementPrompt = (refinementPrompt: string, template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE): string => {
+    return renderTemplateBody(template.refinement, { instruction: refinementPrompt });
+};
+
+/** Retry policy for transient failures (rate limits, network and server errors). */
+const RETRY_OPTIONS = {
+    maxAttempts: 3,
+    baseDelayMs: 1500,
+    maxDelayMs: 12000,
+};
 
 /**
- * A shared function to execute content generation requests to the Gemini API.
- * This encapsulates the common logic for making the API call and handling errors.
+ * A shared function to execute content generation requests through the active provider.
+ * Transient failures are retried automatically with exponential backoff; the final
+ * failure is rethrown as one of the typed errors from `errors.ts`.
  * @param parts - The array of parts (text, images) for the multimodal request.
  * @param taskDescription - A string describing the task (e.g., "generation", "refinement") for error logging.
+ * @param options - The desired aspect ratio, forwarded to the provider when known, and an abort signal.
  * @returns A promise that resolves to the data URL of the generated image.
+ * @throws {GenerationCancelledError} If the signal was aborted before the request completed.
  */
 const executeContentGeneration = async (
-    parts: (({ text: string } | { inlineData: { data: string; mimeType: string; } }))[],
-    taskDescription: string
+    parts: ContentPart[],
+    taskDescription: string,
+    options: { aspectRatio?: string; signal?: AbortSignal } = {}
 ): Promise<string> => {
+    const { aspectRatio, signal } = options;
+    const provider = getActiveProvider();
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: { parts },
-            config: {
-                // We expect the model to be able to return both image and text (for error reasons).
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
+        signal?.throwIfAborted();
+        const result = await retryWithBackoff(() => provider.generateImage({ parts, aspectRatio, signal }), {
+            ...RETRY_OPTIONS,
+            signal,
+            shouldRetry: isRetryableError,
+            getDelayOverride: (error) => (error instanceof RateLimitError ? error.retryAfterMs : undefined),
+            onRetry: (error, attempt, delayMs) => {
+                console.warn(`Photo ${taskDescription} attempt ${attempt} failed, retrying in ${delayMs}ms:`, error);
             },
         });
-        return processApiResponse(response);
+        // A provider may ignore the signal; never hand back a result for a cancelled request.
+        signal?.throwIfAborted();
+        return result;
     } catch (error) {
-        console.error(`Error during photo ${taskDescription} with Gemini:`, error);
-        if (error instanceof Error) {
-            throw new Error(`Failed to complete image ${taskDescription}: ${error.message}`);
+        if (signal?.aborted) {
+            throw error instanceof GenerationCancelledError ? error : new GenerationCancelledError({ cause: error });
         }
-        throw new Error(`An unknown error occurred during image ${taskDescription}.`);
+        console.error(`Error during photo ${taskDescription} with ${provider.label}:`, error);
+        if (error instanceof ImageGenerationError) {
+            throw error;
+        }
+        const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+        throw new ImageGenerationError(`Failed to complete image ${taskDescription}: ${message}`, { cause: error });
     }
 };
 
 /**
- * Generates a new artistic photo by sending a complex multimodal prompt to the Gemini API.
+ * Generates a new artistic photo by sending a complex multimodal prompt to the active provider.
  * @param params - The complete set of parameters for the image generation.
- * @returns A promise that resolves to the data URL of the generated image.
+ * @param signal - An optional signal to cancel the request.
+ * @returns A promise that resolves to the generated image and the template version that produced it.
  */
-export const generateArtisticPhoto = async (params: GenerationParams): Promise<string> => {
+export const generateArtisticPhoto = async (params: GenerationParams, signal?: AbortSignal): Promise<GenerationResult> => {
+    const template = params.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
     const prompt = buildPrompt(params);
 
     // Assemble the different parts of the multimodal request.
     const textPart = { text: prompt };
     const garmentImagePart = {
         inlineData: { data: params.garmentImage.base64, mimeType: params.garmentImage.mimeType },
+        label: 'garment',
     };
     const modelImagePart = {
         inlineData: { data: params.modelImage.base64, mimeType: params.modelImage.mimeType },
+        label: 'model',
     };
     
-    const imageParts = [garmentImagePart, modelImagePart];
-
-    // Add the background image if one was provided.
-    if (params.backgroundImage) {
-        const backgroundImagePart = {
-            inlineData: { data: params.backgroundImage.base64, mimeType: params.backgroundImage.mimeType },
-        };
-        imageParts.push(backgroundImagePart);
-    }
+    const imageParts: ContentPart[] = [garmentImagePart, modelImagePart];
+
+    // Add the optional images (back design, background, pose reference, anchor shot) that were provided, in slot order.
+    getOptionalImages(params).forEach(({ variable, image }) => {
+        imageParts.push({ inlineData: { data: image.base64, mimeType: image.mimeType }, label: variable });
+    });
 
     const parts = [...imageParts, textPart];
 
-    return executeContentGeneration(parts, 'generation');
+    const rawImageUrl = await executeContentGeneration(parts, 'generation', { aspectRatio: params.aspectRatio, signal });
+
+    // The model does not always honour the requested ratio, so enforce the exact size ourselves.
+    const imageUrl = params.outputSize
+        ? await fitImageToSize(rawImageUrl, params.outputSize, params.fitMode ?? 'crop')
+        : rawImageUrl;
+    if (signal?.aborted) throw new GenerationCancelledError();
+    return { imageUrl, prompt, templateId: template.id, templateVersion: template.version, model: getActiveProvider().model };
 };
 
 /**
  * Refines an existing image based on a textual instruction.
  * @param baseImage - The image to be refined.
  * @param refinementPrompt - The user's instruction for what to change.
- * @returns A promise that resolves to the data URL of the refined image.
+ * @param options - An optional signal to cancel the request, and the prompt template to use.
+ * @returns A promise that resolves to the refined image and the template version that produced it.
  */
-export const refineArtisticPhoto = async (baseImage: ImageData, refinementPrompt: string): Promise<string> => {
-    const professionalRefinementPrompt = `You are a professional AI photo editor. Your task is to artistically refine the provided image based on the user's instruction.
-Context: This image is for a professional sportswear design portfolio. All modifications must maintain a photorealistic and high-quality standard.
-Instruction: "${refinementPrompt}"`;
+export const refineArtisticPhoto = async (
+    baseImage: ImageData,
+    refinementPrompt: string,
+    options: { signal?: AbortSignal; promptTemplate?: PromptTemplate } = {}
+): Promise<GenerationResult> => {
+    const template = options.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
+    const professionalRefinementPrompt = buildRefinementPrompt(refinementPrompt, template);
     
     const textPart = { text: professionalRefinementPrompt };
     const imagePart = {
@@ -206,5 +303,17 @@ Instruction: "${refinementPrompt}"`;
     
     const parts = [imagePart, textPart];
 
-    return executeContentGeneration(parts, 'refinement');
+    const rawImageUrl = await executeContentGeneration(parts, 'refinement', { signal: options.signal });
+
+    // Keep the refined image at exactly the size of the image it was refined from.
+    const source = await loadImage(imageDataToDataUrl(baseImage));
+    const imageUrl = await fitImageToSize(rawImageUrl, { width: source.naturalWidth, height: source.naturalHeight }, 'crop');
+    if (options.signal?.aborted) throw new GenerationCancelledError();
+    return {
+        imageUrl,
+        prompt: professionalRefinementPrompt,
+        templateId: template.id,
+        templateVersion: template.version,
+        model: getActiveProvider().model,
+    };
 };
\ No newline at end of file
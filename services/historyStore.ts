@@ -0,0 +1,276 @@
+/**
+ * @file Service for persisting the results history in IndexedDB.
+ * Every generated or refined image is stored as soon as it is recorded, together with
+ * its generation record, and each project's history is reloaded when it is opened.
+ * The images inside a record are stored once, keyed by a hash of their content, and
+ * shared between entries.
+ * Old entries are evicted to keep the history within its entry and storage limits, except
+ * those the user marked as favourite, rated or filed in a collection.
+ */
+import type { GeneratedImage, ImageData, ImageReview } from '../types';
+import type { GenerationRecord } from './geminiService';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  collectCursor,
+  IMAGES_STORE,
+  ASSETS_STORE,
+} from './database';
+import { mapLeaves, isImageData } from '../utils/records';
+
+/** The maximum number of entries kept across all projects; the oldest unmarked ones are evicted first. */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/** The fraction of the browser's storage quota the app may use before old entries are evicted. */
+const MAX_QUOTA_USAGE = 0.8;
+
+/** How many of the oldest entries are evicted at once when storage runs short. */
+const EVICTION_BATCH = 10;
+
+/**
+ * An image inside a stored record, replaced by a reference to its shared asset.
+ */
+interface AssetReference {
+  assetId: string;
+}
+
+/**
+ * A history entry as stored: the images of its record are replaced by asset references.
+ */
+interface StoredImage extends Omit<GeneratedImage, 'record'> {
+  record?: unknown;
+  /** The ids of the assets the record references, indexed to find the entries still using an asset. */
+  assetIds?: string[];
+}
+
+/**
+ * An input image stored once and shared by every entry that used it.
+ */
+interface StoredAsset extends ImageData {
+  id: string;
+}
+
+/**
+ * The outcome of storing a history entry.
+ */
+export interface HistorySaveResult {
+  /** The ids of the older entries evicted to make room. */
+  evictedIds: string[];
+  /** Whether the history is still over its limits because only marked or just saved entries are left to evict. */
+  isFull: boolean;
+}
+
+/**
+ * How much storage the origin is using, in bytes, as estimated by the browser.
+ */
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+/**
+ * Derives a content-based id for an input image, so identical inputs are stored once.
+ */
+const hashImage = async (image: ImageData): Promise<string> => {
+  const bytes = new TextEncoder().encode(`${image.mimeType};${image.base64}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Whether the user marked an entry as worth keeping, so it is never evicted automatically. */
+const isMarked = (entry: StoredImage): boolean =>
+  !!entry.favorite || (entry.rating ?? 0) > 0 || (entry.collectionIds?.length ?? 0) > 0;
+
+const isAssetReference = (value: unknown): value is AssetReference =>
+  !!value && typeof value === 'object' && typeof (value as AssetReference).assetId === 'string';
+
+/**
+ * Deletes entries within a transaction, then any asset no remaining entry uses.
+ * @param transaction - A read-write transaction over the images and assets stores.
+ * @param entries - The stored entries to delete.
+ */
+const deleteEntries = async (transaction: IDBTransaction, entries: StoredImage[]): Promise<void> => {
+  const images = transaction.objectStore(IMAGES_STORE);
+  entries.forEach(entry => images.delete(entry.id));
+
+  const orphanCandidates = new Set(entries.flatMap(entry => entry.assetIds ?? []));
+  for (const assetId of orphanCandidates) {
+    const users = await requestToPromise(images.index('assetIds').count(assetId));
+    if (users === 0) {
+      transaction.objectStore(ASSETS_STORE).delete(assetId);
+    }
+  }
+};
+
+/**
+ * Deletes the oldest unmarked entries, across all projects, and the assets only they used.
+ * @param count - How many entries to evict.
+ * @param keepIds - Entries that must not be evicted, such as the one just saved.
+ * @returns The ids of the evicted entries; fewer than `count` when only marked entries are left.
+ */
+const evictOldest = async (count: number, keepIds: string[] = []): Promise<string[]> => {
+  if (count <= 0) return [];
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, ASSETS_STORE], 'readwrite');
+  const done = transactionToPromise(transaction);
+
+  const evicted = await collectCursor<StoredImage>(
+    transaction.objectStore(IMAGES_STORE).index('createdAt').openCursor(),
+    (entry, collected) => (collected.length >= count ? 'stop' : keepIds.includes(entry.id) || isMarked(entry) ? 'skip' : 'take')
+  );
+  await deleteEntries(transaction, evicted);
+
+  await done;
+  return evicted.map(entry => entry.id);
+};
+
+/**
+ * Evicts old unmarked entries while the history is over its entry limit or the storage quota runs short.
+ * @param keepIds - The entries that must survive, usually the ones just saved.
+ */
+const enforceLimits = async (keepIds: string[]): Promise<HistorySaveResult> => {
+  const db = await openDatabase();
+  const count = await requestToPromise(db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).count());
+  const excess = count - MAX_HISTORY_ENTRIES;
+  const evictedIds = await evictOldest(excess, keepIds);
+  let isFull = evictedIds.length < excess;
+
+  const usage = await getStorageUsage();
+  if (usage && usage.quota > 0 && usage.usage / usage.quota > MAX_QUOTA_USAGE) {
+    const freed = await evictOldest(EVICTION_BATCH, keepIds);
+    evictedIds.push(...freed);
+    isFull ||= freed.length === 0;
+  }
+  return { evictedIds, isFull };
+};
+
+/**
+ * Stores history entries and their input images in one go, then evicts older entries once,
+ * so a large batch never evicts its own entries.
+ * When the browser refuses the write for lack of space, the oldest unmarked entries are evicted
+ * and the write is attempted once more.
+ * @param images - The entries to store.
+ * @throws An error if the storage is full and only marked entries are left to evict.
+ */
+export const saveHistoryImages = async (images: GeneratedImage[]): Promise<HistorySaveResult> => {
+  const assets = new Map<string, StoredAsset>();
+  const stored = await Promise.all(images.map(async (image): Promise<StoredImage> => {
+    const assetIds = new Set<string>();
+    const storedRecord = await mapLeaves(image.record, isImageData, async (data): Promise<AssetReference> => {
+      const id = await hashImage(data);
+      assets.set(id, { id, base64: data.base64, mimeType: data.mimeType });
+      assetIds.add(id);
+      return { assetId: id };
+    });
+    return { ...image, record: storedRecord, assetIds: [...assetIds] };
+  }));
+  const ids = images.map(image => image.id);
+
+  const write = async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, ASSETS_STORE], 'readwrite');
+    assets.forEach(asset => transaction.objectStore(ASSETS_STORE).put(asset));
+    stored.forEach(entry => transaction.objectStore(IMAGES_STORE).put(entry));
+    await transactionToPromise(transaction);
+  };
+
+  const evicted: string[] = [];
+  try {
+    await write();
+  } catch (error) {
+    if (!isQuotaExceededError(error)) throw error;
+    evicted.push(...await evictOldest(EVICTION_BATCH, ids));
+    if (evicted.length === 0) {
+      throw new Error('The browser storage is full and only favourite, rated or filed entries are left.');
+    }
+    await write();
+  }
+  const { evictedIds, isFull } = await enforceLimits(ids);
+  return { evictedIds: [...evicted, ...evictedIds], isFull };
+};
+
+/**
+ * Stores a history entry and its input images (see `saveHistoryImages`).
+ * @param image - The entry to store.
+ */
+export const saveHistoryImage = (image: GeneratedImage): Promise<HistorySaveResult> => saveHistoryImages([image]);
+
+/**
+ * Loads a project's stored history, newest first, with the images of each record restored.
+ * Resolves to an empty history if the database cannot be read.
+ * @param projectId - The project whose history to load.
+ */
+export const loadHistory = async (projectId: string): Promise<GeneratedImage[]> => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, ASSETS_STORE], 'readonly');
+    const records = await requestToPromise(
+      transaction.objectStore(IMAGES_STORE).index('projectId').getAll(projectId)
+    ) as StoredImage[];
+
+    // Entries that shared an image keep sharing one object in memory too.
+    const assetIds = [...new Set(records.flatMap(record => record.assetIds ?? []))];
+    const assets = await Promise.all(
+      assetIds.map(id => requestToPromise(transaction.objectStore(ASSETS_STORE).get(id)) as Promise<StoredAsset | undefined>)
+    );
+    const assetsById = new Map<string, ImageData>(
+      assets
+        .filter((asset): asset is StoredAsset => !!asset)
+        .map(asset => [asset.id, { base64: asset.base64, mimeType: asset.mimeType }])
+    );
+
+    const entries = await Promise.all(records.map(async ({ record, assetIds, ...entry }): Promise<GeneratedImage> => {
+      const restored = await mapLeaves(record, isAssetReference, reference => assetsById.get(reference.assetId));
+      return restored ? { ...entry, record: restored as GenerationRecord } : entry;
+    }));
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Failed to load the stored history:', error);
+    return [];
+  }
+};
+
+/**
+ * Updates the fields of a stored entry the user can change, such as its collections or rating.
+ * @param id - The id of the entry.
+ * @param changes - The fields to change.
+ */
+export const updateHistoryImage = async (id: string, changes: Partial<ImageReview>): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+  const images = transaction.objectStore(IMAGES_STORE);
+  const stored = await requestToPromise(images.get(id)) as StoredImage | undefined;
+  if (stored) {
+    images.put({ ...stored, ...changes });
+  }
+  await transactionToPromise(transaction);
+};
+
+/**
+ * Deletes a project's stored entries and the assets only they used.
+ * @param projectId - The project whose history to delete.
+ */
+export const clearHistory = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, ASSETS_STORE], 'readwrite');
+  const done = transactionToPromise(transaction);
+  const entries = await requestToPromise(
+    transaction.objectStore(IMAGES_STORE).index('projectId').getAll(projectId)
+  ) as StoredImage[];
+  await deleteEntries(transaction, entries);
+  await done;
+};
+
+/**
+ * Reads the browser's estimate of the storage used by the app.
+ * @returns The usage and quota in bytes, or `null` when the browser cannot tell.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,70 @@
+/**
+ * @file Defines the contract shared by every image-generation backend.
+ * The rest of the app talks to this interface instead of a concrete SDK, so the
+ * active backend (the live Gemini API or the offline mock) can be swapped by configuration.
+ */
+
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+
+/**
+ * A single part of a multimodal request: either a text prompt or an inline image.
+ * An image may carry a label naming what it shows, such as 'garment' or 'backgroundImage',
+ * for providers that cannot read the prompt to tell the images apart.
+ */
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string }; label?: string };
+
+/**
+ * Everything a provider needs to produce one image.
+ */
+export interface ImageGenerationRequest {
+  /** The ordered multimodal parts (images first, then the prompt text). */
+  parts: ContentPart[];
+  /** The desired aspect ratio (e.g. "9:16"), when the caller knows it. */
+  aspectRatio?: string;
+  /** Aborts the request when signalled. Providers must stop as soon as possible. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of turning a multimodal request into an image.
+ */
+export interface ImageGenerationProvider {
+  /** A stable identifier used in configuration and logs. */
+  id: string;
+  /** A human-readable name for the backend. */
+  label: string;
+  /** The model the backend runs, recorded with every image it produces. */
+  model: string;
+  /**
+   * Generates a single image.
+   * @returns A promise that resolves to the data URL of the generated image.
+   */
+  generateImage: (request: ImageGenerationRequest) => Promise<string>;
+}
+
+/**
+ * All providers known to the app, keyed by their id.
+ */
+const providers: Record<string, ImageGenerationProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+/**
+ * Resolves the provider selected through the `IMAGE_PROVIDER` environment variable.
+ * Falls back to Gemini when the variable is unset or names an unknown provider.
+ * @returns The active image-generation provider.
+ */
+export const getActiveProvider = (): ImageGenerationProvider => {
+  const configuredId = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+  if (configuredId && providers[configuredId]) {
+    return providers[configuredId];
+  }
+  if (configuredId) {
+    console.warn(`Unknown IMAGE_PROVIDER "${configuredId}", falling back to "${geminiProvider.id}".`);
+  }
+  return geminiProvider;
+};
@@ -0,0 +1,220 @@
+/**
+ * @file Service for exporting history images as a print-ready PDF lookbook.
+ * The document opens with a cover page (club name, design name and date) followed by
+ * the images laid out 1, 2, 4 or 9 per page. Each image is captioned with the garment
+ * design it was made from and the swatches and hex codes of its palette.
+ */
+import type { GeneratedImage } from '../types';
+import { createPdfDocument, fitText, measureText, A4 } from '../utils/pdf';
+import type { PdfDocument, PdfImage, PdfPage } from '../utils/pdf';
+import { imageToJpeg, imageDataToDataUrl } from '../utils/imageUtils';
+import { getRootGenerationParams } from '../utils/lineage';
+import type { ColorPalette } from '../data/palettes';
+
+/** How many images each page of the lookbook holds. */
+export type LookbookLayout = 1 | 2 | 4 | 9;
+
+/** The available layouts, in order. */
+export const lookbookLayouts: LookbookLayout[] = [1, 2, 4, 9];
+
+/**
+ * What the lookbook shows.
+ */
+export interface LookbookOptions {
+  /** The images, in page order. */
+  images: GeneratedImage[];
+  /** The whole history, used to find the generation a refined image comes from. */
+  history: GeneratedImage[];
+  layout: LookbookLayout;
+  clubName: string;
+  designName: string;
+  /** The date printed on the cover. */
+  date: Date;
+  /** The palettes to name the recorded colours after: the built-in ones and the user's. */
+  palettes: ColorPalette[];
+}
+
+/** The page margin, in points. */
+const MARGIN = 40;
+/** The space between grid cells, in points. */
+const GUTTER = 14;
+/** The height of the running header and footer, in points. */
+const HEADER_HEIGHT = 28;
+const FOOTER_HEIGHT = 20;
+
+const TEXT_COLOR = '#1E293B';
+const MUTED_COLOR = '#64748B';
+const ACCENT_COLOR = '#0891B2';
+const RULE_COLOR = '#CBD5E1';
+
+/** The grid and type sizes of each layout. */
+const LAYOUT_GRIDS: Record<LookbookLayout, { columns: number; rows: number; fontSize: number; maxEdge: number }> = {
+  1: { columns: 1, rows: 1, fontSize: 11, maxEdge: 2000 },
+  2: { columns: 2, rows: 1, fontSize: 9, maxEdge: 1400 },
+  4: { columns: 2, rows: 2, fontSize: 8, maxEdge: 1200 },
+  9: { columns: 3, rows: 3, fontSize: 6.5, maxEdge: 800 },
+};
+
+/** The maximum edge of garment thumbnails, in pixels. */
+const THUMBNAIL_MAX_EDGE = 300;
+
+/**
+ * Adds images to a document once, however many times they are drawn.
+ */
+const createImageCache = (doc: PdfDocument) => {
+  const cache = new Map<string, Promise<PdfImage>>();
+  return (src: string, maxEdge: number): Promise<PdfImage> => {
+    const key = `${maxEdge}:${src}`;
+    let image = cache.get(key);
+    if (!image) {
+      image = imageToJpeg(src, maxEdge).then(jpeg => doc.addImage(jpeg.bytes, jpeg.width, jpeg.height));
+      cache.set(key, image);
+    }
+    return image;
+  };
+};
+
+/** Draws an image as large as fits a box, centred in it. */
+const drawContained = (page: PdfPage, image: PdfImage, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawnWidth = image.width * scale;
+  const drawnHeight = image.height * scale;
+  page.drawImage(image, x + (width - drawnWidth) / 2, y + (height - drawnHeight) / 2, drawnWidth, drawnHeight);
+};
+
+/**
+ * Lays out palette swatches with their hex codes, wrapping onto new lines.
+ * @returns The position of each swatch, relative to the top-left of the block, and the block height.
+ */
+const layoutSwatches = (colors: string[], width: number, fontSize: number) => {
+  const swatchSize = fontSize * 1.3;
+  const lineHeight = swatchSize + fontSize * 0.6;
+  const positions: { color: string; x: number; y: number }[] = [];
+  let x = 0;
+  let y = 0;
+  colors.forEach(color => {
+    const itemWidth = swatchSize + 3 + measureText(color.toUpperCase(), fontSize) + fontSize;
+    if (x > 0 && x + itemWidth > width) {
+      x = 0;
+      y += lineHeight;
+    }
+    positions.push({ color, x, y });
+    x += itemWidth;
+  });
+  return { positions, swatchSize, height: colors.length > 0 ? y + swatchSize : 0 };
+};
+
+/**
+ * Draws the cover page.
+ */
+const drawCover = (page: PdfPage, options: LookbookOptions, hero: PdfImage | null) => {
+  const { width, height } = A4;
+  page.fillRect(0, 0, width, 8, ACCENT_COLOR);
+  page.drawText('LOOKBOOK', MARGIN, MARGIN + 40, { size: 11, bold: true, color: ACCENT_COLOR });
+  page.drawText(fitText(options.clubName, width - MARGIN * 2, 34, true), MARGIN, MARGIN + 82, { size: 34, bold: true, color: TEXT_COLOR });
+  if (options.designName) {
+    page.drawText(fitText(options.designName, width - MARGIN * 2, 16), MARGIN, MARGIN + 110, { size: 16, color: TEXT_COLOR });
+  }
+  const date = options.date.toLocaleDateString('es-ES', { day: 'numeric', month: 'long', year: 'numeric' });
+  page.drawText(date, MARGIN, MARGIN + 132, { size: 12, color: MUTED_COLOR });
+
+  if (hero) {
+    const top = MARGIN + 160;
+    drawContained(page, hero, MARGIN, top, width - MARGIN * 2, height - top - MARGIN - FOOTER_HEIGHT);
+  }
+  page.drawText(`${options.images.length} ${options.images.length === 1 ? 'imagen' : 'imágenes'}`, MARGIN, height - MARGIN, {
+    size: 9,
+    color: MUTED_COLOR,
+  });
+};
+
+/**
+ * Builds the lookbook PDF.
+ * @param options - The images, layout and cover texts.
+ * @returns The PDF file.
+ */
+export const buildLookbookPdf = async (options: LookbookOptions): Promise<Blob> => {
+  const doc = createPdfDocument(A4);
+  const addImage = createImageCache(doc);
+  const grid = LAYOUT_GRIDS[options.layout];
+  const perPage = grid.columns * grid.rows;
+  const pageCount = Math.ceil(options.images.length / perPage);
+  const fontSize = grid.fontSize;
+
+  const hero = options.images[0] ? await addImage(options.images[0].url, LAYOUT_GRIDS[1].maxEdge) : null;
+  drawCover(doc.addPage(), options, hero);
+
+  const contentTop = MARGIN + HEADER_HEIGHT;
+  const contentHeight = A4.height - contentTop - MARGIN - FOOTER_HEIGHT;
+  const cellWidth = (A4.width - MARGIN * 2 - GUTTER * (grid.columns - 1)) / grid.columns;
+  const cellHeight = (contentHeight - GUTTER * (grid.rows - 1)) / grid.rows;
+  const thumbnailSize = fontSize * 4;
+  const captionGap = fontSize * 0.8;
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const page = doc.addPage();
+    const pageImages = options.images.slice(pageIndex * perPage, (pageIndex + 1) * perPage);
+
+    // Running header and footer.
+    page.drawText(fitText(options.clubName, A4.width / 2, 10, true), MARGIN, MARGIN + 10, { size: 10, bold: true, color: TEXT_COLOR });
+    if (options.designName) {
+      const designText = fitText(options.designName, A4.width / 2 - MARGIN, 10);
+      page.drawText(designText, A4.width - MARGIN - measureText(designText, 10), MARGIN + 10, { size: 10, color: MUTED_COLOR });
+    }
+    page.fillRect(MARGIN, MARGIN + 16, A4.width - MARGIN * 2, 0.75, RULE_COLOR);
+    const pageLabel = `${pageIndex + 1} / ${pageCount}`;
+    page.drawText(pageLabel, A4.width - MARGIN - measureText(pageLabel, 8), A4.height - MARGIN, { size: 8, color: MUTED_COLOR });
+
+    // Captions share one height on a page, so the images of a row line up.
+    const captions = pageImages.map(image => {
+      const params = getRootGenerationParams(options.history, image);
+      const colors = params?.paletteColors ?? [];
+      const palette = options.palettes.find(p => p.colors.join() === colors.join());
+      const swatches = layoutSwatches(colors, cellWidth, fontSize);
+      return { image, params, colors, palette, swatches };
+    });
+    const swatchHeight = Math.max(0, ...captions.map(caption => caption.swatches.height));
+    const captionHeight = thumbnailSize + (swatchHeight > 0 ? captionGap + swatchHeight : 0);
+
+    for (const [index, caption] of captions.entries()) {
+      const x = MARGIN + (index % grid.columns) * (cellWidth + GUTTER);
+      const y = contentTop + Math.floor(index / grid.columns) * (cellHeight + GUTTER);
+      const imageHeight = cellHeight - captionHeight - captionGap;
+
+      drawContained(page, await addImage(caption.image.url, grid.maxEdge), x, y, cellWidth, imageHeight);
+
+      // Garment thumbnail, then the design name and the palette name beside it.
+      const captionTop = y + imageHeight + captionGap;
+      let textX = x;
+      if (caption.params?.garmentImage) {
+        const garment = await addImage(imageDataToDataUrl(caption.params.garmentImage), THUMBNAIL_MAX_EDGE);
+        page.strokeRect(x, captionTop, thumbnailSize, thumbnailSize, RULE_COLOR);
+        drawContained(page, garment, x, captionTop, thumbnailSize, thumbnailSize);
+        textX += thumbnailSize + fontSize * 0.8;
+      }
+      const textWidth = x + cellWidth - textX;
+      const title = [options.designName, caption.image.label].filter(Boolean).join(' · ') || `Imagen ${pageIndex * perPage + index + 1}`;
+      page.drawText(fitText(title, textWidth, fontSize * 1.2, true), textX, captionTop + fontSize * 1.3, {
+        size: fontSize * 1.2,
+        bold: true,
+        color: TEXT_COLOR,
+      });
+      const paletteName = caption.colors.length === 0 ? 'Colores originales' : `Paleta ${caption.palette?.name ?? 'personalizada'}`;
+      page.drawText(fitText(paletteName, textWidth, fontSize), textX, captionTop + fontSize * 2.9, { size: fontSize, color: MUTED_COLOR });
+
+      // Palette swatches with their hex codes.
+      const swatchTop = captionTop + thumbnailSize + captionGap;
+      caption.swatches.positions.forEach(({ color, x: offsetX, y: offsetY }) => {
+        const size = caption.swatches.swatchSize;
+        page.fillRect(x + offsetX, swatchTop + offsetY, size, size, color);
+        page.strokeRect(x + offsetX, swatchTop + offsetY, size, size, RULE_COLOR, 0.25);
+        page.drawText(color.toUpperCase(), x + offsetX + size + 3, swatchTop + offsetY + size * 0.8, {
+          size: fontSize,
+          color: TEXT_COLOR,
+        });
+      });
+    }
+  }
+
+  return doc.toBlob();
+};
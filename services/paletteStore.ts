@@ -0,0 +1,261 @@
+/**
+ * @file Service for storing the user's own colour palettes, such as a club's official colours.
+ * Palettes are kept in localStorage and offered after the built-in ones. They can be
+ * exported and imported as JSON, or as ASE and GPL swatch files to exchange them with
+ * design tools. Only JSON files keep the garment region assigned to each colour.
+ */
+import { isColorRoles } from '../data/palettes';
+import type { ColorPalette, PaletteRoleId } from '../data/palettes';
+import { hexToRgb, rgbToHex } from '../utils/color';
+import { encodeAse, decodeAse, isAse, encodeGpl, decodeGpl, isGpl } from '../utils/swatchFiles';
+import type { SwatchGroup } from '../utils/swatchFiles';
+import { createZip, readZip } from '../utils/zip';
+
+/** localStorage key under which the palettes are kept. */
+const STORAGE_KEY = 'aristic-photo-lab:palettes';
+
+/** localStorage key under which the colour roles given to built-in palettes are kept. */
+const BUILT_IN_ROLES_KEY = 'aristic-photo-lab:palette-roles';
+
+/** Identifies palette files written by the app. */
+const PALETTE_FORMAT = 'aristic-photo-lab-palettes';
+
+/** The version of the file layout; bumped when it changes incompatibly. */
+const PALETTE_FORMAT_VERSION = 1;
+
+/** The most colours a palette can hold; the prompt gets harder to follow with more. */
+export const MAX_PALETTE_COLORS = 8;
+
+/** A file format palettes can be exported to. */
+export type PaletteFileFormat = 'json' | 'ase' | 'gpl';
+
+/** The export formats, in display order. */
+export const paletteFileFormats: { id: PaletteFileFormat; label: string }[] = [
+  { id: 'json', label: 'JSON' },
+  { id: 'ase', label: 'ASE (Adobe)' },
+  { id: 'gpl', label: 'GPL (GIMP)' },
+];
+
+/**
+ * A palette as written in a palette file: a colour group, with the roles of its colours.
+ */
+interface PaletteFileEntry extends SwatchGroup {
+  roles?: Record<string, PaletteRoleId>;
+}
+
+/**
+ * The contents of a palette file.
+ */
+interface PaletteFile {
+  format: typeof PALETTE_FORMAT;
+  version: number;
+  palettes: PaletteFileEntry[];
+}
+
+/** Whether a value is a list of 1 to `MAX_PALETTE_COLORS` hex colours. */
+const isPaletteColors = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.length <= MAX_PALETTE_COLORS
+  && value.every(color => typeof color === 'string' && hexToRgb(color) !== null);
+
+/**
+ * Keeps the roles of the colours a palette holds, with their hex codes normalised to uppercase.
+ * Anything that is not a set of colour roles is dropped.
+ */
+const pickRoles = (roles: unknown, colors: string[]): Record<string, PaletteRoleId> => {
+  if (roles === undefined) return {};
+  if (!isColorRoles(roles)) {
+    console.warn('Ignoring malformed palette colour roles:', roles);
+    return {};
+  }
+  return Object.fromEntries(Object.entries(roles).flatMap(([color, role]) => {
+    const rgb = hexToRgb(color);
+    const hex = rgb && rgbToHex(rgb);
+    return hex && colors.includes(hex) ? [[hex, role]] : [];
+  }));
+};
+
+/**
+ * Turns the colour groups of a file into palettes with new ids. Colours are normalised to
+ * uppercase hex, duplicates are dropped and palettes too long are cut to the limit.
+ */
+const toPalettes = (groups: PaletteFileEntry[]): ColorPalette[] => {
+  return groups
+    .map(group => {
+      const colors = [...new Set(group.colors.map(hexToRgb).filter(rgb => rgb !== null).map(rgbToHex))];
+      if (colors.length > MAX_PALETTE_COLORS) {
+        console.warn(`Palette "${group.name}" has ${colors.length} colours; keeping the first ${MAX_PALETTE_COLORS}.`);
+      }
+      const kept = colors.slice(0, MAX_PALETTE_COLORS);
+      return createPalette(group.name.trim() || 'Paleta', kept, pickRoles(group.roles, kept));
+    })
+    .filter(palette => palette.colors.length > 0);
+};
+
+/**
+ * Reads the palettes of a JSON file written by the app.
+ * @throws An error if the file was not written by the app.
+ */
+const parsePaletteFile = (value: unknown): PaletteFileEntry[] => {
+  const file = value as PaletteFile;
+  if (file?.format !== PALETTE_FORMAT || !Array.isArray(file.palettes)) {
+    throw new Error('This file is not a palette file.');
+  }
+  if (file.version > PALETTE_FORMAT_VERSION) {
+    throw new Error(`The palettes were written by a newer version of the app (format ${file.version}).`);
+  }
+  return file.palettes.filter(palette => typeof palette?.name === 'string' && Array.isArray(palette.colors)
+    && palette.colors.every(color => typeof color === 'string'));
+};
+
+/**
+ * Returns the stored palettes in the user's order, skipping any malformed entry.
+ */
+export const loadCustomPalettes = (): ColorPalette[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((palette): palette is ColorPalette => {
+        const isValid = !!palette && typeof palette.id === 'string' && typeof palette.name === 'string'
+          && isPaletteColors(palette.colors);
+        if (!isValid) {
+          console.warn('Ignoring a malformed stored palette:', palette);
+        }
+        return isValid;
+      })
+      .map(palette => createStoredPalette(palette.id, palette.name, palette.colors, pickRoles(palette.roles, palette.colors)));
+  } catch (error) {
+    console.error('Failed to read stored palettes:', error);
+    return [];
+  }
+};
+
+/**
+ * Returns the colour roles given to built-in palettes, by palette id, skipping any malformed entry.
+ * Built-in palettes are part of the code, so their roles are kept apart from them.
+ * @param palettes - The built-in palettes, to drop roles of colours they no longer have.
+ */
+export const loadBuiltInPaletteRoles = (palettes: ColorPalette[]): Record<string, Record<string, PaletteRoleId>> => {
+  try {
+    const raw = localStorage.getItem(BUILT_IN_ROLES_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : {};
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {};
+    return Object.fromEntries(palettes.flatMap(palette => {
+      const roles = pickRoles((stored as Record<string, unknown>)[palette.id], palette.colors);
+      return Object.keys(roles).length > 0 ? [[palette.id, roles]] : [];
+    }));
+  } catch (error) {
+    console.error('Failed to read stored palette roles:', error);
+    return {};
+  }
+};
+
+/**
+ * Replaces the colour roles given to built-in palettes.
+ * @throws An error if the browser storage is full.
+ */
+export const saveBuiltInPaletteRoles = (roles: Record<string, Record<string, PaletteRoleId>>): void => {
+  try {
+    localStorage.setItem(BUILT_IN_ROLES_KEY, JSON.stringify(roles));
+  } catch (error) {
+    console.error('Failed to store palette roles:', error);
+    throw new Error('The browser storage is full.');
+  }
+};
+
+/**
+ * Replaces the stored palettes.
+ * @throws An error if the browser storage is full.
+ */
+export const saveCustomPalettes = (palettes: ColorPalette[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes));
+  } catch (error) {
+    console.error('Failed to store palettes:', error);
+    throw new Error('The browser storage is full.');
+  }
+};
+
+/** Builds a palette, leaving out the roles when no colour has one. */
+const createStoredPalette = (id: string, name: string, colors: string[], roles: Record<string, PaletteRoleId>): ColorPalette => (
+  Object.keys(roles).length > 0 ? { id, name, colors, roles } : { id, name, colors }
+);
+
+/**
+ * Creates a palette.
+ * @param name - The name shown in the palette selector.
+ * @param colors - The hex colours, in order.
+ * @param roles - The garment region of some of the colours, by hex code.
+ */
+export const createPalette = (name: string, colors: string[], roles: Record<string, PaletteRoleId> = {}): ColorPalette => {
+  return createStoredPalette(crypto.randomUUID(), name, colors, roles);
+};
+
+/**
+ * Writes palettes to a file. GPL holds one palette per file, so several palettes are
+ * written as a ZIP archive of GPL files. Colour roles are only written to JSON files.
+ * @param palettes - The palettes to export.
+ * @param format - The file format.
+ * @returns The file contents and the extension to name it with.
+ */
+export const exportPalettes = (palettes: ColorPalette[], format: PaletteFileFormat): { blob: Blob; extension: string } => {
+  const groups: SwatchGroup[] = palettes.map(({ name, colors }) => ({ name, colors }));
+  if (format === 'ase') {
+    return { blob: new Blob([encodeAse(groups)], { type: 'application/octet-stream' }), extension: 'ase' };
+  }
+  if (format === 'gpl') {
+    if (groups.length === 1) {
+      return { blob: new Blob([encodeGpl(groups[0])], { type: 'text/plain' }), extension: 'gpl' };
+    }
+    const entries = groups.map((group, i) => ({
+      name: `${String(i + 1).padStart(2, '0')}-${group.name.replace(/[\\/:*?"<>|]+/g, '-')}.gpl`,
+      data: new TextEncoder().encode(encodeGpl(group)),
+    }));
+    return { blob: createZip(entries), extension: 'zip' };
+  }
+  const entries: PaletteFileEntry[] = palettes.map(({ name, colors, roles }) => (roles ? { name, colors, roles } : { name, colors }));
+  const file: PaletteFile = { format: PALETTE_FORMAT, version: PALETTE_FORMAT_VERSION, palettes: entries };
+  return { blob: new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), extension: 'json' };
+};
+
+/**
+ * Reads the palettes of a file: a JSON file written by `exportPalettes`, an ASE or GPL
+ * swatch file, or a ZIP archive of GPL files. The format is told from the contents.
+ * @param file - The file chosen by the user.
+ * @returns The palettes, with new ids.
+ * @throws An error if the file cannot be read or holds no colour.
+ */
+export const importPalettes = async (file: File): Promise<ColorPalette[]> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const fileName = file.name.replace(/\.[^.]+$/, '');
+  let groups: SwatchGroup[];
+
+  if (isAse(bytes)) {
+    groups = decodeAse(bytes, fileName);
+  } else if (bytes[0] === 0x50 && bytes[1] === 0x4b) { // "PK"
+    groups = readZip(buffer)
+      .filter(entry => entry.name.toLowerCase().endsWith('.gpl'))
+      .map(entry => decodeGpl(new TextDecoder().decode(entry.data), entry.name.replace(/^.*\//, '').replace(/\.gpl$/i, '')));
+  } else {
+    const text = new TextDecoder().decode(bytes);
+    if (isGpl(text)) {
+      groups = [decodeGpl(text, fileName)];
+    } else {
+      let contents: unknown;
+      try {
+        contents = JSON.parse(text);
+      } catch {
+        throw new Error('The file is not a JSON, ASE or GPL palette file.');
+      }
+      groups = parsePaletteFile(contents);
+    }
+  }
+
+  const palettes = toPalettes(groups);
+  if (palettes.length === 0) {
+    throw new Error('The file holds no colour.');
+  }
+  return palettes;
+};
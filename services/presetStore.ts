@@ -0,0 +1,211 @@
+/**
+ * @file Service for storing, sharing and reading back control presets.
+ * Presets are kept in localStorage. They can be exported as a JSON file, or encoded in
+ * a link whose URL hash pre-fills the controls when opened (`#preset=...`).
+ */
+import type { ControlPreset, PresetSettings } from '../types';
+import { isImageData } from '../utils/records';
+import { base64ToBytes, bytesToBase64 } from '../utils/imageUtils';
+import { backgroundOptions } from '../data/controlOptions';
+import { isColorRoles } from '../data/palettes';
+
+/** localStorage key under which the presets are kept. */
+const STORAGE_KEY = 'aristic-photo-lab:presets';
+
+/** Identifies preset files written by the app. */
+const PRESET_FORMAT = 'aristic-photo-lab-presets';
+
+/** The version of the file layout; bumped when it changes incompatibly. */
+const PRESET_FORMAT_VERSION = 1;
+
+/** The URL hash parameter that carries a shared preset. */
+const HASH_PARAM = 'preset';
+
+/**
+ * Links longer than this are not reliably opened by browsers and chat apps, so a custom
+ * background too large to fit is left out of the link.
+ */
+const MAX_LINK_LENGTH = 64 * 1024;
+
+/**
+ * The contents of a preset file.
+ */
+interface PresetFile {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  presets: Omit<ControlPreset, 'id'>[];
+}
+
+/** Whether a value has the shape of the settings of a preset. */
+const isPresetSettings = (value: unknown): value is PresetSettings => {
+  const settings = value as PresetSettings;
+  return !!settings && typeof settings === 'object'
+    && typeof settings.background === 'string'
+    && (settings.customBackground === null || isImageData(settings.customBackground))
+    && typeof settings.selectedPaletteId === 'string'
+    && (settings.customPaletteColors === undefined || (Array.isArray(settings.customPaletteColors) && settings.customPaletteColors.every(c => typeof c === 'string')))
+    && (settings.customPaletteRoles === undefined || isColorRoles(settings.customPaletteRoles))
+    && (settings.customPaletteSwaps === undefined || (Array.isArray(settings.customPaletteSwaps)
+      && settings.customPaletteSwaps.every(swap => typeof swap?.from === 'string' && typeof swap?.to === 'string')))
+    && typeof settings.modelAge === 'string'
+    && typeof settings.specificInstructions === 'string'
+    && typeof settings.selectedFormatId === 'string'
+    && !!settings.customSize && typeof settings.customSize.width === 'number' && typeof settings.customSize.height === 'number'
+    && (settings.fitMode === 'crop' || settings.fitMode === 'pad');
+};
+
+/** Fills in settings added after a preset was saved: older presets have no custom palette, colour roles or swaps. */
+const withDefaults = (settings: PresetSettings): PresetSettings => ({
+  ...settings,
+  customPaletteColors: settings.customPaletteColors ?? [],
+  customPaletteRoles: settings.customPaletteRoles ?? {},
+  customPaletteSwaps: settings.customPaletteSwaps ?? [],
+});
+
+/**
+ * Reads the presets of a file, giving each a new id.
+ * @throws An error if the file was not written by the app or holds no valid preset.
+ */
+const parsePresetFile = (value: unknown): ControlPreset[] => {
+  const file = value as PresetFile;
+  if (file?.format !== PRESET_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error('This file is not a preset file.');
+  }
+  if (file.version > PRESET_FORMAT_VERSION) {
+    throw new Error(`The presets were written by a newer version of the app (format ${file.version}).`);
+  }
+  const presets = file.presets.filter(preset => typeof preset?.name === 'string' && isPresetSettings(preset.settings));
+  if (presets.length === 0) {
+    throw new Error('The file holds no valid preset.');
+  }
+  return presets.map(({ name, createdAt, settings }) => ({
+    id: crypto.randomUUID(),
+    name,
+    createdAt: typeof createdAt === 'number' ? createdAt : Date.now(),
+    settings: withDefaults(settings),
+  }));
+};
+
+/** Builds the file contents for some presets. */
+const toPresetFile = (presets: ControlPreset[]): PresetFile => ({
+  format: PRESET_FORMAT,
+  version: PRESET_FORMAT_VERSION,
+  presets: presets.map(({ id, ...preset }) => preset),
+});
+
+/**
+ * Returns the stored presets, oldest first, skipping any malformed entry.
+ */
+export const loadPresets = (): ControlPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((preset): preset is ControlPreset => {
+        const isValid = !!preset && typeof preset.id === 'string' && typeof preset.name === 'string'
+          && isPresetSettings(preset.settings);
+        if (!isValid) {
+          console.warn('Ignoring a malformed stored preset:', preset);
+        }
+        return isValid;
+      })
+      .map(preset => ({ ...preset, settings: withDefaults(preset.settings) }));
+  } catch (error) {
+    console.error('Failed to read stored presets:', error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the stored presets.
+ * @throws An error if the browser storage is full, which large custom backgrounds can cause.
+ */
+export const savePresets = (presets: ControlPreset[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Failed to store presets:', error);
+    throw new Error('The browser storage is full. Delete a preset or use a smaller custom background.');
+  }
+};
+
+/**
+ * Creates a preset from the current settings.
+ * @param name - The name shown in the preset list.
+ * @param settings - The settings to capture.
+ */
+export const createPreset = (name: string, settings: PresetSettings): ControlPreset => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: Date.now(),
+  settings,
+});
+
+/**
+ * Writes presets as a JSON file, to back them up or share them.
+ * @param presets - The presets to export.
+ */
+export const exportPresets = (presets: ControlPreset[]): Blob => {
+  return new Blob([JSON.stringify(toPresetFile(presets), null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Reads the presets of a JSON file written by `exportPresets`.
+ * @param file - The JSON file.
+ * @returns The presets, with new ids.
+ * @throws An error if the file cannot be read or holds no valid preset.
+ */
+export const importPresets = async (file: File): Promise<ControlPreset[]> => {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  return parsePresetFile(contents);
+};
+
+/**
+ * Builds a link to the app that pre-fills the controls with a preset.
+ * @param preset - The preset to share.
+ * @param baseUrl - The address of the app, without hash.
+ * @returns The link, and whether the custom background had to be left out to keep it short.
+ */
+export const buildPresetLink = (preset: ControlPreset, baseUrl: string): { url: string; omittedBackground: boolean } => {
+  const encode = (value: ControlPreset) => {
+    const json = new TextEncoder().encode(JSON.stringify(toPresetFile([value])));
+    // base64url, so the hash needs no escaping.
+    const encoded = bytesToBase64(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    return `${baseUrl}#${HASH_PARAM}=${encoded}`;
+  };
+  const url = encode(preset);
+  if (url.length <= MAX_LINK_LENGTH || !preset.settings.customBackground) {
+    return { url, omittedBackground: false };
+  }
+  const { settings } = preset;
+  const withoutBackground = {
+    ...preset,
+    settings: { ...settings, customBackground: null, background: settings.background === 'custom' ? backgroundOptions[0].id : settings.background },
+  };
+  return { url: encode(withoutBackground), omittedBackground: true };
+};
+
+/**
+ * Reads the preset carried by a URL hash, if any.
+ * @param hash - The hash of the page address, e.g. `window.location.hash`.
+ * @returns The preset, or null when the hash carries none.
+ * @throws An error if the hash carries a preset that cannot be read.
+ */
+export const readPresetHash = (hash: string): ControlPreset | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
+  if (!encoded) return null;
+  let contents: unknown;
+  try {
+    const bytes = base64ToBytes(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    contents = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The link does not carry a readable preset.');
+  }
+  return parsePresetFile(contents)[0];
+};
@@ -0,0 +1,81 @@
+/**
+ * @file Service for persisting projects in IndexedDB.
+ * A project keeps its own garment and model references, with the originals they were
+ * cropped from; its history lives in the history store, keyed by project id. The active project is remembered in localStorage.
+ */
+import type { Project } from '../types';
+import { DEFAULT_PROJECT_ID, DEFAULT_PROJECT_NAME } from '../data/projects';
+import { openDatabase, requestToPromise, transactionToPromise, PROJECTS_STORE } from './database';
+import { clearHistory } from './historyStore';
+
+/** localStorage key under which the id of the last active project is kept. */
+const ACTIVE_PROJECT_KEY = 'aristic-photo-lab:active-project';
+
+/**
+ * Creates a new, empty project.
+ * @param name - The project name.
+ * @param id - The id to use; a random one by default.
+ */
+export const createProject = (name: string, id: string = crypto.randomUUID()): Project => ({
+  id,
+  name,
+  createdAt: Date.now(),
+});
+
+/**
+ * Loads every project, oldest first. The default project is created on first run,
+ * and returned on its own if the database cannot be read.
+ */
+export const loadProjects = async (): Promise<Project[]> => {
+  try {
+    const db = await openDatabase();
+    const projects = await requestToPromise(
+      db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()
+    ) as Project[];
+    if (projects.length > 0) {
+      return projects.sort((a, b) => a.createdAt - b.createdAt);
+    }
+    const defaultProject = createProject(DEFAULT_PROJECT_NAME, DEFAULT_PROJECT_ID);
+    await saveProject(defaultProject);
+    return [defaultProject];
+  } catch (error) {
+    console.error('Failed to load the stored projects:', error);
+    return [createProject(DEFAULT_PROJECT_NAME, DEFAULT_PROJECT_ID)];
+  }
+};
+
+/**
+ * Creates or updates a project.
+ * @param project - The project to store.
+ */
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(project);
+  await transactionToPromise(transaction);
+};
+
+/**
+ * Deletes a project together with its history.
+ * @param projectId - The id of the project to delete.
+ */
+export const deleteProject = async (projectId: string): Promise<void> => {
+  await clearHistory(projectId);
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(projectId);
+  await transactionToPromise(transaction);
+};
+
+/**
+ * Reads the id of the project that was active in the last session, if any.
+ */
+export const loadActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+/**
+ * Remembers the active project for the next session.
+ * @param projectId - The id of the active project.
+ */
+export const saveActiveProjectId = (projectId: string): void => {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, projectId);
+};
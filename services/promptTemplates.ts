@@ -0,0 +1,200 @@
+/**
+ * @file Service for rendering, validating and storing prompt templates.
+ * Built-in templates come from `data/promptTemplates.ts`; versions saved from the
+ * template editor are kept in localStorage. Every template is validated when loaded.
+ */
+
+import {
+  builtInPromptTemplates,
+  generationTemplateVariables,
+  refinementTemplateVariables,
+  requiredGenerationVariables,
+  requiredRefinementVariables,
+} from '../data/promptTemplates';
+import type { PromptTemplate } from '../data/promptTemplates';
+
+/** Values for a template's variables. Empty or missing values are treated as unset. */
+export type TemplateVariables = Record<string, string | undefined>;
+
+/** localStorage key under which user-saved template versions are kept. */
+const STORAGE_KEY = 'aristic-photo-lab:prompt-templates';
+
+const SECTION_TAG = /^\s*\{\{([#^/])(\w+)\}\}\s*$/;
+const VARIABLE_TAG = /\{\{(\w+)\}\}/g;
+const ANY_TAG = /\{\{([#^/]?)(\w*)\}\}/g;
+
+/**
+ * Checks a template body against the variables it may use and those it must use.
+ * @param body - The template body to validate.
+ * @param allowedVariables - The variables the body may reference.
+ * @param requiredVariables - The variables the body must reference at least once.
+ * @returns A list of human-readable problems; empty when the body is valid.
+ */
+export const validateTemplateBody = (
+  body: string,
+  allowedVariables: Record<string, string>,
+  requiredVariables: string[]
+): string[] => {
+  const errors: string[] = [];
+  const referenced = new Set<string>();
+  const openSections: string[] = [];
+
+  if (!body.trim()) {
+    return ['The template is empty.'];
+  }
+
+  body.split('\n').forEach((line, index) => {
+    const lineNumber = index + 1;
+    const section = line.match(SECTION_TAG);
+    if (section) {
+      const [, kind, name] = section;
+      if (!(name in allowedVariables)) {
+        errors.push(`Line ${lineNumber}: unknown variable "${name}".`);
+      }
+      if (kind === '/') {
+        const open = openSections.pop();
+        if (open !== name) {
+          errors.push(`Line ${lineNumber}: "{{/${name}}}" does not close ${open ? `"{{#${open}}}"` : 'any section'}.`);
+        }
+      } else {
+        openSections.push(name);
+        referenced.add(name);
+      }
+      return;
+    }
+    for (const [, kind, name] of line.matchAll(ANY_TAG)) {
+      if (kind) {
+        errors.push(`Line ${lineNumber}: section tags must be on their own line.`);
+      } else if (!(name in allowedVariables)) {
+        errors.push(`Line ${lineNumber}: unknown variable "${name}".`);
+      } else {
+        referenced.add(name);
+      }
+    }
+  });
+
+  openSections.forEach(name => errors.push(`Section "{{#${name}}}" is never closed.`));
+  requiredVariables
+    .filter(name => !referenced.has(name))
+    .forEach(name => errors.push(`The template must use the "{{${name}}}" variable.`));
+
+  return errors;
+};
+
+/**
+ * Validates both bodies of a template.
+ * @param template - The template to validate.
+ * @returns A list of problems, each prefixed with the body it concerns.
+ */
+export const validatePromptTemplate = (template: Pick<PromptTemplate, 'generation' | 'refinement'>): string[] => [
+  ...validateTemplateBody(template.generation, generationTemplateVariables, requiredGenerationVariables)
+    .map(e => `Generation: ${e}`),
+  ...validateTemplateBody(template.refinement, refinementTemplateVariables, requiredRefinementVariables)
+    .map(e => `Refinement: ${e}`),
+];
+
+/**
+ * Renders a (valid) template body with the given variables.
+ * Lines inside a `{{#name}}` section are kept only when `name` is set, and lines inside
+ * a `{{^name}}` section only when it is not. Section tag lines themselves are dropped.
+ * @param body - The template body.
+ * @param variables - The values to substitute.
+ * @returns The final prompt text.
+ */
+export const renderTemplateBody = (body: string, variables: TemplateVariables): string => {
+  const isSet = (name: string) => !!variables[name]?.trim();
+  const sections: { name: string; inverted: boolean }[] = [];
+  const output: string[] = [];
+
+  for (const line of body.split('\n')) {
+    const section = line.match(SECTION_TAG);
+    if (section) {
+      const [, kind, name] = section;
+      if (kind === '/') {
+        sections.pop();
+      } else {
+        sections.push({ name, inverted: kind === '^' });
+      }
+      continue;
+    }
+    if (sections.every(s => isSet(s.name) !== s.inverted)) {
+      output.push(line.replace(VARIABLE_TAG, (_, name: string) => variables[name] ?? ''));
+    }
+  }
+
+  return output.join('\n');
+};
+
+/**
+ * Builds the key that uniquely identifies one version of a template.
+ */
+export const getTemplateKey = (template: Pick<PromptTemplate, 'id' | 'version'>): string => {
+  return `${template.id}@${template.version}`;
+};
+
+// Built-in templates are part of the code, so an invalid one is a programming error.
+builtInPromptTemplates.forEach(template => {
+  const errors = validatePromptTemplate(template);
+  if (errors.length > 0) {
+    throw new Error(`Built-in prompt template "${getTemplateKey(template)}" is invalid:\n${errors.join('\n')}`);
+  }
+});
+
+/** The template used when none has been chosen. */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = builtInPromptTemplates[0];
+
+/**
+ * Reads the user-saved template versions from localStorage, skipping any invalid entry.
+ */
+const loadStoredTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(stored)) return [];
+    return stored.filter((template): template is PromptTemplate => {
+      const isWellFormed = template && typeof template.id === 'string' && typeof template.version === 'number'
+        && typeof template.name === 'string' && typeof template.generation === 'string' && typeof template.refinement === 'string';
+      const errors = !isWellFormed ? ['Malformed entry.']
+        : builtInPromptTemplates.some(t => getTemplateKey(t) === getTemplateKey(template)) ? ['Conflicts with a built-in version.']
+        : validatePromptTemplate(template);
+      if (errors.length > 0) {
+        console.warn(`Ignoring invalid stored prompt template "${template?.id}@${template?.version}":`, errors);
+      }
+      return errors.length === 0;
+    });
+  } catch (error) {
+    console.error('Failed to read stored prompt templates:', error);
+    return [];
+  }
+};
+
+/**
+ * Returns every available template version: the built-in ones followed by the user-saved ones.
+ */
+export const loadPromptTemplates = (): PromptTemplate[] => {
+  return [...builtInPromptTemplates, ...loadStoredTemplates()];
+};
+
+/**
+ * Saves edited bodies as the next version of a template family.
+ * @param base - The template version the edits started from.
+ * @param changes - The edited bodies.
+ * @returns The newly saved template version.
+ * @throws An error if the edited template is invalid.
+ */
+export const savePromptTemplateVersion = (
+  base: PromptTemplate,
+  changes: Pick<PromptTemplate, 'generation' | 'refinement'>
+): PromptTemplate => {
+  const errors = validatePromptTemplate(changes);
+  if (errors.length > 0) {
+    throw new Error(`Cannot save an invalid template:\n${errors.join('\n')}`);
+  }
+  const stored = loadStoredTemplates();
+  const latestVersion = Math.max(
+    ...[...builtInPromptTemplates, ...stored].filter(t => t.id === base.id).map(t => t.version)
+  );
+  const template: PromptTemplate = { ...base, ...changes, version: latestVersion + 1 };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...stored, template]));
+  return template;
+};
@@ -0,0 +1,154 @@
+/**
+ * @file Image-generation provider backed by the Google Gemini API.
+ * It owns the SDK client and translates Gemini responses into data URLs.
+ */
+
+import { GoogleGenAI, Modality, GenerateContentResponse, ApiError } from "@google/genai";
+import type { ImageGenerationProvider, ImageGenerationRequest } from '../imageGenerationProvider';
+import {
+    ImageGenerationError,
+    SafetyBlockedError,
+    NoImageReturnedError,
+    RateLimitError,
+    NetworkError,
+    InvalidInputError,
+    GenerationCancelledError,
+} from '../errors';
+
+/** The Gemini model used for both generation and refinement. */
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+// The client is created on first use so that running with another provider
+// does not require an API key.
+let client: GoogleGenAI | null = null;
+
+/**
+ * Returns the shared GoogleGenAI client, creating it on first use.
+ */
+const getClient = (): GoogleGenAI => {
+    if (!client) {
+        // The provider depends on this key, so log an error if it is missing.
+        if (!process.env.API_KEY) {
+            console.error("API_KEY environment variable not set.");
+        }
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    }
+    return client;
+};
+
+/**
+ * Processes the response from the Gemini API.
+ * It handles both successful image generation and various error cases, such as safety blocks.
+ * @param response - The raw response object from `ai.models.generateContent`.
+ * @returns A data URL string for the generated image.
+ * @throws {SafetyBlockedError} If the prompt or the output was blocked by safety filters.
+ * @throws {NoImageReturnedError} If the model answered without an image.
+ */
+const processApiResponse = (response: GenerateContentResponse): string => {
+    // Check if the prompt itself was rejected before any candidate was produced.
+    if (response.promptFeedback?.blockReason) {
+        throw new SafetyBlockedError(
+            (response.promptFeedback.safetyRatings || [])
+                .filter(r => r.blocked)
+                .map(r => String(r.category))
+        );
+    }
+
+    // Check if the generation was blocked by safety filters.
+    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
+        const safetyRatings = response.candidates[0].safetyRatings || [];
+        const blockedCategories = safetyRatings
+            .filter(r => r.blocked)
+            .map(r => String(r.category));
+        throw new SafetyBlockedError(blockedCategories);
+    }
+
+    // On success, find the image data in the response parts.
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+            const base64ImageBytes: string = part.inlineData.data;
+            const mimeType = part.inlineData.mimeType;
+            return `data:${mimeType};base64,${base64ImageBytes}`;
+        }
+    }
+    
+    // If no image is found, use the convenience 'text' accessor to find a reason.
+    const reason = response.text?.trim();
+    
+    throw new NoImageReturnedError(reason || undefined);
+}
+
+/**
+ * Reads the delay the API asks to wait before retrying a rate-limited request.
+ * The SDK only exposes the response body in the error message, where a `RetryInfo`
+ * detail carries it as e.g. `"retryDelay": "17s"`.
+ * @param message - The message of the SDK error.
+ * @returns The delay in milliseconds, or undefined when the response names none.
+ */
+const parseRetryDelayMs = (message: string): number | undefined => {
+    const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps errors thrown by the SDK or the network layer onto the app's typed errors.
+ * Errors that are already typed pass through unchanged.
+ * @param error - The raw thrown value.
+ * @param signal - The request's abort signal, used to recognise cancellations.
+ * @returns A typed error describing the failure.
+ */
+const classifyError = (error: unknown, signal?: AbortSignal): ImageGenerationError => {
+    if (error instanceof ImageGenerationError) {
+        return error;
+    }
+    if (signal?.aborted) {
+        return new GenerationCancelledError({ cause: error });
+    }
+    if (error instanceof ApiError) {
+        if (error.status === 429) {
+            return new RateLimitError(`The Gemini API rate limit was exceeded: ${error.message}`, {
+                retryAfterMs: parseRetryDelayMs(error.message),
+                cause: error,
+            });
+        }
+        if (error.status >= 500) {
+            return new NetworkError(`The Gemini API is temporarily unavailable (${error.status}): ${error.message}`, { cause: error });
+        }
+        if (error.status === 400 || error.status === 413) {
+            return new InvalidInputError(`The Gemini API rejected the request: ${error.message}`, { cause: error });
+        }
+        return new ImageGenerationError(`The Gemini API returned an error (${error.status}): ${error.message}`, { cause: error });
+    }
+    // fetch() rejects with a TypeError when the network itself is unreachable.
+    if (error instanceof TypeError) {
+        return new NetworkError(`Could not reach the Gemini API: ${error.message}`, { cause: error });
+    }
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return new ImageGenerationError(message, { cause: error });
+};
+
+/**
+ * The live Gemini provider.
+ */
+export const geminiProvider: ImageGenerationProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model: GEMINI_IMAGE_MODEL,
+    generateImage: async ({ parts, signal }: ImageGenerationRequest): Promise<string> => {
+        try {
+            const response = await getClient().models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                // The model tells the images apart from the prompt, so the labels stay out of the request.
+                contents: { parts: parts.map(part => ('inlineData' in part ? { inlineData: part.inlineData } : part)) },
+                config: {
+                    // We expect the model to be able to return both image and text (for error reasons).
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+            return processApiResponse(response);
+        } catch (error) {
+            throw classifyError(error, signal);
+        }
+    },
+};
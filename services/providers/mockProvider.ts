@@ -0,0 +1,141 @@
+/**
+ * @file An offline, deterministic image-generation provider.
+ * Instead of calling a model, it composes the input images on a canvas so the whole
+ * app can be developed, demoed and tested end to end without a network or API key.
+ */
+
+import type { ContentPart, ImageGenerationProvider, ImageGenerationRequest } from '../imageGenerationProvider';
+import { loadImage } from '../../utils/imageUtils';
+import { delay } from '../../utils/concurrency';
+
+/** The height, in pixels, of every mock image. The width follows the aspect ratio. */
+const MOCK_IMAGE_HEIGHT = 1280;
+
+/** A short artificial delay so loading states remain visible during demos. */
+const MOCK_LATENCY_MS = 600;
+
+/**
+ * Computes a stable 32-bit hash of a string (FNV-1a).
+ * Used to derive deterministic colours from the prompt text.
+ */
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Converts an aspect ratio string like "9:16" into canvas dimensions.
+ */
+const getCanvasSize = (aspectRatio?: string): { width: number; height: number } => {
+    const [w, h] = (aspectRatio || '9:16').split(':').map(Number);
+    const ratio = w > 0 && h > 0 ? w / h : 9 / 16;
+    return { width: Math.round(MOCK_IMAGE_HEIGHT * ratio), height: MOCK_IMAGE_HEIGHT };
+};
+
+/**
+ * Draws an image scaled to fit (contain) or fill (cover) the given box.
+ */
+const drawImageInBox = (
+    context: CanvasRenderingContext2D,
+    image: HTMLImageElement,
+    box: { x: number; y: number; width: number; height: number },
+    mode: 'contain' | 'cover'
+) => {
+    const scale = mode === 'contain'
+        ? Math.min(box.width / image.width, box.height / image.height)
+        : Math.max(box.width / image.width, box.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    context.save();
+    context.beginPath();
+    context.rect(box.x, box.y, box.width, box.height);
+    context.clip();
+    context.drawImage(image, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+    context.restore();
+};
+
+/**
+ * Composes the request's images into a single picture:
+ * the background (the background reference or a prompt-derived gradient), the model centred
+ * in the frame and the garment as an inset in the corner. Images are picked by their label,
+ * so optional references such as the back design or the pose never take another's place.
+ */
+const composeMockImage = async (parts: ContentPart[], aspectRatio?: string): Promise<string> => {
+    const imageParts = parts.filter((part): part is Extract<ContentPart, { inlineData: unknown }> => 'inlineData' in part);
+    const promptText = parts
+        .filter((part): part is Extract<ContentPart, { text: string }> => 'text' in part)
+        .map(part => part.text)
+        .join('\n');
+    const loadPart = (part?: Extract<ContentPart, { inlineData: unknown }>) =>
+        part ? loadImage(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`) : undefined;
+    const [garment, model, background, unlabelled] = await Promise.all([
+        loadPart(imageParts.find(part => part.label === 'garment')),
+        loadPart(imageParts.find(part => part.label === 'model')),
+        loadPart(imageParts.find(part => part.label === 'backgroundImage')),
+        loadPart(imageParts.find(part => !part.label)),
+    ]);
+
+    const { width, height } = getCanvasSize(aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas 2D context is not available.');
+    }
+
+    // Background: the background reference if present, otherwise a gradient seeded by the prompt.
+    const hash = hashString(promptText);
+    const hue = hash % 360;
+    const gradient = context.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 15%)`);
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, width, height);
+    if (background) {
+        drawImageInBox(context, background, { x: 0, y: 0, width, height }, 'cover');
+    }
+
+    // Subject: the model, or the unlabelled image being refined.
+    const subject = model ?? unlabelled;
+    if (subject) {
+        const margin = Math.round(width * 0.08);
+        drawImageInBox(context, subject, { x: margin, y: margin, width: width - margin * 2, height: height - margin * 2 }, 'contain');
+    }
+
+    // Garment inset in the bottom-right corner.
+    if (garment) {
+        const insetSize = Math.round(width * 0.3);
+        const inset = { x: width - insetSize - 24, y: height - insetSize - 24, width: insetSize, height: insetSize };
+        context.fillStyle = 'rgba(15, 23, 42, 0.85)';
+        context.fillRect(inset.x - 6, inset.y - 6, inset.width + 12, inset.height + 12);
+        drawImageInBox(context, garment, inset, 'contain');
+    }
+
+    // Watermark so mock output is never mistaken for a real generation.
+    context.fillStyle = 'rgba(15, 23, 42, 0.75)';
+    context.fillRect(0, 0, width, 56);
+    context.fillStyle = '#22d3ee';
+    context.font = 'bold 28px Inter, sans-serif';
+    context.textBaseline = 'middle';
+    context.fillText(`MOCK · ${hash.toString(16).padStart(8, '0')}`, 20, 28);
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * The offline mock provider.
+ */
+export const mockProvider: ImageGenerationProvider = {
+    id: 'mock',
+    label: 'Mock local (sin red)',
+    model: 'mock-canvas',
+    generateImage: async ({ parts, aspectRatio, signal }: ImageGenerationRequest): Promise<string> => {
+        await delay(MOCK_LATENCY_MS, signal);
+        return composeMockImage(parts, aspectRatio);
+    },
+};
@@ -0,0 +1,184 @@
+/**
+ * @file Service for exporting a session as a ZIP archive and importing it back.
+ * The archive holds every history image, the input references and a `manifest.json`
+ * with the parameters behind each image, so a colleague can pick up the work. Images
+ * inside the generation records are written once and referenced by file name.
+ */
+import type { GeneratedImage, ImageData } from '../types';
+import type { GenerationRecord } from './geminiService';
+import { createZip, readZip } from '../utils/zip';
+import type { ZipEntry } from '../utils/zip';
+import { mapLeaves, isImageData } from '../utils/records';
+import { base64ToBytes, bytesToBase64, dataUrlToImageData, imageDataToDataUrl } from '../utils/imageUtils';
+
+/** Identifies session archives written by the app. */
+const SESSION_FORMAT = 'aristic-photo-lab-session';
+
+/** The version of the manifest layout; bumped when it changes incompatibly. */
+const SESSION_FORMAT_VERSION = 1;
+
+const MANIFEST_NAME = 'manifest.json';
+
+/** The file extension used for each image type. */
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/**
+ * The input references of a session.
+ */
+export interface SessionInputs {
+  garmentImage?: ImageData;
+  modelImage?: ImageData;
+  backgroundImage?: ImageData;
+  backDesignImage?: ImageData;
+}
+
+/**
+ * Everything an archive carries: the project name, its inputs and its history.
+ */
+export interface Session {
+  projectName: string;
+  inputs: SessionInputs;
+  images: GeneratedImage[];
+}
+
+/**
+ * An image of the archive, referenced from the manifest by file name.
+ */
+interface FileReference {
+  file: string;
+  mimeType: string;
+}
+
+/**
+ * A history image as described in the manifest.
+ */
+interface ManifestImage extends Omit<GeneratedImage, 'url' | 'record' | 'projectId'> {
+  file: FileReference;
+  /** The generation record, with its images replaced by file references. */
+  record?: unknown;
+}
+
+/**
+ * The contents of `manifest.json`.
+ */
+interface SessionManifest {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;
+  projectName: string;
+  inputs: Partial<Record<keyof SessionInputs, FileReference>>;
+  images: ManifestImage[];
+}
+
+const isFileReference = (value: unknown): value is FileReference =>
+  !!value && typeof value === 'object' && typeof (value as FileReference).file === 'string'
+    && typeof (value as FileReference).mimeType === 'string';
+
+/**
+ * Builds the archive of a session.
+ * @param session - The project name, inputs and history to export.
+ * @returns The ZIP archive.
+ */
+export const exportSession = async (session: Session): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const namesByContent = new Map<string, string>();
+  let assetCount = 0;
+
+  /** Adds an image to the archive under `baseName`, unless the same image was already added. */
+  const addFile = (image: ImageData, baseName: string): FileReference => {
+    const key = `${image.mimeType};${image.base64}`;
+    let file = namesByContent.get(key);
+    if (!file) {
+      file = `${baseName}.${EXTENSIONS[image.mimeType] ?? 'bin'}`;
+      namesByContent.set(key, file);
+      entries.push({ name: file, data: base64ToBytes(image.base64) });
+    }
+    return { file, mimeType: image.mimeType };
+  };
+
+  const inputs: SessionManifest['inputs'] = {};
+  (Object.keys(session.inputs) as (keyof SessionInputs)[]).forEach(key => {
+    const image = session.inputs[key];
+    if (image) inputs[key] = addFile(image, `inputs/${key.replace(/Image$/, '')}`);
+  });
+
+  // Oldest first, so the numbering of the files follows the order the images were made in.
+  const images = [...session.images].sort((a, b) => a.createdAt - b.createdAt);
+  const manifestImages = await Promise.all(images.map(async ({ url, record, projectId, ...image }, index): Promise<ManifestImage> => {
+    const file = addFile(dataUrlToImageData(url), `images/${String(index + 1).padStart(3, '0')}`);
+    const archivedRecord = await mapLeaves(record, isImageData, data => addFile(data, `assets/${++assetCount}`));
+    return { ...image, file, record: archivedRecord };
+  }));
+
+  const manifest: SessionManifest = {
+    format: SESSION_FORMAT,
+    version: SESSION_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    projectName: session.projectName,
+    inputs,
+    images: manifestImages,
+  };
+  const manifestEntry = { name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) };
+  return createZip([manifestEntry, ...entries]);
+};
+
+/**
+ * Reads a session archive.
+ * @param file - The ZIP archive written by `exportSession`.
+ * @returns The session. Its images get new ids, so importing never overwrites existing entries.
+ * @throws {Error} If the file is not a session archive or is missing some of its images.
+ */
+export const importSession = async (file: Blob): Promise<Session> => {
+  const entries = readZip(await file.arrayBuffer());
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+
+  const manifestData = files.get(MANIFEST_NAME);
+  if (!manifestData) {
+    throw new Error('The archive has no manifest.json.');
+  }
+  const manifest = JSON.parse(new TextDecoder().decode(manifestData)) as SessionManifest;
+  if (manifest.format !== SESSION_FORMAT || !Array.isArray(manifest.images)) {
+    throw new Error('The archive is not an Aristic Photo Lab session.');
+  }
+  if (manifest.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`The session was exported by a newer version of the app (format ${manifest.version}).`);
+  }
+
+  // Images read from the same file share one object, as they do in the history store.
+  const restored = new Map<string, ImageData>();
+  const resolve = (reference: FileReference): ImageData => {
+    const cached = restored.get(reference.file);
+    if (cached) return cached;
+    const data = files.get(reference.file);
+    if (!data) {
+      throw new Error(`The archive is missing ${reference.file}.`);
+    }
+    const image = { base64: bytesToBase64(data), mimeType: reference.mimeType };
+    restored.set(reference.file, image);
+    return image;
+  };
+
+  const inputs: SessionInputs = {};
+  (Object.keys(manifest.inputs ?? {}) as (keyof SessionInputs)[]).forEach(key => {
+    const reference = manifest.inputs[key];
+    if (isFileReference(reference)) inputs[key] = resolve(reference);
+  });
+
+  const newIds = new Map(manifest.images.map(image => [image.id, crypto.randomUUID()]));
+  const images = await Promise.all(manifest.images.map(async ({ file, record, ...image }): Promise<GeneratedImage> => {
+    const restoredRecord = await mapLeaves(record, isFileReference, resolve);
+    return {
+      ...image,
+      id: newIds.get(image.id)!,
+      parentId: image.parentId ? newIds.get(image.parentId) : undefined,
+      url: imageDataToDataUrl(resolve(file)),
+      ...(restoredRecord ? { record: restoredRecord as GenerationRecord } : {}),
+    };
+  }));
+
+  return { projectName: manifest.projectName || 'Sesión importada', inputs, images };
+};
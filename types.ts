@@ -2,6 +2,9 @@
  * @file Centralized type definitions for the application.
  * This ensures consistency and type safety across components.
  */
+import type { GenerationRecord } from './services/geminiService';
+import type { PaletteRoleId, ColorSwap } from './data/palettes';
+import type { CropSource } from './utils/crop';
 
 /**
  * Represents a generic option for selection components like buttons or dropdowns.
@@ -19,3 +22,151 @@ export interface ImageData {
   base64: string;
   mimeType: string;
 }
+
+/**
+ * The lifecycle status of a single variant within a generation batch.
+ */
+export type VariantStatus = 'pending' | 'loading' | 'success' | 'error' | 'cancelled';
+
+/**
+ * Tracks one candidate image of a batch generation.
+ * Each variant has its own status so results can stream in independently.
+ */
+export interface GenerationVariant {
+  id: string;
+  status: VariantStatus;
+  imageUrl?: string;
+  error?: Error;
+  /** A caption for the variant, such as the camera view of a lookbook shot. */
+  label?: string;
+}
+
+/**
+ * How a click on "Generate" is turned into requests:
+ * 'variations' produces N candidates of the same shot, 'lookbook' one shot per camera view.
+ */
+export type GenerationMode = 'variations' | 'lookbook';
+
+/**
+ * An image produced by a generation or refinement, kept in the results history.
+ * Refinements point at the image they were refined from, so the history forms a lineage tree.
+ */
+export interface GeneratedImage {
+  id: string;
+  /** The data URL of the image. */
+  url: string;
+  /** The id of the prompt template that produced the image. */
+  templateId: string;
+  /** The version of the prompt template that produced the image. */
+  templateVersion: number;
+  /** Creation time, in milliseconds since the epoch. */
+  createdAt: number;
+  /** The final prompt sent to the model. */
+  prompt?: string;
+  /** The model that produced the image. */
+  model?: string;
+  /** A caption for the image, such as the camera view of a lookbook shot. */
+  label?: string;
+  /** The id of the image this one was refined from; absent for fresh generations. */
+  parentId?: string;
+  /** How the image was produced, so it can be inspected and remixed later. */
+  record?: GenerationRecord;
+  /** The project the image belongs to. */
+  projectId?: string;
+  /** The collections (see `data/projects.ts`) the image is filed in. */
+  collectionIds?: string[];
+  /** A star rating from 1 to 5; unrated when absent or 0. */
+  rating?: number;
+  /** Whether the image is marked as a favourite. Bulk actions only apply to favourites. */
+  favorite?: boolean;
+  /** Whether the image was rejected; rejected images are hidden from the gallery by default. */
+  rejected?: boolean;
+}
+
+/**
+ * The fields of a history image the user can change after it was produced.
+ */
+export type ImageReview = Pick<GeneratedImage, 'collectionIds' | 'rating' | 'favorite' | 'rejected'>;
+
+/**
+ * A body of work for one client or club, with its own references and history.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  /** Creation time, in milliseconds since the epoch. */
+  createdAt: number;
+  /** The garment reference last used in the project. */
+  garmentImage?: ImageData;
+  /** The model reference last used in the project. */
+  modelImage?: ImageData;
+  /** The original the garment reference was cropped from, so it can still be cropped again. */
+  garmentCropSource?: CropSource;
+  /** The original the model reference was cropped from, so it can still be cropped again. */
+  modelCropSource?: CropSource;
+}
+
+/**
+ * An exact output size, in pixels.
+ */
+export interface OutputSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * How an image is brought to an exact output size:
+ * 'crop' fills the frame and trims the excess, 'pad' fits the whole image and fills the gaps.
+ */
+export type FitMode = 'crop' | 'pad';
+
+/**
+ * Everything set in the control panel: the input images and the generation options.
+ * It is kept as one value so every change can be undone.
+ */
+export interface ControlState {
+  garmentImage: ImageData | null;
+  backDesignImage: ImageData | null;
+  modelImage: ImageData | null;
+  customBackground: ImageData | null;
+  poseReferenceImage: ImageData | null;
+  specificInstructions: string;
+  modelAge: string;
+  background: string;
+  selectedPaletteId: string;
+  /**
+   * The colours of the custom palette, used when `selectedPaletteId` is `CUSTOM_PALETTE_ID`.
+   * In a preset, they (and their roles) also hold the user's palette it was saved with.
+   */
+  customPaletteColors: string[];
+  /** The region of the garment assigned to custom palette colours, by hex code. */
+  customPaletteRoles: Record<string, PaletteRoleId>;
+  /** The garment colours swapped for others to make the custom palette. */
+  customPaletteSwaps: ColorSwap[];
+  selectedPoseId: string;
+  selectedFormatId: string;
+  customSize: OutputSize;
+  fitMode: FitMode;
+  generationMode: GenerationMode;
+  variationCount: number;
+  selectedViewIds: string[];
+  concurrency: number;
+}
+
+/**
+ * The controls a preset captures: the look of the photo rather than its inputs.
+ */
+export type PresetSettings = Pick<
+  ControlState,
+  'background' | 'customBackground' | 'selectedPaletteId' | 'customPaletteColors' | 'customPaletteRoles' | 'customPaletteSwaps' | 'modelAge' | 'specificInstructions' | 'selectedFormatId' | 'customSize' | 'fitMode'
+>;
+
+/**
+ * A named combination of settings saved for reuse.
+ */
+export interface ControlPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: PresetSettings;
+}
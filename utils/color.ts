@@ -0,0 +1,35 @@
+/**
+ * @file Conversions between the colour notations used by palettes.
+ * Palette colours are stored as uppercase six-digit hex codes, e.g. "#F97721".
+ */
+
+/**
+ * A colour as red, green and blue channels, each from 0 to 255.
+ */
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Formats a colour as an uppercase hex code.
+ * @param color - The channels; they are rounded and clamped to 0–255.
+ */
+export const rgbToHex = ({ r, g, b }: Rgb): string => {
+  const toByte = (value: number) => Math.min(255, Math.max(0, Math.round(value))).toString(16).padStart(2, '0');
+  return `#${toByte(r)}${toByte(g)}${toByte(b)}`.toUpperCase();
+};
+
+/**
+ * Reads a hex code, with or without '#', in its six- or three-digit form.
+ * @param hex - The hex code, e.g. "#F97721" or "f72".
+ * @returns The channels, or null when the text is not a hex colour.
+ */
+export const hexToRgb = (hex: string): Rgb | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  const value = parseInt(digits, 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+};
@@ -0,0 +1,235 @@
+/**
+ * @file Finds the dominant colours of an image with k-means clustering.
+ * The image is scaled down on a canvas first, so the analysis takes a few milliseconds
+ * whatever the size of the upload. A plain backdrop, such as the white of a product photo,
+ * is detected from the border of the image and left out of the result.
+ */
+import type { ImageData } from '../types';
+import { rgbToHex, type Rgb } from './color';
+import { loadImage, imageDataToDataUrl } from './imageUtils';
+
+/**
+ * A colour of an image and how much of it the colour covers.
+ */
+export interface DominantColor {
+  hex: string;
+  /** The fraction of the analysed pixels, from 0 to 1. */
+  share: number;
+}
+
+/** The longest edge, in pixels, of the copy of the image that is analysed. */
+const SAMPLE_EDGE = 96;
+
+/** Pixels with a lower alpha are transparent and ignored. */
+const MIN_ALPHA = 128;
+
+/** Channels are grouped into buckets of 2^BUCKET_SHIFT levels before clustering. */
+const BUCKET_SHIFT = 3;
+
+/** The RGB distance within which a pixel counts as the backdrop colour. */
+const BACKGROUND_DISTANCE = 40;
+
+/** The fraction of border pixels that must share a colour for it to count as the backdrop. */
+const BACKGROUND_BORDER_SHARE = 0.8;
+
+/** Clusters whose centres are closer than this RGB distance are reported as one colour. */
+const MERGE_DISTANCE = 28;
+
+/** Colours covering less than this fraction of the garment are dropped. */
+const MIN_SHARE = 0.02;
+
+const MAX_ITERATIONS = 12;
+
+/** A group of similar pixels, weighted by how many pixels it stands for. */
+interface WeightedColor extends Rgb {
+  weight: number;
+}
+
+const distanceSquared = (a: Rgb, b: Rgb): number =>
+  (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+
+/** Reads the colour of the pixel at an index of an RGBA array. */
+const pixelAt = (pixels: Uint8ClampedArray, index: number): Rgb => ({
+  r: pixels[index * 4],
+  g: pixels[index * 4 + 1],
+  b: pixels[index * 4 + 2],
+});
+
+/**
+ * Detects a plain backdrop from the opaque pixels on the border of the image.
+ * @returns The backdrop colour, or null when the border is not mostly one colour.
+ */
+const findBackground = (pixels: Uint8ClampedArray, width: number, height: number): Rgb | null => {
+  const border: Rgb[] = [];
+  for (let x = 0; x < width; x++) {
+    for (const y of [0, height - 1]) {
+      if (pixels[(y * width + x) * 4 + 3] >= MIN_ALPHA) border.push(pixelAt(pixels, y * width + x));
+    }
+  }
+  for (let y = 1; y < height - 1; y++) {
+    for (const x of [0, width - 1]) {
+      if (pixels[(y * width + x) * 4 + 3] >= MIN_ALPHA) border.push(pixelAt(pixels, y * width + x));
+    }
+  }
+  if (border.length === 0) return null;
+
+  const mean = border.reduce((sum, c) => ({ r: sum.r + c.r, g: sum.g + c.g, b: sum.b + c.b }), { r: 0, g: 0, b: 0 });
+  const background = { r: mean.r / border.length, g: mean.g / border.length, b: mean.b / border.length };
+  const matching = border.filter(c => distanceSquared(c, background) <= BACKGROUND_DISTANCE ** 2).length;
+  return matching >= border.length * BACKGROUND_BORDER_SHARE ? background : null;
+};
+
+/**
+ * Groups the pixels to analyse into buckets of similar colours, so clustering works on
+ * a few hundred weighted colours instead of every pixel.
+ */
+const bucketPixels = (pixels: Uint8ClampedArray, background: Rgb | null): WeightedColor[] => {
+  const buckets = new Map<number, WeightedColor>();
+  for (let i = 0; i < pixels.length / 4; i++) {
+    if (pixels[i * 4 + 3] < MIN_ALPHA) continue;
+    const color = pixelAt(pixels, i);
+    if (background && distanceSquared(color, background) <= BACKGROUND_DISTANCE ** 2) continue;
+    const key = ((color.r >> BUCKET_SHIFT) << 10) | ((color.g >> BUCKET_SHIFT) << 5) | (color.b >> BUCKET_SHIFT);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.r += color.r;
+      bucket.g += color.g;
+      bucket.b += color.b;
+      bucket.weight++;
+    } else {
+      buckets.set(key, { ...color, weight: 1 });
+    }
+  }
+  return [...buckets.values()].map(({ r, g, b, weight }) => ({ r: r / weight, g: g / weight, b: b / weight, weight }));
+};
+
+/**
+ * Picks the starting centres: the most common colour, then repeatedly the colour that is
+ * both common and far from the centres already picked. Unlike random seeding, the same
+ * image always gives the same palette.
+ */
+const seedCentres = (colors: WeightedColor[], count: number): Rgb[] => {
+  const heaviest = colors.reduce((best, c) => (c.weight > best.weight ? c : best));
+  const centres: Rgb[] = [heaviest];
+  const nearest = colors.map(c => distanceSquared(c, heaviest));
+  while (centres.length < count) {
+    let best = -1;
+    let bestScore = 0;
+    colors.forEach((c, i) => {
+      const score = c.weight * nearest[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    // Every colour already coincides with a centre.
+    if (best < 0) break;
+    centres.push(colors[best]);
+    colors.forEach((c, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSquared(c, colors[best]));
+    });
+  }
+  return centres;
+};
+
+/** Runs weighted k-means and returns the clusters with their total weight. */
+const cluster = (colors: WeightedColor[], count: number): WeightedColor[] => {
+  const centres = seedCentres(colors, count);
+  const assignment = new Array<number>(colors.length).fill(-1);
+  let clusters: WeightedColor[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    colors.forEach((c, i) => {
+      let best = 0;
+      centres.forEach((centre, j) => {
+        if (distanceSquared(c, centre) < distanceSquared(c, centres[best])) best = j;
+      });
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    });
+
+    clusters = centres.map(() => ({ r: 0, g: 0, b: 0, weight: 0 }));
+    colors.forEach((c, i) => {
+      const target = clusters[assignment[i]];
+      target.r += c.r * c.weight;
+      target.g += c.g * c.weight;
+      target.b += c.b * c.weight;
+      target.weight += c.weight;
+    });
+    clusters.forEach((c, j) => {
+      // A centre that attracted no colour stays where it is.
+      centres[j] = c.weight > 0 ? { r: c.r / c.weight, g: c.g / c.weight, b: c.b / c.weight } : centres[j];
+    });
+    if (!changed) break;
+  }
+  return clusters
+    .map((c, j) => ({ ...centres[j], weight: c.weight }))
+    .filter(c => c.weight > 0);
+};
+
+/** Reports clusters that look alike as one colour, weighted towards the larger one. */
+const mergeSimilar = (clusters: WeightedColor[]): WeightedColor[] => {
+  const merged: WeightedColor[] = [];
+  for (const c of [...clusters].sort((a, b) => b.weight - a.weight)) {
+    const match = merged.find(m => distanceSquared(m, c) < MERGE_DISTANCE ** 2);
+    if (match) {
+      const weight = match.weight + c.weight;
+      match.r = (match.r * match.weight + c.r * c.weight) / weight;
+      match.g = (match.g * match.weight + c.g * c.weight) / weight;
+      match.b = (match.b * match.weight + c.b * c.weight) / weight;
+      match.weight = weight;
+    } else {
+      merged.push({ ...c });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Finds the dominant colours of some RGBA pixels.
+ * @param pixels - The pixels, four bytes each, row by row.
+ * @param width - The width of the image, in pixels.
+ * @param height - The height of the image, in pixels.
+ * @param maxColors - The largest number of colours to report.
+ * @returns The colours, most common first, with shares that add up to 1; empty when no pixel is opaque.
+ */
+export const quantizePixels = (pixels: Uint8ClampedArray, width: number, height: number, maxColors: number): DominantColor[] => {
+  const background = findBackground(pixels, width, height);
+  let colors = bucketPixels(pixels, background);
+  // A garment as plain as its backdrop would be left out entirely; analyse every pixel instead.
+  if (background && colors.reduce((sum, c) => sum + c.weight, 0) < (width * height) / 20) {
+    colors = bucketPixels(pixels, null);
+  }
+  if (colors.length === 0) return [];
+
+  const clusters = mergeSimilar(cluster(colors, maxColors));
+  const total = clusters.reduce((sum, c) => sum + c.weight, 0);
+  const kept = clusters.filter(c => c.weight / total >= MIN_SHARE);
+  const keptTotal = kept.reduce((sum, c) => sum + c.weight, 0);
+  return kept.map(c => ({ hex: rgbToHex(c), share: c.weight / keptTotal }));
+};
+
+/**
+ * Finds the dominant colours of an image.
+ * @param image - The image to analyse, typically the garment.
+ * @param maxColors - The largest number of colours to report.
+ * @returns A promise that resolves to the colours, most common first.
+ * @throws Will throw an error if the image cannot be decoded.
+ */
+export const extractDominantColors = async (image: ImageData, maxColors = 6): Promise<DominantColor[]> => {
+  const element = await loadImage(imageDataToDataUrl(image));
+  const scale = Math.min(1, SAMPLE_EDGE / Math.max(element.naturalWidth, element.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(element.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(element.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  context.drawImage(element, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return quantizePixels(data, canvas.width, canvas.height, maxColors);
+};
@@ -0,0 +1,60 @@
+/**
+ * @file Contains helpers for scheduling asynchronous work: bounded parallelism and abortable delays.
+ */
+
+/**
+ * Waits for the given duration, or until the signal is aborted.
+ *
+ * @param ms The duration to wait, in milliseconds.
+ * @param signal An optional signal that interrupts the wait.
+ * @returns A promise that resolves after the delay, or rejects with the signal's reason if aborted.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Runs a list of async tasks, never executing more than `limit` of them at once.
+ * Tasks are started in order, and a new one starts as soon as a running one settles.
+ * A failing task does not stop the others; every outcome is reported.
+ *
+ * @param tasks The task factories to run.
+ * @param limit The maximum number of tasks allowed to run concurrently.
+ * @returns A promise that resolves, once all tasks have settled, to their results in task order.
+ */
+export const runWithConcurrency = async <T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let nextIndex = 0;
+
+  // Each worker keeps pulling the next pending task until none are left.
+  const worker = async () => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
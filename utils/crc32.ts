@@ -0,0 +1,29 @@
+/**
+ * @file The CRC-32 checksum shared by the ZIP and PNG writers.
+ */
+
+/** The CRC-32 lookup table for the polynomial used by ZIP and PNG (0xEDB88320, reflected). */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum of some bytes.
+ * @param data - The bytes to checksum.
+ * @returns The checksum as an unsigned 32-bit integer.
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
@@ -0,0 +1,149 @@
+/**
+ * @file Crops and rotates input images, and remembers the original of each cropped image.
+ * A crop is described relative to the rotated image, so it does not depend on the size the
+ * image is shown at. Originals are kept in memory, keyed by the cropped `ImageData` object,
+ * so undoing back to a cropped image still allows cropping it again; projects store the
+ * originals of their references, and remember them again when they are opened.
+ */
+import type { ImageData } from '../types';
+import {
+  loadImage,
+  imageDataToDataUrl,
+  encodeCanvas,
+  validateImageFile,
+  getBase64ByteLength,
+  DEFAULT_PREPROCESS_OPTIONS,
+} from './imageUtils';
+
+/**
+ * A crop of an image. The selection is in fractions (0 to 1) of the bounding box of the
+ * rotated image.
+ */
+export interface CropSettings {
+  /** The rotation, in degrees clockwise. */
+  rotation: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** The id of the aspect ratio the selection was locked to (see `cropAspectRatios`). */
+  aspectId: string;
+}
+
+/**
+ * An aspect ratio the selection can be locked to.
+ */
+export interface CropAspectRatio {
+  id: string;
+  label: string;
+  /** Width divided by height; absent for a free selection. */
+  ratio?: number;
+}
+
+export const FREE_ASPECT_ID = 'free';
+
+/** The aspect ratios offered by the crop editor, in display order. */
+export const cropAspectRatios: CropAspectRatio[] = [
+  { id: FREE_ASPECT_ID, label: 'Libre' },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '3:4', label: '3:4', ratio: 3 / 4 },
+  { id: '2:3', label: '2:3', ratio: 2 / 3 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+];
+
+/** A crop that keeps the whole image as it is. */
+export const FULL_CROP: CropSettings = { rotation: 0, x: 0, y: 0, width: 1, height: 1, aspectId: FREE_ASPECT_ID };
+
+/**
+ * The original an image was cropped from, and the crop that produced it.
+ */
+export interface CropSource {
+  original: ImageData;
+  crop: CropSettings;
+}
+
+const cropSources = new WeakMap<ImageData, CropSource>();
+
+/**
+ * Records the original of a cropped image, so it can be cropped again.
+ * @param cropped - The image produced by the crop.
+ * @param source - The original and the crop applied to it.
+ */
+export const rememberCropSource = (cropped: ImageData, source: CropSource): void => {
+  cropSources.set(cropped, source);
+};
+
+/**
+ * Returns the original a cropped image came from, if it is still known.
+ */
+export const getCropSource = (image: ImageData): CropSource | undefined => cropSources.get(image);
+
+/**
+ * Computes the bounding box of an image once rotated.
+ * @param width - The width of the image.
+ * @param height - The height of the image.
+ * @param rotation - The rotation, in degrees.
+ */
+export const getRotatedSize = (width: number, height: number, rotation: number): { width: number; height: number } => {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Draws an image rotated about its centre, filling the canvas with its bounding box.
+ * The corners uncovered by the rotation are painted white.
+ */
+export const drawRotated = (canvas: HTMLCanvasElement, image: HTMLImageElement, rotation: number, scale = 1): void => {
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  const bounds = getRotatedSize(width, height, rotation);
+  canvas.width = Math.max(1, Math.round(bounds.width));
+  canvas.height = Math.max(1, Math.round(bounds.height));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(image, -width / 2, -height / 2, width, height);
+};
+
+/** Whether a crop leaves the image as it is. */
+const isFullCrop = (crop: CropSettings): boolean =>
+  crop.rotation % 360 === 0 && crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+
+/**
+ * Applies a crop to an image and encodes the result once, within the limits of any other input.
+ * The source was already prepared when it was added, so it is not turned upright again.
+ * @param source - The original image.
+ * @param crop - The rotation and selection to apply.
+ * @returns A promise that resolves to the cropped image; the original itself when nothing is cropped.
+ */
+export const cropImage = async (source: ImageData, crop: CropSettings): Promise<ImageData> => {
+  if (isFullCrop(crop)) return source;
+  const image = await loadImage(imageDataToDataUrl(source));
+  const rotated = document.createElement('canvas');
+  drawRotated(rotated, image, crop.rotation);
+
+  // A rotation enlarges the bounding box, so the selection may need scaling back to the maximum edge.
+  const { maxEdge } = DEFAULT_PREPROCESS_OPTIONS;
+  const scale = Math.min(1, maxEdge / Math.max(crop.width * rotated.width, crop.height * rotated.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * rotated.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * rotated.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  context.drawImage(rotated, -crop.x * rotated.width * scale, -crop.y * rotated.height * scale, rotated.width * scale, rotated.height * scale);
+
+  const cropped = encodeCanvas(canvas, context, source.mimeType !== 'image/jpeg');
+  validateImageFile(cropped.mimeType, getBase64ByteLength(cropped.base64));
+  return cropped;
+};
@@ -0,0 +1,68 @@
+/**
+ * @file Helpers to save images from the browser.
+ * History images are saved with their generation metadata embedded (see `imageMetadata.ts`).
+ */
+import { delay } from './concurrency';
+import { dataUrlToImageData, base64ToBytes } from './imageUtils';
+import { buildImageMetadata, embedMetadata } from './imageMetadata';
+import type { GeneratedImage } from '../types';
+
+/** Pause between files of a bulk download, so browsers do not drop any of them. */
+const BULK_DOWNLOAD_INTERVAL_MS = 250;
+
+/** The file extension used for each image type. */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/**
+ * Triggers the browser download of a data or blob URL.
+ * @param url - The URL of the file.
+ * @param filename - The suggested file name.
+ */
+export const downloadUrl = (url: string, filename: string): void => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+/**
+ * Downloads a history image with its generation metadata embedded.
+ * If the metadata cannot be written, the image is downloaded as it is.
+ * @param image - The history image.
+ * @param baseName - The file name without extension; the extension follows the image type.
+ */
+export const downloadImage = (image: GeneratedImage, baseName: string): void => {
+  let url = image.url;
+  let mimeType = 'image/png';
+  try {
+    const data = dataUrlToImageData(image.url);
+    mimeType = data.mimeType;
+    const bytes = embedMetadata(base64ToBytes(data.base64), buildImageMetadata(image));
+    url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  } catch (error) {
+    console.warn('Downloading the image without metadata:', error);
+  }
+  downloadUrl(url, `${baseName}.${IMAGE_EXTENSIONS[mimeType] ?? 'png'}`);
+  if (url !== image.url) {
+    // Give the browser time to start the download before releasing the file.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
+
+/**
+ * Downloads several history images one after another.
+ * @param images - The history images.
+ * @param prefix - The start of every file name; files are numbered in order.
+ */
+export const downloadAll = async (images: GeneratedImage[], prefix: string): Promise<void> => {
+  for (const [index, image] of images.entries()) {
+    if (index > 0) await delay(BULK_DOWNLOAD_INTERVAL_MS);
+    downloadImage(image, `${prefix}-${index + 1}`);
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * @file Reads the EXIF orientation of JPEG files.
+ * Phone cameras store photos in the sensor's orientation and record how to turn them
+ * upright in this tag; tools that ignore it show the photo sideways.
+ */
+
+/** The TIFF tag holding the orientation. */
+const ORIENTATION_TAG = 0x0112;
+
+/** The identifier that opens the APP1 segment of EXIF data. */
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+/** Finds the orientation tag in the first directory of a TIFF structure. */
+const readTiffOrientation = (view: DataView, tiffStart: number, end: number): number => {
+  if (tiffStart + 8 > end) return 1;
+  const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II"
+  const directory = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (directory + 2 > end) return 1;
+  const entryCount = view.getUint16(directory, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = directory + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, littleEndian);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+};
+
+/**
+ * Reads the EXIF orientation of a JPEG file.
+ * @param bytes - The file contents.
+ * @returns The orientation, from 1 (upright) to 8; 1 when the file is not a JPEG or has none.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the metadata segments are over.
+    if (marker === 0xda) break;
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    if (marker === 0xe1 && EXIF_HEADER.every((byte, i) => bytes[start + i] === byte)) {
+      return readTiffOrientation(view, start + EXIF_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
@@ -0,0 +1,14 @@
+/**
+ * @file Small formatting helpers for values shown in the UI.
+ */
+
+/**
+ * Formats a byte count for display, e.g. "840 KB" or "3.2 MB".
+ * @param bytes - The number of bytes.
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,78 @@
+/**
+ * @file Filtering and sorting of the results history.
+ * Background, palette and age are read from the generation an image comes from,
+ * so refinements are filtered by the settings of their original generation.
+ */
+import { getRootGenerationParams } from './lineage';
+import type { GeneratedImage } from '../types';
+import type { RecordedGenerationParams } from '../services/geminiService';
+
+/** The orders the history can be shown in. */
+export type HistorySort = 'newest' | 'oldest' | 'rating';
+
+/**
+ * The filters and order applied to the history gallery.
+ * A `null` filter value matches every image.
+ */
+export interface HistoryFilters {
+  /** The minimum star rating; 0 matches unrated images too. */
+  minRating: number;
+  favoritesOnly: boolean;
+  showRejected: boolean;
+  /** A background key, see `getBackgroundKey`. */
+  background: string | null;
+  /** A palette key, see `getPaletteKey`. */
+  palette: string | null;
+  modelAge: string | null;
+  sort: HistorySort;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  minRating: 0,
+  favoritesOnly: false,
+  showRejected: false,
+  background: null,
+  palette: null,
+  modelAge: null,
+  sort: 'newest',
+};
+
+/** Identifies the background of a generation; every uploaded background counts as 'custom'. */
+export const getBackgroundKey = (params: RecordedGenerationParams): string =>
+  params.backgroundImage ? 'custom' : params.background;
+
+/** Identifies the palette of a generation by its colours; the original colours are ''. */
+export const getPaletteKey = (params: RecordedGenerationParams): string =>
+  (params.paletteColors ?? []).join(',');
+
+/**
+ * Applies the filters and order to the history.
+ * @param images - The history.
+ * @param filters - The filters and order to apply.
+ * @returns The matching images, in the requested order.
+ */
+export const filterHistory = (images: GeneratedImage[], filters: HistoryFilters): GeneratedImage[] => {
+  const matches = images.filter(image => {
+    if (image.rejected && !filters.showRejected) return false;
+    if (filters.favoritesOnly && !image.favorite) return false;
+    if ((image.rating ?? 0) < filters.minRating) return false;
+
+    if (filters.background !== null || filters.palette !== null || filters.modelAge !== null) {
+      const params = getRootGenerationParams(images, image);
+      if (!params) return false;
+      if (filters.background !== null && getBackgroundKey(params) !== filters.background) return false;
+      if (filters.palette !== null && getPaletteKey(params) !== filters.palette) return false;
+      if (filters.modelAge !== null && params.modelAge !== filters.modelAge) return false;
+    }
+    return true;
+  });
+
+  switch (filters.sort) {
+    case 'oldest':
+      return matches.sort((a, b) => a.createdAt - b.createdAt);
+    case 'rating':
+      return matches.sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) || b.createdAt - a.createdAt);
+    default:
+      return matches.sort((a, b) => b.createdAt - a.createdAt);
+  }
+};
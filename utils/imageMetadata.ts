@@ -0,0 +1,420 @@
+/**
+ * @file Embeds generation metadata into image files and reads it back.
+ * PNG files get `tEXt`/`iTXt` chunks; JPEG and WebP files get an XMP packet. The full
+ * metadata travels as JSON under the app's own key, next to the standard fields (software,
+ * description, creation date) that other tools display. Input images are never embedded.
+ */
+import { crc32 } from './crc32';
+import type { GeneratedImage } from '../types';
+import type { RecordedGenerationParams } from '../services/geminiService';
+
+/** The name written as the creating software. */
+const SOFTWARE_NAME = 'Aristic Photo Lab';
+
+/** The PNG text keyword, and the XMP property, holding the JSON metadata. */
+const METADATA_KEY = 'aristic-photo-lab';
+
+/** The namespace of the app's XMP properties. */
+const XMP_NAMESPACE = 'urn:aristic-photo-lab:metadata:1.0';
+
+/** The identifier that opens the APP1 segment of a JPEG XMP packet. */
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * The generation parameters embedded in a file: the recorded parameters without their images.
+ */
+export type EmbeddedGenerationParams = Omit<
+  RecordedGenerationParams,
+  'garmentImage' | 'modelImage' | 'backgroundImage' | 'backDesignImage' | 'poseReferenceImage'
+>;
+
+/**
+ * The settings that produced an image, as embedded in a file.
+ */
+export type EmbeddedSettings =
+  | { kind: 'generation'; params: EmbeddedGenerationParams }
+  | { kind: 'refinement'; refinementPrompt: string };
+
+/**
+ * The provenance of a downloaded image.
+ */
+export interface ImageMetadata {
+  software: string;
+  /** The creation date, as an ISO 8601 string. */
+  createdAt: string;
+  model?: string;
+  templateId: string;
+  templateVersion: number;
+  /** The final prompt sent to the model. */
+  prompt?: string;
+  label?: string;
+  settings?: EmbeddedSettings;
+}
+
+/**
+ * Builds the metadata to embed for a history image.
+ * @param image - The history image.
+ * @returns Its metadata.
+ */
+export const buildImageMetadata = (image: GeneratedImage): ImageMetadata => {
+  let settings: EmbeddedSettings | undefined;
+  if (image.record?.kind === 'generation') {
+    const { garmentImage, modelImage, backgroundImage, backDesignImage, poseReferenceImage, ...params } = image.record.params;
+    settings = { kind: 'generation', params };
+  } else if (image.record?.kind === 'refinement') {
+    settings = { kind: 'refinement', refinementPrompt: image.record.refinementPrompt };
+  }
+  return {
+    software: SOFTWARE_NAME,
+    createdAt: new Date(image.createdAt).toISOString(),
+    model: image.model,
+    templateId: image.templateId,
+    templateVersion: image.templateVersion,
+    prompt: image.prompt,
+    label: image.label,
+    settings,
+  };
+};
+
+// --- Byte helpers ---
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/** Encodes text as Latin-1, the encoding of PNG keywords and `tEXt` chunks. */
+const latin1 = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => (char.charCodeAt(0) < 256 ? char.charCodeAt(0) : 0x3f));
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  new TextDecoder('latin1').decode(bytes.subarray(offset, offset + length));
+
+const startsWith = (bytes: Uint8Array, prefix: number[] | string, offset = 0): boolean => {
+  const expected = typeof prefix === 'string' ? Array.from(prefix, char => char.charCodeAt(0)) : prefix;
+  return expected.every((byte, index) => bytes[offset + index] === byte);
+};
+
+const isPng = (bytes: Uint8Array) => startsWith(bytes, PNG_SIGNATURE);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isWebp = (bytes: Uint8Array) => startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8);
+
+/** Parses JSON metadata, returning null when it is not the app's metadata. */
+const parseMetadata = (json: string): ImageMetadata | null => {
+  try {
+    const value = JSON.parse(json);
+    return value && typeof value.templateId === 'string' && typeof value.templateVersion === 'number' ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- PNG ---
+
+/**
+ * Iterates over the chunks of a PNG file.
+ * @returns The type, data and position (including length, type and CRC) of each chunk.
+ */
+function* pngChunks(bytes: Uint8Array): Generator<{ type: string; data: Uint8Array; start: number; end: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    yield { type, data: bytes.subarray(offset + 8, offset + 8 + length), start: offset, end };
+    if (type === 'IEND') return;
+    offset = end;
+  }
+}
+
+const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const createTextChunk = (keyword: string, text: string): Uint8Array =>
+  createPngChunk('tEXt', concatBytes([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+/** An uncompressed international text chunk, for UTF-8 text. */
+const createInternationalTextChunk = (keyword: string, text: string): Uint8Array =>
+  createPngChunk('iTXt', concatBytes([
+    latin1(keyword),
+    // Null separator, compression flag and method, empty language tag and translated keyword.
+    new Uint8Array([0, 0, 0, 0, 0]),
+    new TextEncoder().encode(text),
+  ]));
+
+/** Reads the keyword and text of a `tEXt` or uncompressed `iTXt` chunk. */
+const readTextChunk = (type: string, data: Uint8Array): { keyword: string; text: string } | null => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 0) return null;
+  const keyword = ascii(data, 0, keywordEnd);
+  if (type === 'tEXt') {
+    return { keyword, text: ascii(data, keywordEnd + 1, data.length - keywordEnd - 1) };
+  }
+  if (data[keywordEnd + 1] !== 0) return null; // Compressed text is never written by the app.
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) return null;
+  return { keyword, text: new TextDecoder().decode(data.subarray(translatedEnd + 1)) };
+};
+
+const embedInPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const written = new Set([METADATA_KEY, 'Software', 'Description', 'Creation Time']);
+  const textChunks = [
+    createInternationalTextChunk(METADATA_KEY, JSON.stringify(metadata)),
+    createTextChunk('Software', metadata.software),
+    createTextChunk('Creation Time', metadata.createdAt),
+    ...(metadata.prompt ? [createInternationalTextChunk('Description', metadata.prompt)] : []),
+  ];
+
+  // The text goes right after the header, replacing any text written by a previous download.
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of pngChunks(bytes)) {
+    if (chunk.type === 'tEXt' || chunk.type === 'iTXt') {
+      const text = readTextChunk(chunk.type, chunk.data);
+      if (text && written.has(text.keyword)) continue;
+    }
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+    if (chunk.type === 'IHDR') parts.push(...textChunks);
+  }
+  return concatBytes(parts);
+};
+
+const readFromPng = (bytes: Uint8Array): ImageMetadata | null => {
+  for (const chunk of pngChunks(bytes)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') continue;
+    const text = readTextChunk(chunk.type, chunk.data);
+    if (text?.keyword === METADATA_KEY) return parseMetadata(text.text);
+  }
+  return null;
+};
+
+// --- XMP (JPEG and WebP) ---
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string): string =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const createXmpPacket = (metadata: ImageMetadata): Uint8Array => {
+  const description = metadata.prompt
+    ? `\n   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>`
+    : '';
+  const packet = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:apl="${XMP_NAMESPACE}"
+    xmp:CreatorTool="${escapeXml(metadata.software)}"
+    xmp:CreateDate="${escapeXml(metadata.createdAt)}"
+    apl:metadata="${escapeXml(JSON.stringify(metadata))}">${description}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+  return new TextEncoder().encode(packet);
+};
+
+const readFromXmp = (packet: Uint8Array): ImageMetadata | null => {
+  const match = new TextDecoder().decode(packet).match(/apl:metadata="([^"]*)"/);
+  return match ? parseMetadata(unescapeXml(match[1])) : null;
+};
+
+// --- JPEG ---
+
+/**
+ * Iterates over the marker segments of a JPEG file, up to the start of the image data.
+ * @returns The marker and payload (after the length field) of each segment, and its position.
+ */
+function* jpegSegments(bytes: Uint8Array): Generator<{ marker: number; data: Uint8Array; start: number; end: number }> {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the compressed data follows, with no more headers to read.
+    if (marker === 0xda) return;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    yield { marker, data: bytes.subarray(offset + 4, end), start: offset, end };
+    offset = end;
+  }
+}
+
+const isXmpSegment = (segment: { marker: number; data: Uint8Array }) =>
+  segment.marker === 0xe1 && startsWith(segment.data, JPEG_XMP_HEADER);
+
+const embedInJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const payload = concatBytes([latin1(JPEG_XMP_HEADER), createXmpPacket(metadata)]);
+  if (payload.length + 2 > 0xffff) {
+    throw new Error('The metadata is too large for a JPEG segment.');
+  }
+  const segment = concatBytes([new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload]);
+
+  // The XMP segment goes after the JFIF header, which must stay first, replacing any previous one.
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let inserted = false;
+  let offset = 2;
+  for (const current of jpegSegments(bytes)) {
+    offset = current.end;
+    if (isXmpSegment(current)) continue;
+    if (!inserted && current.marker !== 0xe0) {
+      parts.push(segment);
+      inserted = true;
+    }
+    parts.push(bytes.subarray(current.start, current.end));
+  }
+  if (!inserted) parts.push(segment);
+  parts.push(bytes.subarray(offset));
+  return concatBytes(parts);
+};
+
+const readFromJpeg = (bytes: Uint8Array): ImageMetadata | null => {
+  for (const segment of jpegSegments(bytes)) {
+    if (isXmpSegment(segment)) return readFromXmp(segment.data.subarray(JPEG_XMP_HEADER.length));
+  }
+  return null;
+};
+
+// --- WebP ---
+
+/**
+ * Iterates over the chunks of a WebP file.
+ * @returns The FourCC, data and position (including header and padding) of each chunk.
+ */
+function* webpChunks(bytes: Uint8Array): Generator<{ type: string; data: Uint8Array; start: number; end: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    yield { type, data: bytes.subarray(offset + 8, offset + 8 + size), start: offset, end };
+    offset = end;
+  }
+}
+
+const createWebpChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(latin1(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/** The VP8X flag announcing an XMP chunk. */
+const VP8X_XMP_FLAG = 0x04;
+/** The VP8X flag announcing transparency. */
+const VP8X_ALPHA_FLAG = 0x10;
+
+/**
+ * Builds the VP8X header a simple (VP8 or VP8L) WebP needs before it can carry XMP.
+ * @returns The header, or null when the image size cannot be read.
+ */
+const createVp8xHeader = (chunk: { type: string; data: Uint8Array }): Uint8Array | null => {
+  const { type, data } = chunk;
+  let width: number;
+  let height: number;
+  let flags = VP8X_XMP_FLAG;
+  if (type === 'VP8 ' && startsWith(data, [0x9d, 0x01, 0x2a], 3)) {
+    width = ((data[7] << 8) | data[6]) & 0x3fff;
+    height = ((data[9] << 8) | data[8]) & 0x3fff;
+  } else if (type === 'VP8L' && data[0] === 0x2f) {
+    const bits = new DataView(data.buffer, data.byteOffset + 1, 4).getUint32(0, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >> 14) & 0x3fff) + 1;
+    if ((bits >> 28) & 1) flags |= VP8X_ALPHA_FLAG;
+  } else {
+    return null;
+  }
+  const header = new Uint8Array(10);
+  header[0] = flags;
+  [width - 1, height - 1].forEach((value, index) => {
+    header[4 + index * 3] = value & 0xff;
+    header[5 + index * 3] = (value >> 8) & 0xff;
+    header[6 + index * 3] = (value >> 16) & 0xff;
+  });
+  return createWebpChunk('VP8X', header);
+};
+
+const embedInWebp = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const chunks = [...webpChunks(bytes)].filter(chunk => chunk.type !== 'XMP ');
+  const parts: Uint8Array[] = [];
+  if (chunks[0]?.type === 'VP8X') {
+    const header = chunks[0].data.slice();
+    header[0] |= VP8X_XMP_FLAG;
+    parts.push(createWebpChunk('VP8X', header));
+    chunks.slice(1).forEach(chunk => parts.push(bytes.subarray(chunk.start, chunk.end)));
+  } else {
+    const header = chunks[0] && createVp8xHeader(chunks[0]);
+    if (!header) {
+      throw new Error('Unsupported WebP layout.');
+    }
+    parts.push(header, ...chunks.map(chunk => bytes.subarray(chunk.start, chunk.end)));
+  }
+  // XMP comes after the image data.
+  parts.push(createWebpChunk('XMP ', createXmpPacket(metadata)));
+
+  const body = concatBytes(parts);
+  const riffHeader = new Uint8Array(12);
+  riffHeader.set(latin1('RIFF'), 0);
+  new DataView(riffHeader.buffer).setUint32(4, body.length + 4, true);
+  riffHeader.set(latin1('WEBP'), 8);
+  return concatBytes([riffHeader, body]);
+};
+
+const readFromWebp = (bytes: Uint8Array): ImageMetadata | null => {
+  for (const chunk of webpChunks(bytes)) {
+    if (chunk.type === 'XMP ') return readFromXmp(chunk.data);
+  }
+  return null;
+};
+
+// --- Public API ---
+
+/**
+ * Writes metadata into an image file. Metadata written by a previous download is replaced.
+ * @param bytes - The PNG, JPEG or WebP file.
+ * @param metadata - The metadata to embed.
+ * @returns The file with the metadata.
+ * @throws {Error} If the format is not supported or the file cannot be parsed.
+ */
+export const embedMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  if (isPng(bytes)) return embedInPng(bytes, metadata);
+  if (isJpeg(bytes)) return embedInJpeg(bytes, metadata);
+  if (isWebp(bytes)) return embedInWebp(bytes, metadata);
+  throw new Error('Only PNG, JPEG and WebP images can carry metadata.');
+};
+
+/**
+ * Reads the metadata written by `embedMetadata` from an image file.
+ * @param bytes - The contents of the file.
+ * @returns The metadata, or null when the file has none or is not a supported image.
+ */
+export const readMetadata = (bytes: Uint8Array): ImageMetadata | null => {
+  if (isPng(bytes)) return readFromPng(bytes);
+  if (isJpeg(bytes)) return readFromJpeg(bytes);
+  if (isWebp(bytes)) return readFromWebp(bytes);
+  return null;
+};
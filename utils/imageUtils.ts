@@ -2,16 +2,16 @@
  * @file Contains utility functions for image processing.
  */
 
-import type { ImageData } from '../types';
+import type { ImageData, OutputSize, FitMode } from '../types';
+import { readExifOrientation } from './exif';
+import { formatBytes } from './format';
 
 /**
- * Fetches an image from a URL and converts it into an ImageData object.
- * This involves fetching the image as a blob, then using FileReader to
- * read it as a Base64-encoded data URL.
+ * Fetches an image from a URL and prepares it like any other input (see `preprocessImage`).
  *
  * @param url The URL of the image to fetch.
  * @returns A promise that resolves to an ImageData object containing the base64 string and MIME type.
- * @throws Will throw an error if the fetch request fails or if the FileReader encounters an issue.
+ * @throws Will throw an error if the fetch request fails or if the image cannot be prepared.
  */
 export const urlToImageData = async (url: string): Promise<ImageData> => {
   // Fetch the image from the specified URL.
@@ -22,35 +22,323 @@ export const urlToImageData = async (url: string): Promise<ImageData> => {
     throw new Error(`HTTP error! status: ${response.status} while fetching ${url}`);
   }
   
-  // Get the response body as a Blob.
-  const blob = await response.blob();
-  
-  // Use a Promise to handle the asynchronous nature of FileReader.
+  return preprocessImage(await response.blob());
+};
+
+/**
+ * Loads an image source (a data URL or a regular URL) into an HTMLImageElement.
+ * Useful whenever an image needs to be drawn onto a canvas.
+ *
+ * @param src The image source to load.
+ * @returns A promise that resolves to the fully loaded image element.
+ * @throws Will throw an error if the browser fails to decode the image.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    // This event is triggered when the file reading is successfully completed.
-    reader.onloadend = () => {
-      // Ensure the result is a string (data URL).
-      if (typeof reader.result !== 'string') {
-        return reject(new Error('FileReader result is not a string.'));
-      }
-      
-      // The result is a data URL like "data:image/png;base64,iVBORw0KGgo...".
-      // We need to extract just the base64 part.
-      const base64String = reader.result.split(',')[1];
-      if (!base64String) {
-        return reject(new Error('Could not extract base64 string from data URL.'));
-      }
-
-      // Resolve the promise with the required ImageData object.
-      resolve({ base64: base64String, mimeType: blob.type });
-    };
-    
-    // This event is triggered if an error occurs during reading.
-    reader.onerror = (error) => reject(error);
-    
-    // Start reading the blob as a data URL.
-    reader.readAsDataURL(blob);
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image for canvas processing.'));
+    image.src = src;
   });
 };
+
+/**
+ * Builds a data URL from an ImageData object.
+ *
+ * @param image The image data to convert.
+ * @returns A data URL such as "data:image/png;base64,...".
+ */
+export const imageDataToDataUrl = (image: ImageData): string => {
+  return `data:${image.mimeType};base64,${image.base64}`;
+};
+
+/**
+ * Brings an image to an exact pixel size.
+ * In 'crop' mode the image is scaled to cover the target and the excess is trimmed
+ * evenly on both sides, so a centred subject stays centred. In 'pad' mode the whole
+ * image is fitted inside the target over a blurred, enlarged copy of itself.
+ *
+ * @param src The source image (data URL or URL).
+ * @param size The exact target size.
+ * @param mode How to handle a mismatched aspect ratio.
+ * @returns A promise that resolves to a PNG data URL of exactly `size`, or `src` if it already matches.
+ */
+export const fitImageToSize = async (src: string, size: OutputSize, mode: FitMode): Promise<string> => {
+  const image = await loadImage(src);
+  if (image.naturalWidth === size.width && image.naturalHeight === size.height) {
+    return src;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+
+  const coverScale = Math.max(size.width / image.naturalWidth, size.height / image.naturalHeight);
+  const drawCentred = (scale: number) => {
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    context.drawImage(image, (size.width - width) / 2, (size.height - height) / 2, width, height);
+  };
+
+  if (mode === 'pad') {
+    // Blurred backdrop first, then the full image on top.
+    context.filter = 'blur(32px) brightness(0.7)';
+    drawCentred(coverScale * 1.1);
+    context.filter = 'none';
+    drawCentred(Math.min(size.width / image.naturalWidth, size.height / image.naturalHeight));
+  } else {
+    drawCentred(coverScale);
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Re-encodes an image as a JPEG no larger than a maximum edge, for embedding in documents.
+ * Transparent areas are flattened onto white, as they would print.
+ *
+ * @param src The source image (data URL or URL).
+ * @param maxEdge The maximum width and height, in pixels; smaller images are not enlarged.
+ * @param quality The JPEG quality, from 0 to 1.
+ * @returns A promise that resolves to the JPEG bytes and their pixel size.
+ */
+export const imageToJpeg = async (
+  src: string,
+  maxEdge: number,
+  quality = 0.85
+): Promise<{ bytes: Uint8Array; width: number; height: number }> => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const { base64 } = dataUrlToImageData(canvas.toDataURL('image/jpeg', quality));
+  return { bytes: base64ToBytes(base64), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Parses a base64 data URL into an ImageData object.
+ *
+ * @param dataUrl A data URL such as "data:image/png;base64,...".
+ * @returns The corresponding ImageData.
+ * @throws Will throw an error if the string is not a base64 data URL.
+ */
+export const dataUrlToImageData = (dataUrl: string): ImageData => {
+  const match = dataUrl.match(/^data:(.*?);base64,(.*)$/);
+  if (!match) {
+    throw new Error('Expected a base64 data URL.');
+  }
+  return { mimeType: match[1], base64: match[2] };
+};
+
+/**
+ * Decodes a base64 string into raw bytes.
+ *
+ * @param base64 The base64-encoded data.
+ * @returns The decoded bytes.
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Encodes raw bytes as a base64 string.
+ *
+ * @param bytes The bytes to encode.
+ * @returns The base64-encoded data.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Convert in chunks: spreading a large array into String.fromCharCode overflows the stack.
+  const CHUNK_SIZE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+/** The image types accepted as inputs. */
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Limits applied to every input image before it is sent to the model.
+ */
+export interface PreprocessOptions {
+  /** The longest edge, in pixels; larger images are scaled down. */
+  maxEdge: number;
+  /** The JPEG quality of the re-encoded image, from 0 to 1. */
+  quality: number;
+  /** The largest file accepted, in bytes. */
+  maxFileBytes: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 2048,
+  quality: 0.9,
+  maxFileBytes: 25 * 1024 * 1024,
+};
+
+/**
+ * The size of an image, as reported to the user.
+ */
+export interface ImageInfo {
+  width: number;
+  height: number;
+  /** The size of the encoded file, in bytes. */
+  bytes: number;
+}
+
+/** Whether any pixel of a canvas is not fully opaque. */
+const hasTransparency = (context: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const { data } = context.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Checks that an image file is of an accepted type and within the size limit.
+ *
+ * @param mimeType The type of the file.
+ * @param bytes The size of the file, in bytes.
+ * @param maxFileBytes The largest file accepted, in bytes.
+ * @throws Will throw an error if the type is not supported or the file is too large.
+ */
+export const validateImageFile = (mimeType: string, bytes: number, maxFileBytes = DEFAULT_PREPROCESS_OPTIONS.maxFileBytes): void => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(mimeType)) {
+    throw new Error(`Unsupported image type "${mimeType || 'unknown'}". Use PNG, JPEG or WebP.`);
+  }
+  if (bytes > maxFileBytes) {
+    throw new Error(`The image is ${formatBytes(bytes)}; the limit is ${formatBytes(maxFileBytes)}.`);
+  }
+};
+
+/**
+ * Encodes a canvas as an input image: PNG when transparency is allowed and the canvas has
+ * any, JPEG otherwise.
+ *
+ * @param canvas The canvas to encode.
+ * @param context The 2D context of the canvas.
+ * @param allowTransparency Whether the image may keep transparent pixels.
+ * @param quality The JPEG quality, from 0 to 1.
+ * @returns The encoded image.
+ */
+export const encodeCanvas = (
+  canvas: HTMLCanvasElement,
+  context: CanvasRenderingContext2D,
+  allowTransparency: boolean,
+  quality = DEFAULT_PREPROCESS_OPTIONS.quality
+): ImageData => {
+  const mimeType = allowTransparency && hasTransparency(context, canvas.width, canvas.height) ? 'image/png' : 'image/jpeg';
+  const { base64 } = dataUrlToImageData(canvas.toDataURL(mimeType, quality));
+  return { base64, mimeType };
+};
+
+/**
+ * Turns the canvas so that drawing a stored image upright honours its EXIF orientation.
+ * Orientations 5 to 8 swap width and height, which the caller accounts for in the canvas size.
+ */
+const applyOrientation = (context: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width],
+  };
+  const transform = transforms[orientation];
+  if (transform) context.transform(...transform);
+};
+
+/**
+ * Prepares an input image for the model: validates its type and size, turns it upright
+ * according to its EXIF orientation, scales it down to a maximum edge and re-encodes it.
+ * Images with transparency stay PNG; the others become JPEG. An image that needs no
+ * turning or scaling keeps its original file when re-encoding would not make it smaller.
+ *
+ * @param blob The image file (upload, camera capture or fetched sample).
+ * @param options Overrides of the default limits.
+ * @returns A promise that resolves to the prepared image.
+ * @throws Will throw an error if the type is not supported, the file is too large, or it cannot be decoded.
+ */
+export const preprocessImage = async (blob: Blob, options: Partial<PreprocessOptions> = {}): Promise<ImageData> => {
+  const { maxEdge, quality, maxFileBytes } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  validateImageFile(blob.type, blob.size, maxFileBytes);
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const objectUrl = URL.createObjectURL(blob);
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(objectUrl);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  // Browsers that support `image-orientation` already decode the image upright.
+  const exifOrientation = readExifOrientation(bytes);
+  const orientation = CSS.supports('image-orientation', 'from-image') ? 1 : exifOrientation;
+  const isTurned = orientation >= 5;
+  const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = isTurned ? height : width;
+  canvas.height = isTurned ? width : height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  applyOrientation(context, orientation, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  const encoded = encodeCanvas(canvas, context, blob.type !== 'image/jpeg', quality);
+  // The original file is only kept when it is upright without help from its EXIF tag.
+  const isUnchanged = exifOrientation === 1 && scale === 1;
+  if (isUnchanged && getBase64ByteLength(encoded.base64) >= bytes.length) {
+    return { base64: bytesToBase64(bytes), mimeType: blob.type };
+  }
+  return encoded;
+};
+
+/**
+ * Computes the size of the file encoded in a base64 string, without decoding it.
+ *
+ * @param base64 The base64-encoded data.
+ * @returns The size in bytes.
+ */
+export const getBase64ByteLength = (base64: string): number => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+/**
+ * Reads the pixel size and file size of an image.
+ *
+ * @param image The image data.
+ * @returns A promise that resolves to its dimensions and byte size.
+ */
+export const getImageInfo = async (image: ImageData): Promise<ImageInfo> => {
+  const element = await loadImage(imageDataToDataUrl(image));
+  return { width: element.naturalWidth, height: element.naturalHeight, bytes: getBase64ByteLength(image.base64) };
+};
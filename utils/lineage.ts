@@ -0,0 +1,79 @@
+/**
+ * @file Helpers for the refinement lineage of generated images.
+ * Every refinement records the image it was refined from, so the history forms a
+ * forest: each generation is a root and each refinement a child of its source.
+ */
+import type { GeneratedImage } from '../types';
+import type { RecordedGenerationParams } from '../services/geminiService';
+
+/**
+ * A node of the lineage tree: an image and the refinements made from it.
+ */
+export interface LineageNode {
+  image: GeneratedImage;
+  children: LineageNode[];
+}
+
+/**
+ * Builds the lineage forest of a history.
+ * Roots and children are ordered oldest first; an image whose parent is no longer in
+ * the history is treated as a root so it never disappears from the tree.
+ * @param images - The history, in any order.
+ * @returns The root nodes of the forest.
+ */
+export const buildLineageTree = (images: GeneratedImage[]): LineageNode[] => {
+  const nodes = new Map<string, LineageNode>(images.map(image => [image.id, { image, children: [] }]));
+  const roots: LineageNode[] = [];
+
+  [...images]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(image => {
+      const node = nodes.get(image.id)!;
+      const parent = image.parentId ? nodes.get(image.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    });
+
+  return roots;
+};
+
+/**
+ * Lists the ids of an image and all of its ancestors, from the image up to its root.
+ * @param images - The history.
+ * @param imageId - The id of the image to start from.
+ */
+export const getLineagePath = (images: GeneratedImage[], imageId: string): string[] => {
+  const byId = new Map(images.map(image => [image.id, image]));
+  const path: string[] = [];
+  let current = byId.get(imageId);
+  while (current && !path.includes(current.id)) {
+    path.push(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Finds the generation parameters an image ultimately comes from: its own for a
+ * generation, or those of the generation at the root of its refinement chain.
+ * @param images - The history.
+ * @param image - The image to look up.
+ * @returns The recorded parameters, or `undefined` when they were not recorded.
+ */
+export const getRootGenerationParams = (
+  images: GeneratedImage[],
+  image: GeneratedImage
+): RecordedGenerationParams | undefined => {
+  const byId = new Map(images.map(entry => [entry.id, entry]));
+  let current: GeneratedImage | undefined = image;
+  const visited = new Set<string>();
+  while (current && !visited.has(current.id)) {
+    if (current.record?.kind === 'generation') return current.record.params;
+    visited.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return undefined;
+};
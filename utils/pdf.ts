@@ -0,0 +1,224 @@
+/**
+ * @file A minimal PDF writer for print documents such as the lookbook.
+ * It supports what the app needs and nothing more: JPEG images, text in the standard
+ * Helvetica fonts (no embedding, Latin-1 text) and filled or stroked rectangles.
+ * Coordinates are in points (1/72 inch) from the top-left corner of the page.
+ */
+
+/** The size of an A4 page, in points. */
+export const A4 = { width: 595.28, height: 841.89 };
+
+/**
+ * An image added to a document, to be drawn on any of its pages.
+ */
+export interface PdfImage {
+  /** The resource name of the image within the document. */
+  name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options for drawing text.
+ */
+export interface PdfTextOptions {
+  /** The font size, in points. Defaults to 10. */
+  size?: number;
+  bold?: boolean;
+  /** A hex colour such as '#1E293B'. Defaults to black. */
+  color?: string;
+}
+
+/**
+ * A page being drawn.
+ */
+export interface PdfPage {
+  /** Draws an image stretched to the given box. */
+  drawImage: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+  /** Draws a line of text whose baseline sits at `y`. */
+  drawText: (text: string, x: number, y: number, options?: PdfTextOptions) => void;
+  fillRect: (x: number, y: number, width: number, height: number, color: string) => void;
+  strokeRect: (x: number, y: number, width: number, height: number, color: string, lineWidth?: number) => void;
+}
+
+/**
+ * A document being built.
+ */
+export interface PdfDocument {
+  /**
+   * Adds a JPEG image to the document.
+   * @param jpeg - The JPEG file, embedded as is.
+   * @param width - The width of the image, in pixels.
+   * @param height - The height of the image, in pixels.
+   */
+  addImage: (jpeg: Uint8Array, width: number, height: number) => PdfImage;
+  /** Appends a new, empty page. */
+  addPage: () => PdfPage;
+  /** Writes the document. */
+  toBlob: () => Blob;
+}
+
+/** The widths of the printable ASCII characters in Helvetica, in thousandths of the font size. */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** How much wider Helvetica Bold runs than Helvetica, on average. */
+const BOLD_WIDTH_FACTOR = 1.08;
+
+/** Typographic characters outside Latin-1, replaced by their closest equivalent. */
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '…': '...', '€': 'EUR',
+};
+
+/**
+ * Estimates the width of a line of text. Accented letters count as their base letter.
+ * @param text - The text.
+ * @param size - The font size, in points.
+ * @param bold - Whether the text is set in bold, which is approximated.
+ * @returns The width, in points.
+ */
+export const measureText = (text: string, size: number, bold = false): number => {
+  const units = Array.from(text.normalize('NFD')).reduce((total, char) => {
+    const code = char.charCodeAt(0);
+    if (code >= 0x300 && code <= 0x36f) return total; // Combining accents add no width.
+    return total + (HELVETICA_WIDTHS[code - 32] ?? 556);
+  }, 0);
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+};
+
+/**
+ * Shortens text with an ellipsis so it fits a width.
+ * @returns The text, shortened if needed.
+ */
+export const fitText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+/** Encodes text as Latin-1 bytes, the encoding used throughout the file. */
+const encodeLatin1 = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => (char.charCodeAt(0) < 256 ? char.charCodeAt(0) : 0x3f));
+
+/** Escapes text for a PDF string literal. */
+const toPdfString = (text: string): string => {
+  const replaced = Array.from(text, char => TEXT_REPLACEMENTS[char] ?? char).join('');
+  return `(${replaced.replace(/[\\()]/g, match => `\\${match}`).replace(/[\r\n]+/g, ' ')})`;
+};
+
+/** Formats a number for the content stream, without superfluous decimals. */
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/** Converts a hex colour to the three components of a PDF colour. */
+const toRgb = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => num(c / 255)).join(' ');
+};
+
+/**
+ * Creates an empty document.
+ * @param pageSize - The size of every page, in points. Defaults to A4 portrait.
+ */
+export const createPdfDocument = (pageSize: { width: number; height: number } = A4): PdfDocument => {
+  const images: (PdfImage & { data: Uint8Array })[] = [];
+  const pages: string[][] = [];
+  // PDF pages grow upwards from the bottom-left corner; callers measure from the top-left.
+  const flipY = (y: number) => pageSize.height - y;
+
+  const addImage = (jpeg: Uint8Array, width: number, height: number): PdfImage => {
+    const image = { name: `Im${images.length + 1}`, width, height, data: jpeg };
+    images.push(image);
+    return { name: image.name, width, height };
+  };
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    pages.push(ops);
+    return {
+      drawImage: (image, x, y, width, height) => {
+        ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(flipY(y + height))} cm /${image.name} Do Q`);
+      },
+      drawText: (text, x, y, { size = 10, bold = false, color = '#000000' } = {}) => {
+        ops.push(`BT ${toRgb(color)} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(flipY(y))} Td ${toPdfString(text)} Tj ET`);
+      },
+      fillRect: (x, y, width, height, color) => {
+        ops.push(`${toRgb(color)} rg ${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re f`);
+      },
+      strokeRect: (x, y, width, height, color, lineWidth = 0.5) => {
+        ops.push(`${toRgb(color)} RG ${num(lineWidth)} w ${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re S`);
+      },
+    };
+  };
+
+  const toBlob = (): Blob => {
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encodeLatin1(data) : data;
+      parts.push(bytes);
+      length += bytes.length;
+    };
+    const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // Object layout: catalog, page tree, two fonts, the images, then each page and its content.
+    const firstImageId = 5;
+    const firstPageId = firstImageId + images.length;
+    const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+    // The binary comment marks the file as binary for transfer tools.
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    images.forEach((image, index) => {
+      writeObject(
+        firstImageId + index,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+
+    const imageResources = images.map((image, index) => `/${image.name} ${firstImageId + index} 0 R`).join(' ');
+    pages.forEach((ops, index) => {
+      const content = encodeLatin1(ops.join('\n'));
+      writeObject(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageSize.width)} ${num(pageSize.height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${imageResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      writeObject(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const objectCount = firstPageId + pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+  };
+
+  return { addImage, addPage, toBlob };
+};
@@ -0,0 +1,33 @@
+/**
+ * @file Helpers to walk generation records and the images inside them.
+ * Records are plain data, so the services that store or archive them swap their images
+ * for references and back without knowing the shape of each record.
+ */
+import type { ImageData } from '../types';
+
+/** Whether a value is an input image (`ImageData`). */
+export const isImageData = (value: unknown): value is ImageData =>
+  !!value && typeof value === 'object' && typeof (value as ImageData).base64 === 'string'
+    && typeof (value as ImageData).mimeType === 'string';
+
+/**
+ * Rebuilds a plain value (record, params) with every matching leaf replaced.
+ * @param value - The value to walk.
+ * @param isLeaf - Whether a value should be replaced rather than walked into.
+ * @param replace - Produces the replacement of a leaf.
+ */
+export const mapLeaves = async <T>(
+  value: unknown,
+  isLeaf: (value: unknown) => value is T,
+  replace: (leaf: T) => unknown | Promise<unknown>
+): Promise<unknown> => {
+  if (isLeaf(value)) return replace(value);
+  if (Array.isArray(value)) return Promise.all(value.map(item => mapLeaves(item, isLeaf, replace)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await mapLeaves(item, isLeaf, replace)])
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
@@ -0,0 +1,53 @@
+/**
+ * @file Contains a helper for retrying transient failures with exponential backoff.
+ */
+
+import { delay } from './concurrency';
+
+/**
+ * Options controlling how an operation is retried.
+ */
+export interface RetryOptions {
+  /** The total number of attempts, including the first one. */
+  maxAttempts: number;
+  /** The delay before the first retry, in milliseconds. Doubled on each retry. */
+  baseDelayMs: number;
+  /** The upper bound for any single delay, in milliseconds. */
+  maxDelayMs: number;
+  /** Decides whether a given error should be retried. */
+  shouldRetry: (error: unknown) => boolean;
+  /** Optionally overrides the computed delay (e.g. to honour a server's "retry after"). */
+  getDelayOverride?: (error: unknown) => number | undefined;
+  /** Called before each retry, mainly for logging. */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** Stops retrying (and interrupts any pending backoff) once aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs an async operation, retrying it with exponential backoff and jitter while
+ * `shouldRetry` accepts the error and attempts remain. The last error is rethrown.
+ *
+ * @param operation The operation to run.
+ * @param options How to retry.
+ * @returns A promise that resolves with the operation's first successful result.
+ */
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || options.signal?.aborted || !options.shouldRetry(error)) {
+        throw error;
+      }
+      // Equal jitter (half fixed, half random) keeps parallel variants from retrying in lockstep.
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = options.getDelayOverride?.(error) ?? Math.round(backoff / 2 + Math.random() * backoff / 2);
+      options.onRetry?.(error, attempt, delayMs);
+      await delay(delayMs, options.signal);
+    }
+  }
+};
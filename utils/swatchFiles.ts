@@ -0,0 +1,203 @@
+/**
+ * @file Reads and writes the swatch files of design tools.
+ * ASE (Adobe Swatch Exchange) is the binary format of Illustrator, Photoshop and InDesign;
+ * it holds several named groups of colours. GPL is the text format of GIMP and Inkscape;
+ * it holds one palette per file. Colours are exchanged as six-digit hex codes.
+ */
+import { rgbToHex, hexToRgb } from './color';
+
+/**
+ * A named list of colours, as found in a swatch file.
+ */
+export interface SwatchGroup {
+  name: string;
+  colors: string[];
+}
+
+const ASE_SIGNATURE = 'ASEF';
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+/** The colour type of a plain process colour, as opposed to global or spot colours. */
+const ASE_NORMAL_COLOR = 2;
+
+const GPL_HEADER = 'GIMP Palette';
+
+/** Converts CMYK fractions to RGB channels. */
+const cmykToHex = (c: number, m: number, y: number, k: number): string =>
+  rgbToHex({ r: 255 * (1 - c) * (1 - k), g: 255 * (1 - m) * (1 - k), b: 255 * (1 - y) * (1 - k) });
+
+/** Encodes an ASE name: its length in UTF-16 units, the units, and a terminating zero. */
+const encodeAseName = (name: string): Uint8Array => {
+  const bytes = new Uint8Array(2 + (name.length + 1) * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, name.length + 1);
+  for (let i = 0; i < name.length; i++) {
+    view.setUint16(2 + i * 2, name.charCodeAt(i));
+  }
+  return bytes;
+};
+
+/** Builds an ASE block: its type, its length and its contents. */
+const aseBlock = (type: number, ...parts: Uint8Array[]): Uint8Array => {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const block = new Uint8Array(6 + length);
+  const view = new DataView(block.buffer);
+  view.setUint16(0, type);
+  view.setUint32(2, length);
+  let offset = 6;
+  for (const part of parts) {
+    block.set(part, offset);
+    offset += part.length;
+  }
+  return block;
+};
+
+/**
+ * Writes colour groups as an ASE file, one ASE group per palette.
+ * @param groups - The palettes to write.
+ */
+export const encodeAse = (groups: SwatchGroup[]): Uint8Array => {
+  const blocks: Uint8Array[] = [];
+  for (const group of groups) {
+    blocks.push(aseBlock(ASE_GROUP_START, encodeAseName(group.name)));
+    for (const hex of group.colors) {
+      const rgb = hexToRgb(hex);
+      if (!rgb) continue;
+      const color = new Uint8Array(4 + 12 + 2);
+      const view = new DataView(color.buffer);
+      color.set(new TextEncoder().encode('RGB '));
+      view.setFloat32(4, rgb.r / 255);
+      view.setFloat32(8, rgb.g / 255);
+      view.setFloat32(12, rgb.b / 255);
+      view.setUint16(16, ASE_NORMAL_COLOR);
+      blocks.push(aseBlock(ASE_COLOR, encodeAseName(hex.toUpperCase()), color));
+    }
+    blocks.push(aseBlock(ASE_GROUP_END));
+  }
+
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode(ASE_SIGNATURE));
+  view.setUint16(4, 1); // Version 1.0
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+  const file = new Uint8Array(header.length + blocks.reduce((sum, block) => sum + block.length, 0));
+  file.set(header);
+  let offset = header.length;
+  for (const block of blocks) {
+    file.set(block, offset);
+    offset += block.length;
+  }
+  return file;
+};
+
+/** Whether some bytes start with the ASE signature. */
+export const isAse = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 && String.fromCharCode(...bytes.subarray(0, 4)) === ASE_SIGNATURE;
+
+/**
+ * Reads the colours of an ASE file. Colours outside any group are collected in a group
+ * named after the file. RGB, CMYK and grey colours are read; LAB colours are skipped.
+ * @param bytes - The file contents.
+ * @param fallbackName - The name of the group of ungrouped colours.
+ * @returns The groups that hold at least one colour.
+ * @throws An error if the data is not an ASE file or is truncated.
+ */
+export const decodeAse = (bytes: Uint8Array, fallbackName: string): SwatchGroup[] => {
+  if (!isAse(bytes)) {
+    throw new Error('This file is not an ASE swatch file.');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blockCount = view.getUint32(8);
+  const ungrouped: SwatchGroup = { name: fallbackName, colors: [] };
+  const groups: SwatchGroup[] = [ungrouped];
+  let current = ungrouped;
+  let offset = 12;
+
+  const readName = (at: number): string => {
+    const length = view.getUint16(at);
+    let name = '';
+    // The last unit is the terminating zero.
+    for (let i = 0; i < length - 1; i++) {
+      name += String.fromCharCode(view.getUint16(at + 2 + i * 2));
+    }
+    return name;
+  };
+
+  for (let i = 0; i < blockCount; i++) {
+    if (offset + 6 > bytes.length) {
+      throw new Error('The ASE file is truncated.');
+    }
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    if (start + length > bytes.length) {
+      throw new Error('The ASE file is truncated.');
+    }
+
+    if (type === ASE_GROUP_START) {
+      current = { name: readName(start), colors: [] };
+      groups.push(current);
+    } else if (type === ASE_GROUP_END) {
+      current = ungrouped;
+    } else if (type === ASE_COLOR) {
+      const modelAt = start + 2 + view.getUint16(start) * 2;
+      const model = String.fromCharCode(...bytes.subarray(modelAt, modelAt + 4));
+      const value = (index: number) => view.getFloat32(modelAt + 4 + index * 4);
+      if (model === 'RGB ') {
+        current.colors.push(rgbToHex({ r: value(0) * 255, g: value(1) * 255, b: value(2) * 255 }));
+      } else if (model === 'CMYK') {
+        current.colors.push(cmykToHex(value(0), value(1), value(2), value(3)));
+      } else if (model === 'Gray') {
+        current.colors.push(rgbToHex({ r: value(0) * 255, g: value(0) * 255, b: value(0) * 255 }));
+      } else {
+        console.warn(`Skipping an ASE colour in the unsupported "${model.trim()}" model.`);
+      }
+    }
+    offset = start + length;
+  }
+  return groups.filter(group => group.colors.length > 0);
+};
+
+/**
+ * Writes a palette as a GPL file.
+ * @param group - The palette to write.
+ */
+export const encodeGpl = (group: SwatchGroup): string => {
+  const lines = [GPL_HEADER, `Name: ${group.name}`, `Columns: ${group.colors.length}`, '#'];
+  for (const hex of group.colors) {
+    const rgb = hexToRgb(hex);
+    if (!rgb) continue;
+    lines.push(`${String(rgb.r).padStart(3)} ${String(rgb.g).padStart(3)} ${String(rgb.b).padStart(3)}\t${hex.toUpperCase()}`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/** Whether some text starts with the GPL header. */
+export const isGpl = (text: string): boolean => text.replace(/^\uFEFF/, '').startsWith(GPL_HEADER);
+
+/**
+ * Reads the palette of a GPL file.
+ * @param text - The file contents.
+ * @param fallbackName - The name used when the file does not name its palette.
+ * @throws An error if the text is not a GPL file.
+ */
+export const decodeGpl = (text: string, fallbackName: string): SwatchGroup => {
+  if (!isGpl(text)) {
+    throw new Error('This file is not a GPL palette.');
+  }
+  const group: SwatchGroup = { name: fallbackName, colors: [] };
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('Name:')) {
+      group.name = trimmed.slice('Name:'.length).trim() || fallbackName;
+      continue;
+    }
+    const match = /^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(\s|$)/.exec(trimmed);
+    if (match) {
+      group.colors.push(rgbToHex({ r: Number(match[1]), g: Number(match[2]), b: Number(match[3]) }));
+    }
+  }
+  return group;
+};
@@ -0,0 +1,79 @@
+/**
+ * @file A generic undo/redo stack over immutable state snapshots.
+ * Every change records the previous snapshot; undoing moves back through them and redoing
+ * moves forward again, until a new change discards the redo stack.
+ */
+
+/** How many snapshots are kept to undo; older ones are dropped. */
+export const MAX_UNDO_STEPS = 100;
+
+/** Changes of the same group closer together than this are merged into one step. */
+const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * The undo/redo stack of a piece of state.
+ */
+export interface UndoHistory<T> {
+  /** Earlier snapshots, oldest first. */
+  past: T[];
+  present: T;
+  /** Undone snapshots, next one first. */
+  future: T[];
+  /** The group and time of the last change, so a burst of edits undoes as one step. */
+  lastChange?: { group: string; at: number };
+}
+
+/**
+ * Creates a stack with nothing to undo or redo.
+ * @param present - The current state.
+ */
+export const createUndoHistory = <T>(present: T): UndoHistory<T> => ({ past: [], present, future: [] });
+
+/**
+ * Records a new state.
+ * @param history - The stack.
+ * @param next - The new state. When it is the current state, nothing is recorded.
+ * @param group - Optional group of the change, e.g. the text field being typed in. Changes of
+ *   the same group within a second replace the current step instead of adding one.
+ * @returns The updated stack.
+ */
+export const pushState = <T>(history: UndoHistory<T>, next: T, group?: string): UndoHistory<T> => {
+  if (next === history.present) return history;
+  const now = Date.now();
+  const { lastChange } = history;
+  if (group && lastChange?.group === group && now - lastChange.at < COALESCE_WINDOW_MS) {
+    return { ...history, present: next, future: [], lastChange: { group, at: now } };
+  }
+  return {
+    past: [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: next,
+    future: [],
+    lastChange: group ? { group, at: now } : undefined,
+  };
+};
+
+/**
+ * Steps back to the previous state, if any.
+ * @returns The updated stack.
+ */
+export const undo = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+/**
+ * Steps forward to the state last undone, if any.
+ * @returns The updated stack.
+ */
+export const redo = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * @file A minimal ZIP writer and reader for session archives.
+ * Entries are stored without compression: the archived images are already compressed,
+ * so deflating them would cost time for almost no gain. The reader only understands
+ * stored entries, which covers every archive written by `createZip`.
+ */
+import { crc32 } from './crc32';
+
+/**
+ * A file inside a ZIP archive.
+ */
+export interface ZipEntry {
+  /** The path of the file inside the archive, with '/' as separator. */
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+/** Version 2.0, the lowest that supports folders. */
+const ZIP_VERSION = 20;
+/** General purpose flag marking file names as UTF-8. */
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+
+/**
+ * Encodes a date in the MS-DOS format used by ZIP headers.
+ * @returns The time and date fields.
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a ZIP archive from a list of files.
+ * @param entries - The files to archive.
+ * @param modified - The modification date written for every file.
+ * @returns The archive, as a blob of type `application/zip`.
+ */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, STORED, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, STORED, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    // Extra field, comment, disk number, attributes: all zero.
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const directorySize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+/**
+ * Reads the files of a ZIP archive written with stored (uncompressed) entries.
+ * @param buffer - The contents of the archive.
+ * @returns The files of the archive, in directory order.
+ * @throws {Error} If the data is not a ZIP archive, an entry is compressed, or a checksum does not match.
+ */
+export const readZip = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, unless the archive has a comment (at most 64 KiB).
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('The file is not a ZIP archive.');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The ZIP central directory is corrupt.');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (method !== STORED) {
+      throw new Error(`The ZIP entry "${name}" is compressed, which is not supported.`);
+    }
+
+    const dataOffset = localOffset + 30
+      + view.getUint16(localOffset + 26, true)
+      + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer.slice(dataOffset, dataOffset + size));
+    if (crc32(data) !== crc) {
+      throw new Error(`The ZIP entry "${name}" is corrupt.`);
+    }
+    entries.push({ name, data });
+  }
+  return entries;
+};